@@ -0,0 +1,128 @@
+import { parseArgs } from "util";
+import { getAllStations, getNearbyStations, getNearestStation, haversineKm } from "@/lib/commute";
+import { getAllPoints, POINT_CATEGORIES, pointsWithin } from "@/lib/amenity-points";
+import { recommend } from "@/lib/recommend";
+import { getAllSuburbs } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// npm run bench-recommend — time the spatial lookups /api/recommend makes,
+// indexed against a linear scan of every point, and recommend() end to end
+//
+//   npm run bench-recommend
+//   npm run bench-recommend -- --runs 50
+//
+// The indexed results are checked against the linear scan first; any
+// mismatch fails the run.
+// ---------------------------------------------------------------------------
+
+const { values: args } = parseArgs({
+  options: {
+    runs: { type: "string", default: "20" },
+  },
+});
+
+/** Searches covering the common paths: plain, workplace, workplace + household. */
+const SEARCHES: Record<string, Record<string, string>> = {
+  income: { income: "1800", bedrooms: "2" },
+  workplace: { income: "1800", bedrooms: "2", workplace: "Parramatta" },
+  household: { income: "2600", bedrooms: "3", workplaces: "Sydney:1,Chatswood:1", sort: "best_overall" },
+};
+
+/** Radius for the within-radius comparisons, as the suburb page uses for amenities. */
+const RADIUS_KM = 5;
+
+function fail(message: string): never {
+  console.error(`bench-recommend: ${message}`);
+  process.exit(1);
+}
+
+function linearWithin<T extends { lat: number; lng: number }>(points: T[], lat: number, lng: number, km: number): T[] {
+  return points
+    .map((p) => ({ p, d: haversineKm(lat, lng, p.lat, p.lng) }))
+    .filter(({ d }) => d <= km)
+    .sort((a, b) => a.d - b.d)
+    .map(({ p }) => p);
+}
+
+function linearNearest<T extends { lat: number; lng: number }>(points: T[], lat: number, lng: number): T | null {
+  let best: T | null = null;
+  let bestKm = Infinity;
+  for (const p of points) {
+    const d = haversineKm(lat, lng, p.lat, p.lng);
+    if (d < bestKm) {
+      best = p;
+      bestKm = d;
+    }
+  }
+  return best;
+}
+
+/** "mean …, p50 …, p95 …" over timings in ms. */
+function summarise(samples: number[]): string {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))].toFixed(2);
+  const mean = sorted.reduce((a, b) => a + b, 0) / sorted.length;
+  return `mean ${mean.toFixed(2)} ms, p50 ${at(0.5)} ms, p95 ${at(0.95)} ms`;
+}
+
+/** Time `runs` calls after one warm-up call (which also builds the indexes). */
+async function time(runs: number, fn: () => unknown): Promise<string> {
+  await fn();
+  const samples: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const started = performance.now();
+    await fn();
+    samples.push(performance.now() - started);
+  }
+  return summarise(samples);
+}
+
+async function main(): Promise<void> {
+  const runs = Number(args.runs);
+  if (!Number.isInteger(runs) || runs < 1) fail("--runs must be a positive whole number");
+
+  const suburbs = getAllSuburbs().filter((s) => s.lat != null && s.lng != null);
+  const stations = getAllStations();
+
+  // --- Correctness: index vs linear scan ---
+  for (const s of suburbs) {
+    const [lat, lng] = [s.lat!, s.lng!];
+    if (getNearestStation(lat, lng)?.station !== linearNearest(stations, lat, lng)) {
+      fail(`nearest station differs for ${s.suburb_key}`);
+    }
+    const sameList = (a: object[], b: object[]) => a.length === b.length && a.every((p, i) => p === b[i]);
+    const nearby = getNearbyStations(lat, lng, RADIUS_KM).map((n) => n.station);
+    if (!sameList(nearby, linearWithin(stations, lat, lng, RADIUS_KM))) {
+      fail(`stations within ${RADIUS_KM} km differ for ${s.suburb_key}`);
+    }
+    for (const category of POINT_CATEGORIES) {
+      const indexed = pointsWithin(category, lat, lng, RADIUS_KM).map((n) => n.item);
+      if (!sameList(indexed, linearWithin(getAllPoints(category), lat, lng, RADIUS_KM))) {
+        fail(`${category} within ${RADIUS_KM} km differ for ${s.suburb_key}`);
+      }
+    }
+  }
+  console.log(`Index matches a linear scan for ${suburbs.length} suburbs`);
+
+  // --- Lookups: one per suburb, as recommend() makes them ---
+  console.log(`\nNearest station, ${suburbs.length} suburbs (${stations.length} stations):`);
+  console.log(`  linear  ${await time(runs, () => suburbs.forEach((s) => linearNearest(stations, s.lat!, s.lng!)))}`);
+  console.log(`  indexed ${await time(runs, () => suburbs.forEach((s) => getNearestStation(s.lat!, s.lng!)))}`);
+
+  const pointCount = POINT_CATEGORIES.reduce((n, c) => n + getAllPoints(c).length, 0);
+  console.log(`\nAmenity points within ${RADIUS_KM} km, ${suburbs.length} suburbs (${pointCount} points):`);
+  const eachCategory = (fn: (s: { lat: number; lng: number }, c: (typeof POINT_CATEGORIES)[number]) => void) =>
+    suburbs.forEach((s) => POINT_CATEGORIES.forEach((c) => fn({ lat: s.lat!, lng: s.lng! }, c)));
+  console.log(`  linear  ${await time(runs, () => eachCategory((s, c) => linearWithin(getAllPoints(c), s.lat, s.lng, RADIUS_KM)))}`);
+  console.log(`  indexed ${await time(runs, () => eachCategory((s, c) => pointsWithin(c, s.lat, s.lng, RADIUS_KM)))}`);
+
+  // --- recommend() end to end ---
+  console.log(`\nrecommend(), ${runs} runs each:`);
+  for (const [name, params] of Object.entries(SEARCHES)) {
+    const outcome = await recommend(new URLSearchParams(params));
+    if ("error" in outcome) fail(`${name}: ${outcome.error}`);
+    console.log(`  ${name.padEnd(9)} ${await time(runs, () => recommend(new URLSearchParams(params)))}`);
+  }
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,174 @@
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { spawn } from "child_process";
+import type { AddressInfo } from "net";
+import type { HubMatrix } from "@/lib/hub-matrix";
+import type { MatrixHub } from "@/lib/hubs";
+import { ORS_MATRIX_MAX_LOCATIONS } from "@/lib/ors-matrix";
+import { getAllSuburbs } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// npm run check-hub-matrix — run `npm run hub-matrix` against a stub ORS
+// Matrix API and check its batching and retries
+//
+//   npm run check-hub-matrix
+//
+// The stub answers with times derived from each pair's coordinates, so
+// every suburb × hub entry in the output can be checked against the pair
+// it belongs to. With 30 hubs the run needs two hub chunks; the stub
+// rate-limits one request (which must be retried) and reports no route to
+// the last hub (which must come out null). A second run against a stub
+// that always fails must give up after three attempts and exit non-zero.
+// ---------------------------------------------------------------------------
+
+const HUB_COUNT = 30;
+const MAX_ATTEMPTS = 3;
+
+/** Hubs south of this have no route in the stub. */
+const UNROUTABLE_LAT = -34.4;
+
+let failures = 0;
+
+function fail(message: string): never {
+  console.error(`check-hub-matrix: ${message}`);
+  process.exit(1);
+}
+
+function check(label: string, ok: boolean, detail = ""): void {
+  if (!ok) failures++;
+  console.log(`  ${ok ? "ok  " : "FAIL"} ${label}${ok || !detail ? "" : ` — ${detail}`}`);
+}
+
+/** The stub's drive time for a pair: a function of both ends' coordinates. */
+function stubMinutes(from: { lat: number; lng: number }, to: { lat: number; lng: number }): number {
+  return Math.round(Math.abs(from.lat - to.lat) * 100 + Math.abs(from.lng - to.lng) * 100) + 1;
+}
+
+interface StubRequest {
+  locations: [number, number][];
+  sources: number[];
+  destinations: number[];
+}
+
+/** A stub ORS Matrix API. `respond` picks the status for the nth request (1-based). */
+function startStub(respond: (n: number) => number): Promise<{ server: http.Server; url: string; requests: StubRequest[] }> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (c) => (body += c));
+    req.on("end", () => {
+      const request = JSON.parse(body) as StubRequest;
+      requests.push(request);
+      const status = respond(requests.length);
+      if (status !== 200) {
+        res.statusCode = status;
+        res.end(JSON.stringify({ error: { message: "Rate limit exceeded" } }));
+        return;
+      }
+      const at = (i: number) => ({ lat: request.locations[i][1], lng: request.locations[i][0] });
+      const cell = (s: number, d: number, scale: number) =>
+        at(d).lat < UNROUTABLE_LAT ? null : stubMinutes(at(s), at(d)) * scale;
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          durations: request.sources.map((s) => request.destinations.map((d) => cell(s, d, 60))),
+          distances: request.sources.map((s) => request.destinations.map((d) => cell(s, d, 1))),
+        }),
+      );
+    });
+  });
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+/** Run scripts/hub-matrix.ts against `baseUrl`; resolves with its exit code. */
+function runHubMatrix(baseUrl: string, hubsFile: string, outFile: string): Promise<number> {
+  return new Promise((resolve) => {
+    const child = spawn(
+      process.execPath,
+      ["--import", "tsx", path.join(__dirname, "hub-matrix.ts"), "--hubs", hubsFile, "--out", outFile, "--delay", "0"],
+      {
+        env: { ...process.env, OPENROUTE_API_KEY: "stub", OPENROUTE_BASE_URL: baseUrl },
+        stdio: ["ignore", "ignore", "pipe"],
+      },
+    );
+    child.stderr.resume();
+    child.on("close", (code) => resolve(code ?? 1));
+  });
+}
+
+async function main(): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "hub-matrix-check-"));
+  try {
+    // Hubs spread across Sydney; the last sits where the stub has no roads
+    const hubs: MatrixHub[] = Array.from({ length: HUB_COUNT }, (_, i) => ({
+      id: `h${i + 1}`,
+      label: `Hub ${i + 1}`,
+      suburb_key: `hub-${i + 1}`,
+      lat: i === HUB_COUNT - 1 ? UNROUTABLE_LAT - 0.1 : -33.6 - i * 0.02,
+      lng: 150.7 + i * 0.02,
+    }));
+    const hubsFile = path.join(dir, "hubs.json");
+    fs.writeFileSync(hubsFile, JSON.stringify(hubs));
+    const suburbs = getAllSuburbs().filter((s) => s.lat != null && s.lng != null);
+
+    // --- One rate-limited request among successful ones ---
+    const stub = await startStub((n) => (n === 2 ? 429 : 200));
+    const outFile = path.join(dir, "hub_matrix.json");
+    const code = await runHubMatrix(stub.url, hubsFile, outFile);
+    stub.server.close();
+
+    console.log(`${suburbs.length} suburbs × ${HUB_COUNT} hubs, one request rate-limited:`);
+    check("exits cleanly", code === 0, `exit code ${code}`);
+    const batches =
+      Math.ceil(suburbs.length / (ORS_MATRIX_MAX_LOCATIONS - 25)) +
+      Math.ceil(suburbs.length / (ORS_MATRIX_MAX_LOCATIONS - (HUB_COUNT - 25)));
+    check(`${batches} batches plus one retry`, stub.requests.length === batches + 1, `${stub.requests.length} requests`);
+    const largest = Math.max(...stub.requests.map((r) => r.locations.length));
+    check(`every request within ${ORS_MATRIX_MAX_LOCATIONS} locations`, largest <= ORS_MATRIX_MAX_LOCATIONS, `largest ${largest}`);
+    check(
+      "the rate-limited request is retried as sent",
+      JSON.stringify(stub.requests[1]) === JSON.stringify(stub.requests[2]),
+    );
+
+    if (code === 0) {
+      const matrix = JSON.parse(fs.readFileSync(outFile, "utf8")) as HubMatrix;
+      let wrong = 0;
+      let first = "";
+      for (const s of suburbs) {
+        for (const hub of hubs) {
+          const expected = hub.lat < UNROUTABLE_LAT ? null : stubMinutes({ lat: s.lat!, lng: s.lng! }, hub);
+          const route = matrix.routes[s.suburb_key]?.[hub.id];
+          const actual = route === undefined ? "missing" : route && route[0];
+          if (actual !== expected) {
+            wrong++;
+            first ||= `${s.suburb_key} → ${hub.id}: expected ${expected}, got ${actual}`;
+          }
+        }
+      }
+      check("every suburb × hub entry matches its own pair", wrong === 0, `${wrong} wrong, e.g. ${first}`);
+    }
+
+    // --- ORS down for good ---
+    const down = await startStub(() => 503);
+    const downCode = await runHubMatrix(down.url, hubsFile, path.join(dir, "down.json"));
+    down.server.close();
+
+    console.log("ORS failing every request:");
+    check("exits with an error", downCode !== 0, "exit code 0");
+    check(`gives up after ${MAX_ATTEMPTS} attempts`, down.requests.length === MAX_ATTEMPTS, `${down.requests.length} requests`);
+    check("writes no matrix", !fs.existsSync(path.join(dir, "down.json")));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  if (failures > 0) fail(`${failures} check${failures === 1 ? "" : "s"} failed`);
+  console.log("All checks passed");
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
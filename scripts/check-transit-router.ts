@@ -0,0 +1,162 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import zlib from "zlib";
+import { loadGtfsFeed, parseGtfsTime, type GtfsFeed } from "@/lib/gtfs";
+import { latestDepartures, matchStations, stationMatrix } from "@/lib/transit-router";
+
+// ---------------------------------------------------------------------------
+// npm run check-transit-router — load the small feed in scripts/fixtures/gtfs
+// and check the connection scan against journeys worked out by hand
+//
+//   npm run check-transit-router
+//
+// The fixture has four stations on one line, A – B – C – D:
+//   A → B   t1 08:00–08:10 and t4 08:05–08:14 (both to platform B1)
+//   B → C   t2 08:15–08:30 and t3 07:20–08:50 (from platform B2)
+//   C → D   t5 08:40–09:30, too late for a 09:00 arrival
+//   A → C   bus b1 08:20–08:40, kept only with includeBuses
+//   B → C   t6 08:45–08:55, Saturdays only
+// so reaching C from A by 09:00 means changing platforms at B from t1 to
+// t2; t4 leaves too little time to change. Any failed check fails the run.
+// ---------------------------------------------------------------------------
+
+const FIXTURE_DIR = path.join(__dirname, "fixtures", "gtfs");
+
+const TUESDAY = "20250304";
+const SATURDAY = "20250308";
+
+/** Stations as train_stations.json lists them: B stands 200 m off its stop, E near none. */
+const STATIONS = [
+  { name: "A", lat: -33.88, lng: 151.2 },
+  { name: "B", lat: -33.8482, lng: 151.2 },
+  { name: "C", lat: -33.82, lng: 151.2 },
+  { name: "D", lat: -33.79, lng: 151.2 },
+  { name: "E", lat: -33.8, lng: 151.25 },
+];
+
+let failures = 0;
+
+function fail(message: string): never {
+  console.error(`check-transit-router: ${message}`);
+  process.exit(1);
+}
+
+function check(label: string, actual: unknown, expected: unknown): void {
+  const ok = JSON.stringify(actual) === JSON.stringify(expected);
+  if (!ok) failures++;
+  console.log(`  ${ok ? "ok  " : "FAIL"} ${label}${ok ? "" : ` — expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`}`);
+}
+
+function time(value: string): number {
+  return parseGtfsTime(`${value}:00`)!;
+}
+
+/** Zip the fixture tables (deflated, under a top-level folder, as some feeds ship). */
+function zipFixture(file: string): void {
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+  for (const base of fs.readdirSync(FIXTURE_DIR).filter((f) => f.endsWith(".txt"))) {
+    const data = fs.readFileSync(path.join(FIXTURE_DIR, base));
+    const packed = zlib.deflateRawSync(data);
+    const name = Buffer.from(`feed/${base}`);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(zlib.crc32(data), 14);
+    local.writeUInt32LE(packed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(zlib.crc32(data), 16);
+    entry.writeUInt32LE(packed.length, 20);
+    entry.writeUInt32LE(data.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, packed);
+    central.push(entry, name);
+    offset += local.length + name.length + packed.length;
+  }
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(central.length / 2, 8);
+  end.writeUInt16LE(central.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  fs.writeFileSync(file, Buffer.concat([...locals, directory, end]));
+}
+
+function stopIndex(feed: GtfsFeed, id: string): number {
+  const i = feed.stops.findIndex((s) => s.id === id);
+  if (i === -1) fail(`stop ${id} missing from the loaded feed`);
+  return i;
+}
+
+/** Latest departure from `from` reaching `to` by `arriveBy`, as "HH:MM–HH:MM", or null. */
+function journey(feed: GtfsFeed, from: string, to: string, arriveBy: string): string | null {
+  const { depart, arrive } = latestDepartures(feed, stopIndex(feed, to), time(arriveBy));
+  const i = stopIndex(feed, from);
+  if (depart[i] === -Infinity) return null;
+  const hhmm = (sec: number) =>
+    `${String(Math.floor(sec / 3600)).padStart(2, "0")}:${String(Math.floor(sec / 60) % 60).padStart(2, "0")}`;
+  return `${hhmm(depart[i])}–${hhmm(arrive[i])}`;
+}
+
+async function main(): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "gtfs-fixture-"));
+  const file = path.join(dir, "feed.zip");
+  try {
+    zipFixture(file);
+    const window = { from: time("07:00"), to: time("09:00") };
+
+    const feed = await loadGtfsFeed(file, { date: TUESDAY, ...window });
+    console.log("Tuesday, rail only:");
+    check("platforms collapse into their station", feed.stops.map((s) => s.id).sort(), ["A", "B", "C", "D"]);
+    check("weekday trips only", feed.trips, 5);
+    check("A → B takes the later, direct train", journey(feed, "A", "B", "09:00"), "08:05–08:14");
+    check("A → C changes at B from t1 to t2", journey(feed, "A", "C", "09:00"), "08:00–08:30");
+    check("A → C with no time to change", journey(feed, "A", "C", "08:29"), null);
+    check("C → D unreachable by 09:00", journey(feed, "C", "D", "09:00"), null);
+    check("D → A unreachable (no departures)", journey(feed, "D", "A", "09:00"), null);
+
+    check("stations walk to a stop within range", matchStations(feed, STATIONS).map((i) => feed.stops[i]?.id ?? null), [
+      "A",
+      "B",
+      "C",
+      "D",
+      null,
+    ]);
+    check("station matrix, minutes[from][to]", stationMatrix(feed, STATIONS, time("09:00")), [
+      [0, 9, 30, null, null],
+      [null, 0, 15, null, null],
+      [null, null, 0, null, null],
+      [null, null, null, 0, null],
+      [null, null, null, null, null],
+    ]);
+
+    const withBuses = await loadGtfsFeed(file, { date: TUESDAY, ...window, includeBuses: true });
+    console.log("Tuesday, with buses:");
+    check("A → C takes the bus", journey(withBuses, "A", "C", "09:00"), "08:20–08:40");
+
+    const saturday = await loadGtfsFeed(file, { date: SATURDAY, ...window });
+    console.log("Saturday:");
+    check("B → C on the Saturday service", journey(saturday, "B", "C", "09:00"), "08:45–08:55");
+    check("no Saturday trains call at A", saturday.stops.some((s) => s.id === "A"), false);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+  if (failures > 0) fail(`${failures} check${failures === 1 ? "" : "s"} failed`);
+  console.log("All checks passed");
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
@@ -0,0 +1,123 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { API_CONFIG } from "@/config/apis";
+import { MATRIX_HUBS, type MatrixHub } from "@/lib/hubs";
+import type { HubMatrix } from "@/lib/hub-matrix";
+import { fetchOrsMatrix, ORS_MATRIX_MAX_LOCATIONS } from "@/lib/ors-matrix";
+import { getAllSuburbs } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// npm run hub-matrix — precompute driving times from every suburb to each
+// employment hub with the ORS Matrix API, into src/data/hub_matrix.json
+//
+//   OPENROUTE_API_KEY=... npm run hub-matrix
+//   npm run hub-matrix -- --hubs hubs.json     use a different hub list
+//   npm run hub-matrix -- --delay 2000         ms between requests
+//
+// A hubs file is a JSON array of { id, label, suburb_key, lat, lng }.
+// Requests stay within ORS's 50-location limit: each batch pairs up to 25
+// hubs with as many suburbs as fit alongside them. Set OPENROUTE_BASE_URL
+// to run against a self-hosted or stub ORS.
+// ---------------------------------------------------------------------------
+
+/** Hubs per request, leaving at least half of each batch for suburbs. */
+const MAX_HUBS_PER_REQUEST = 25;
+const MAX_ATTEMPTS = 3;
+
+const { values: args } = parseArgs({
+  options: {
+    hubs: { type: "string" },
+    out: { type: "string", default: path.join("src", "data", "hub_matrix.json") },
+    // ORS free tier allows 40 matrix requests a minute
+    delay: { type: "string", default: "1600" },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`hub-matrix: ${message}`);
+  process.exit(1);
+}
+
+function readHubs(file: string): MatrixHub[] {
+  const hubs = JSON.parse(fs.readFileSync(file, "utf8")) as MatrixHub[];
+  if (!Array.isArray(hubs) || hubs.length === 0) fail(`${file} must be a non-empty array of hubs`);
+  for (const h of hubs) {
+    if (!h.id || !h.label || !h.suburb_key || typeof h.lat !== "number" || typeof h.lng !== "number") {
+      fail(`${file}: every hub needs id, label, suburb_key, lat and lng`);
+    }
+  }
+  if (new Set(hubs.map((h) => h.id)).size !== hubs.length) fail(`${file}: hub ids must be unique`);
+  return hubs;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** fetchOrsMatrix with retries — rate limits and timeouts are common on long runs. */
+async function fetchWithRetry(
+  suburbs: { lat: number; lng: number }[],
+  hubs: MatrixHub[],
+  delayMs: number,
+): ReturnType<typeof fetchOrsMatrix> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fetchOrsMatrix(suburbs, hubs);
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      const wait = delayMs * 2 ** attempt;
+      console.warn(`  attempt ${attempt} failed (${error instanceof Error ? error.message : error}); retrying in ${wait} ms`);
+      await sleep(wait);
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  if (!API_CONFIG.openRouteService.apiKey) fail("OPENROUTE_API_KEY is not set");
+  const delayMs = Number(args.delay);
+  if (!(delayMs >= 0)) fail("--delay must be a non-negative number of ms");
+
+  const hubs = args.hubs ? readHubs(args.hubs) : MATRIX_HUBS;
+  const suburbs = getAllSuburbs().filter(
+    (s): s is typeof s & { lat: number; lng: number } => s.lat != null && s.lng != null,
+  );
+
+  const hubChunks = chunk(hubs, MAX_HUBS_PER_REQUEST);
+  const batches = hubChunks.flatMap((hubChunk) =>
+    chunk(suburbs, ORS_MATRIX_MAX_LOCATIONS - hubChunk.length).map((suburbBatch) => ({ hubChunk, suburbBatch })),
+  );
+  console.log(`${suburbs.length} suburbs × ${hubs.length} hubs in ${batches.length} requests`);
+
+  const routes: HubMatrix["routes"] = {};
+  for (const [i, { hubChunk, suburbBatch }] of batches.entries()) {
+    if (i > 0) await sleep(delayMs);
+    const result = await fetchWithRetry(suburbBatch, hubChunk, delayMs);
+    suburbBatch.forEach((suburb, row) => {
+      const entry = (routes[suburb.suburb_key] ??= {});
+      hubChunk.forEach((hub, col) => {
+        const minutes = result.durations_min[row]?.[col] ?? null;
+        const km = result.distances_km[row]?.[col] ?? null;
+        entry[hub.id] = minutes != null && km != null ? [minutes, km] : null;
+      });
+    });
+    console.log(`  ${i + 1}/${batches.length}`);
+  }
+
+  const matrix: HubMatrix = {
+    generated_at: new Date().toISOString(),
+    profile: "driving-car",
+    hubs,
+    routes,
+  };
+  // Compact: ~900 suburbs × every hub
+  fs.writeFileSync(args.out!, JSON.stringify(matrix) + "\n");
+  const unroutable = Object.values(routes).reduce((n, r) => n + Object.values(r).filter((v) => v === null).length, 0);
+  console.log(`Wrote ${args.out} (${unroutable} unroutable pairs)`);
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
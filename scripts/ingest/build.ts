@@ -0,0 +1,261 @@
+import type { DwellingKind, DwellingRents, Suburb } from "@/lib/suburbs";
+import { haversineKm } from "@/lib/commute";
+import { EMPLOYMENT_HUBS, hubDistanceField, HUB_IDS, type HubDistances } from "@/lib/hubs";
+import { bedroomSeriesKey, type Granularity, type PostcodeSeries, type SeriesKey } from "@/lib/rent-series";
+import type { BondLodgement, DwellingType, Locality } from "./sources";
+
+// ---------------------------------------------------------------------------
+// Aggregate raw lodgements into the per-suburb records of sydney_suburbs.json
+//
+// Bond data is only published by postcode, so every suburb in a postcode
+// shares its rent figures; names, centroids and hub distances are per suburb.
+// ---------------------------------------------------------------------------
+
+/** Postcode ranges that make up Greater Sydney. */
+export const GREATER_SYDNEY_POSTCODES: [from: number, to: number][] = [
+  [2000, 2234],
+  [2555, 2574],
+  [2745, 2770],
+];
+
+const BEDROOM_GROUPS = [1, 2, 3, 4, 5] as const; // 5 = "5+"
+
+type BedroomMedians = Record<(typeof BEDROOM_GROUPS)[number], number | null>;
+
+/** Bond dwelling type behind each searchable dwelling kind. */
+const DWELLING_KIND_TYPES: Record<DwellingKind, DwellingType> = {
+  house: "House",
+  flat: "Flat",
+  townhouse: "Townhouse",
+};
+
+interface PostcodeStats {
+  median_rent_overall: number;
+  avg_rent: number;
+  total_bonds: number;
+  bedroom_medians: BedroomMedians;
+  dwelling_types: Record<string, number>;
+  dwelling_rents: Partial<Record<DwellingKind, DwellingRents>>;
+  rent_trend: Record<string, number>;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function isGreaterSydney(postcode: string): boolean {
+  const n = Number(postcode);
+  return GREATER_SYDNEY_POSTCODES.some(([from, to]) => n >= from && n <= to);
+}
+
+/** Median rounded to whole dollars, or null for an empty list. */
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return Math.round(value);
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** "Mount Druitt Village", "2770" → "Mount_Druitt_Village_2770" */
+function suburbKey(name: string, postcode: string): string {
+  return `${name.replace(/\s+/g, "_")}_${postcode}`;
+}
+
+function rentStress(rent: number | null, income: number | null): number | null {
+  return rent != null && income != null ? round1((rent / income) * 100) : null;
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+/** Lodgements grouped by postcode, Greater Sydney only. */
+function groupByPostcode(lodgements: BondLodgement[]): Map<string, BondLodgement[]> {
+  const byPostcode = new Map<string, BondLodgement[]>();
+  for (const l of lodgements) {
+    if (!isGreaterSydney(l.postcode)) continue;
+    if (!byPostcode.has(l.postcode)) byPostcode.set(l.postcode, []);
+    byPostcode.get(l.postcode)!.push(l);
+  }
+  return byPostcode;
+}
+
+/** Bedsitters (0) and unrecorded counts feed the overall figures only. */
+function bedroomMedians(lodgements: BondLodgement[]): BedroomMedians {
+  const medians = {} as BedroomMedians;
+  for (const beds of BEDROOM_GROUPS) {
+    const group = lodgements.filter((l) => l.bedrooms != null && (beds === 5 ? l.bedrooms >= 5 : l.bedrooms === beds));
+    medians[beds] = median(group.map((l) => l.weeklyRent));
+  }
+  return medians;
+}
+
+function postcodeStats(lodgements: BondLodgement[]): PostcodeStats {
+  const rents = lodgements.map((l) => l.weeklyRent);
+
+  const dwellingCounts = new Map<DwellingType, number>();
+  for (const l of lodgements) dwellingCounts.set(l.dwelling, (dwellingCounts.get(l.dwelling) ?? 0) + 1);
+  const dwellingTypes: Record<string, number> = {};
+  for (const [type, count] of [...dwellingCounts].sort((a, b) => b[1] - a[1])) {
+    dwellingTypes[type] = round1((count / lodgements.length) * 100);
+  }
+
+  const byYear = new Map<number, number[]>();
+  for (const l of lodgements) {
+    if (!byYear.has(l.year)) byYear.set(l.year, []);
+    byYear.get(l.year)!.push(l.weeklyRent);
+  }
+  const rentTrend: Record<string, number> = {};
+  for (const year of [...byYear.keys()].sort()) rentTrend[String(year)] = median(byYear.get(year)!)!;
+
+  const dwellingRents: PostcodeStats["dwelling_rents"] = {};
+  for (const [kind, type] of Object.entries(DWELLING_KIND_TYPES) as [DwellingKind, DwellingType][]) {
+    const group = lodgements.filter((l) => l.dwelling === type);
+    if (group.length === 0) continue;
+    const m = bedroomMedians(group);
+    dwellingRents[kind] = {
+      median_rent_overall: median(group.map((l) => l.weeklyRent))!,
+      total_bonds: group.length,
+      median_rent_1bed: m[1],
+      median_rent_2bed: m[2],
+      median_rent_3bed: m[3],
+      median_rent_4bed: m[4],
+      "median_rent_5+bed": m[5],
+    };
+  }
+
+  return {
+    median_rent_overall: median(rents)!,
+    avg_rent: Math.round(rents.reduce((sum, r) => sum + r, 0) / rents.length),
+    total_bonds: lodgements.length,
+    bedroom_medians: bedroomMedians(lodgements),
+    dwelling_types: dwellingTypes,
+    dwelling_rents: dwellingRents,
+    rent_trend: rentTrend,
+  };
+}
+
+function hubDistances(lat: number | null, lng: number | null): HubDistances {
+  const distances = {} as HubDistances;
+  for (const hub of HUB_IDS) {
+    const point = EMPLOYMENT_HUBS[hub];
+    distances[hubDistanceField(hub)] =
+      lat != null && lng != null ? round1(haversineKm(lat, lng, point.lat, point.lng)) : null;
+  }
+  return distances;
+}
+
+export interface BuildInput {
+  lodgements: BondLodgement[];
+  income: Map<string, number>;
+  localities: Map<string, Locality[]>;
+}
+
+/**
+ * One record per Greater Sydney suburb with bond data, keyed by suburb_key
+ * and ordered by postcode then name. Postcodes with no matching locality
+ * (PO boxes, large-volume receivers) are keyed by postcode alone.
+ */
+export function buildSuburbs({ lodgements, income, localities }: BuildInput): Record<string, Suburb> {
+  const byPostcode = groupByPostcode(lodgements);
+
+  const out: Record<string, Suburb> = {};
+  for (const postcode of [...byPostcode.keys()].sort()) {
+    const stats = postcodeStats(byPostcode.get(postcode)!);
+    const householdIncome = income.get(postcode) ?? null;
+    const m = stats.bedroom_medians;
+
+    const places: (Locality | null)[] = [...(localities.get(postcode) ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+    if (places.length === 0) places.push(null);
+
+    for (const place of places) {
+      const key = place ? suburbKey(place.name, postcode) : postcode;
+      out[key] = {
+        postcode,
+        median_rent_overall: stats.median_rent_overall,
+        avg_rent: stats.avg_rent,
+        total_bonds: stats.total_bonds,
+        median_rent_1bed: m[1],
+        median_rent_2bed: m[2],
+        median_rent_3bed: m[3],
+        median_rent_4bed: m[4],
+        "median_rent_5+bed": m[5],
+        dwelling_types: stats.dwelling_types,
+        rent_trend: stats.rent_trend,
+        median_household_income_weekly: householdIncome,
+        rent_stress_pct_1bed: rentStress(m[1], householdIncome),
+        rent_stress_pct_2bed: rentStress(m[2], householdIncome),
+        rent_stress_pct_3bed: rentStress(m[3], householdIncome),
+        rent_stress_pct_4bed: rentStress(m[4], householdIncome),
+        "rent_stress_pct_5+bed": rentStress(m[5], householdIncome),
+        dwelling_rents: stats.dwelling_rents,
+        suburb_key: key,
+        suburb_name: place?.name ?? null,
+        lat: place?.lat ?? null,
+        lng: place?.lng ?? null,
+        ...hubDistances(place?.lat ?? null, place?.lng ?? null),
+      };
+    }
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Time series (rent_timeseries.json)
+// ---------------------------------------------------------------------------
+
+function periodLabel(l: BondLodgement, granularity: Granularity): string {
+  if (granularity === "year") return String(l.year);
+  if (granularity === "quarter") return `${l.year}-Q${Math.ceil(l.month / 3)}`;
+  return `${l.year}-${String(l.month).padStart(2, "0")}`;
+}
+
+/** Series a lodgement counts towards: everything, its bedroom group, its dwelling type. */
+function seriesFor(l: BondLodgement): SeriesKey[] {
+  const keys: SeriesKey[] = ["all", l.dwelling];
+  if (l.bedrooms != null && l.bedrooms >= 1) keys.push(bedroomSeriesKey(l.bedrooms));
+  return keys;
+}
+
+/**
+ * Yearly, quarterly and monthly medians with bond counts per postcode, for
+ * all lodgements, each bedroom group and each dwelling type.
+ */
+export function buildRentSeries(lodgements: BondLodgement[]): Record<string, PostcodeSeries> {
+  const out: Record<string, PostcodeSeries> = {};
+  const byPostcode = groupByPostcode(lodgements);
+
+  for (const postcode of [...byPostcode.keys()].sort()) {
+    const entry: PostcodeSeries = {};
+    for (const granularity of ["year", "quarter", "month"] as const) {
+      const rents = new Map<SeriesKey, Map<string, number[]>>();
+      for (const l of byPostcode.get(postcode)!) {
+        const period = periodLabel(l, granularity);
+        for (const key of seriesFor(l)) {
+          if (!rents.has(key)) rents.set(key, new Map());
+          const periods = rents.get(key)!;
+          if (!periods.has(period)) periods.set(period, []);
+          periods.get(period)!.push(l.weeklyRent);
+        }
+      }
+
+      const bySeries: NonNullable<PostcodeSeries[Granularity]> = {};
+      for (const [key, periods] of [...rents].sort(([a], [b]) => a.localeCompare(b))) {
+        const stats: Record<string, [number, number]> = {};
+        for (const period of [...periods.keys()].sort()) {
+          const values = periods.get(period)!;
+          stats[period] = [median(values)!, values.length];
+        }
+        bySeries[key] = stats;
+      }
+      entry[granularity] = bySeries;
+    }
+    out[postcode] = entry;
+  }
+  return out;
+}
@@ -0,0 +1,126 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { parseArgs } from "util";
+import { buildRentSeries, buildSuburbs } from "./build";
+import { readBondLodgements, readHouseholdIncome, readLocalities } from "./sources";
+import { validateDataset } from "@/lib/suburb-schema";
+import { validateRentSeries } from "./validate";
+
+// ---------------------------------------------------------------------------
+// npm run ingest — regenerate src/data/sydney_suburbs.json and
+// rent_timeseries.json from raw sources
+//
+//   npm run ingest                          build a new release from ../data
+//   npm run ingest -- --promote             ...and make it the app's dataset
+//   npm run ingest -- --check <file.json>   validate an existing dataset
+//
+// Raw layout (override any path with the matching flag):
+//   <raw>/bonds/*.csv                       NSW Fair Trading bond lodgements
+//   <raw>/abs/2021Census_G02_NSW_POA.csv    ABS Census G02, postal areas
+//   <raw>/localities.csv                    suburb, postcode, lat, lng
+//
+// Each run writes both datasets to <out>/<version>/ plus a manifest of the
+// inputs (with checksums), so any release can be traced and rebuilt.
+// ---------------------------------------------------------------------------
+
+const APP_DATA_DIR = path.join("src", "data");
+const DATASET_FILES = ["sydney_suburbs.json", "rent_timeseries.json"];
+
+const { values: args } = parseArgs({
+  options: {
+    raw: { type: "string", default: path.join("..", "data") },
+    bonds: { type: "string" },
+    income: { type: "string" },
+    localities: { type: "string" },
+    out: { type: "string", default: path.join("data", "releases") },
+    promote: { type: "boolean", default: false },
+    check: { type: "string" },
+  },
+});
+
+function fail(message: string, details: string[] = []): never {
+  console.error(`ingest: ${message}`);
+  for (const line of details.slice(0, 50)) console.error(`  - ${line}`);
+  if (details.length > 50) console.error(`  …and ${details.length - 50} more`);
+  process.exit(1);
+}
+
+function check(file: string): void {
+  const data = JSON.parse(fs.readFileSync(file, "utf8")) as Record<string, unknown>;
+  const errors = validateDataset(data);
+  if (errors.length > 0) fail(`${file} failed validation (${errors.length} problems)`, errors);
+  console.log(`${file}: ${Object.keys(data).length} suburbs, valid`);
+}
+
+function ingest(): void {
+  const raw = args.raw!;
+  const bonds = readBondLodgements(args.bonds ?? path.join(raw, "bonds"));
+  const income = readHouseholdIncome(args.income ?? path.join(raw, "abs", "2021Census_G02_NSW_POA.csv"));
+  const localities = readLocalities(args.localities ?? path.join(raw, "localities.csv"));
+
+  const suburbs = buildSuburbs({
+    lodgements: bonds.records,
+    income: income.records,
+    localities: localities.records,
+  });
+  const series = buildRentSeries(bonds.records);
+  const errors = [...validateDataset(suburbs), ...validateRentSeries(series)];
+  if (errors.length > 0) fail(`generated data failed validation (${errors.length} problems)`, errors);
+
+  const json = JSON.stringify(suburbs, null, 2) + "\n";
+  // Compact: the series is an order of magnitude larger than the suburb records
+  const seriesJson = JSON.stringify(series) + "\n";
+  const contentHash = crypto.createHash("sha1").update(json).update(seriesJson).digest("hex").slice(0, 8);
+  const version = `${new Date().toISOString().slice(0, 10).replace(/-/g, "")}-${contentHash}`;
+  const releaseDir = path.join(args.out!, version);
+
+  const records = Object.values(suburbs);
+  let firstYear = Infinity;
+  let lastYear = -Infinity;
+  for (const b of bonds.records) {
+    firstYear = Math.min(firstYear, b.year);
+    lastYear = Math.max(lastYear, b.year);
+  }
+  const manifest = {
+    version,
+    generated_at: new Date().toISOString(),
+    sources: {
+      bonds: bonds.files,
+      income: income.files,
+      localities: localities.files,
+    },
+    counts: {
+      lodgements: bonds.records.length,
+      postcodes: new Set(records.map((s) => s.postcode)).size,
+      suburbs: records.length,
+      without_locality: records.filter((s) => s.suburb_name === null).length,
+      without_income: records.filter((s) => s.median_household_income_weekly === null).length,
+    },
+    lodgement_years: bonds.records.length > 0 ? [firstYear, lastYear] : null,
+  };
+
+  fs.mkdirSync(releaseDir, { recursive: true });
+  fs.writeFileSync(path.join(releaseDir, "sydney_suburbs.json"), json);
+  fs.writeFileSync(path.join(releaseDir, "rent_timeseries.json"), seriesJson);
+  fs.writeFileSync(path.join(releaseDir, "manifest.json"), JSON.stringify(manifest, null, 2) + "\n");
+
+  const skipped = [...bonds.files, ...income.files, ...localities.files].reduce((sum, f) => sum + f.skipped, 0);
+  console.log(`Release ${version}: ${records.length} suburbs across ${manifest.counts.postcodes} postcodes`);
+  console.log(`  ${bonds.records.length} lodgements from ${bonds.files.length} files, ${skipped} rows skipped`);
+  console.log(`  written to ${releaseDir}`);
+
+  if (args.promote) {
+    for (const file of DATASET_FILES) {
+      fs.copyFileSync(path.join(releaseDir, file), path.join(APP_DATA_DIR, file));
+    }
+    console.log(`  promoted to ${APP_DATA_DIR} — POST /api/alerts/refresh after deploying`);
+  }
+}
+
+try {
+  if (args.check) check(args.check);
+  else ingest();
+} catch (error) {
+  fail(error instanceof Error ? error.message : String(error));
+}
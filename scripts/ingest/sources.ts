@@ -0,0 +1,267 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+// ---------------------------------------------------------------------------
+// Raw source readers — NSW Fair Trading bond lodgements, ABS Census income,
+// locality centroids. Each reader tolerates title rows above the header and
+// reports rows it had to skip rather than failing the run.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type DwellingType = "Flat" | "House" | "Townhouse" | "Other" | "Unknown";
+
+export interface BondLodgement {
+  year: number;
+  month: number; // 1–12
+  postcode: string;
+  dwelling: DwellingType;
+  bedrooms: number | null; // 0 = bedsitter, null = not recorded
+  weeklyRent: number;
+}
+
+export interface Locality {
+  name: string;
+  postcode: string;
+  lat: number;
+  lng: number;
+}
+
+/** Provenance for the manifest: what was read, and what was skipped. */
+export interface SourceFile {
+  file: string;
+  sha1: string;
+  rows: number;
+  skipped: number;
+}
+
+export interface SourceResult<T> {
+  records: T;
+  files: SourceFile[];
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** Parse RFC 4180 CSV (quoted fields, doubled quotes, CRLF). */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+/** "Weekly Rent" → "weekly_rent" */
+function normaliseHeader(cell: string): string {
+  return cell.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+/**
+ * Rows of a CSV as header → value objects. The header is the first row that
+ * contains every required column, so title rows above it are ignored.
+ */
+function readTable(file: string, required: string[]): { rows: Record<string, string>[]; sha1: string } {
+  const text = fs.readFileSync(file, "utf8").replace(/^\uFEFF/, "");
+  const sha1 = crypto.createHash("sha1").update(text).digest("hex");
+  const cells = parseCsv(text);
+
+  const headerIdx = cells.findIndex((r) => {
+    const names = r.map(normaliseHeader);
+    return required.every((col) => names.includes(col));
+  });
+  if (headerIdx === -1) {
+    throw new Error(`${file}: no header row with columns ${required.join(", ")}`);
+  }
+
+  const header = cells[headerIdx].map(normaliseHeader);
+  const rows = cells.slice(headerIdx + 1).map((r) => {
+    const obj: Record<string, string> = {};
+    header.forEach((name, i) => { obj[name] = (r[i] ?? "").trim(); });
+    return obj;
+  });
+  return { rows, sha1 };
+}
+
+function csvFilesIn(dir: string): string[] {
+  if (!fs.existsSync(dir)) throw new Error(`Bond directory not found: ${dir}`);
+  const files = fs.readdirSync(dir)
+    .filter((f) => f.toLowerCase().endsWith(".csv"))
+    .sort()
+    .map((f) => path.join(dir, f));
+  if (files.length === 0) throw new Error(`No .csv files in ${dir}`);
+  return files;
+}
+
+// ---------------------------------------------------------------------------
+// Bond lodgements
+// ---------------------------------------------------------------------------
+
+const DWELLING_CODES: Record<string, DwellingType> = {
+  f: "Flat",
+  flat: "Flat",
+  unit: "Flat",
+  h: "House",
+  house: "House",
+  t: "Townhouse",
+  townhouse: "Townhouse",
+  terrace: "Townhouse",
+  o: "Other",
+  other: "Other",
+  u: "Unknown",
+  unknown: "Unknown",
+};
+
+/** Lodgement year + month from "dd/mm/yyyy", "yyyy-mm-dd" or an Excel serial day. */
+function lodgementMonth(raw: string): { year: number; month: number } | null {
+  let m = raw.match(/^\d{1,2}\/(\d{1,2})\/(\d{4})/);
+  if (m) return { year: Number(m[2]), month: Number(m[1]) };
+  m = raw.match(/^(\d{4})-(\d{2})-\d{2}/);
+  if (m) return { year: Number(m[1]), month: Number(m[2]) };
+  const serial = Number(raw);
+  if (Number.isInteger(serial) && serial > 20000 && serial < 80000) {
+    // Excel epoch is 1899-12-30
+    const date = new Date(Date.UTC(1899, 11, 30) + serial * 86_400_000);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1 };
+  }
+  return null;
+}
+
+function parseBedrooms(raw: string): number | null | undefined {
+  const value = raw.toLowerCase();
+  if (value === "" || value === "u" || value === "unknown") return null;
+  if (value === "bedsitter" || value === "b") return 0;
+  const n = Number(value.replace("+", ""));
+  return Number.isInteger(n) && n >= 0 ? n : undefined;
+}
+
+/**
+ * Every lodgement in a directory of NSW Fair Trading "Rental bond lodgement
+ * data" CSV exports (one file per month or quarter, columns Lodgement Date,
+ * Postcode, Dwelling Type, Bedrooms, Weekly Rent).
+ */
+export function readBondLodgements(dir: string): SourceResult<BondLodgement[]> {
+  const records: BondLodgement[] = [];
+  const files: SourceFile[] = [];
+
+  for (const file of csvFilesIn(dir)) {
+    const { rows, sha1 } = readTable(file, ["lodgement_date", "postcode", "dwelling_type", "bedrooms", "weekly_rent"]);
+    let skipped = 0;
+    for (const row of rows) {
+      const lodged = lodgementMonth(row.lodgement_date);
+      const postcode = row.postcode.padStart(4, "0");
+      const dwelling = DWELLING_CODES[row.dwelling_type.toLowerCase()] ?? "Unknown";
+      const bedrooms = parseBedrooms(row.bedrooms);
+      const weeklyRent = Number(row.weekly_rent.replace(/[$,]/g, ""));
+      if (!lodged || lodged.month < 1 || lodged.month > 12 || !/^\d{4}$/.test(postcode) || bedrooms === undefined || !(weeklyRent > 0)) {
+        skipped++;
+        continue;
+      }
+      records.push({ ...lodged, postcode, dwelling, bedrooms, weeklyRent });
+    }
+    files.push({ file, sha1, rows: rows.length, skipped });
+  }
+  return { records, files };
+}
+
+// ---------------------------------------------------------------------------
+// ABS Census household income
+// ---------------------------------------------------------------------------
+
+/**
+ * Median weekly household income per postcode from the ABS Census DataPack
+ * table G02 at postal-area level (POA_CODE_2021 = "POA2042", ...).
+ */
+export function readHouseholdIncome(file: string): SourceResult<Map<string, number>> {
+  const { rows, sha1 } = readTable(file, ["poa_code_2021", "median_tot_hhd_inc_weekly"]);
+  const income = new Map<string, number>();
+  let skipped = 0;
+  for (const row of rows) {
+    const postcode = row.poa_code_2021.replace(/^POA/i, "");
+    const value = Number(row.median_tot_hhd_inc_weekly);
+    if (!/^\d{4}$/.test(postcode) || !(value > 0)) {
+      skipped++;
+      continue;
+    }
+    income.set(postcode, value);
+  }
+  return { records: income, files: [{ file, sha1, rows: rows.length, skipped }] };
+}
+
+// ---------------------------------------------------------------------------
+// Localities
+// ---------------------------------------------------------------------------
+
+/** "MCMAHONS POINT" → "Mcmahons Point" (names already in mixed case are kept). */
+function titleCase(name: string): string {
+  if (name !== name.toUpperCase()) return name;
+  return name.toLowerCase().replace(/(^|[^a-z])([a-z])/g, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+}
+
+/**
+ * NSW suburb/locality centroids, grouped by postcode. Accepts any CSV with
+ * locality (or suburb), postcode, lat and lng (or long) columns; rows from
+ * other states are dropped when a state column is present.
+ */
+export function readLocalities(file: string): SourceResult<Map<string, Locality[]>> {
+  const { rows, sha1 } = readTable(file, ["postcode", "lat"]);
+  const columns = Object.keys(rows[0] ?? {});
+  const nameCol = ["locality", "suburb"].find((c) => columns.includes(c));
+  const lngCol = ["lng", "long", "lon"].find((c) => columns.includes(c));
+  if (!nameCol || !lngCol) {
+    throw new Error(`${file}: expected locality/suburb and lng/long columns`);
+  }
+
+  const byPostcode = new Map<string, Locality[]>();
+  let skipped = 0;
+  for (const row of rows) {
+    if (row.state && row.state.toUpperCase() !== "NSW") continue;
+    const postcode = row.postcode.padStart(4, "0");
+    const lat = Number(row.lat);
+    const lng = Number(row[lngCol]);
+    if (!row[nameCol] || !/^\d{4}$/.test(postcode) || !lat || !lng) {
+      skipped++;
+      continue;
+    }
+    const locality = { name: titleCase(row[nameCol]), postcode, lat, lng };
+    const list = byPostcode.get(postcode) ?? [];
+    if (!list.some((l) => l.name === locality.name)) list.push(locality);
+    byPostcode.set(postcode, list);
+  }
+  return { records: byPostcode, files: [{ file, sha1, rows: rows.length, skipped }] };
+}
@@ -0,0 +1,38 @@
+import { GRANULARITIES } from "@/lib/rent-series";
+
+// ---------------------------------------------------------------------------
+// Output validation for rent_timeseries.json. Suburb records are checked
+// against the app's own schema (src/lib/suburb-schema.ts).
+// ---------------------------------------------------------------------------
+
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+const PERIOD_PATTERNS: Record<string, RegExp> = {
+  year: /^\d{4}$/,
+  quarter: /^\d{4}-Q[1-4]$/,
+  month: /^\d{4}-(0[1-9]|1[0-2])$/,
+};
+
+/** Problems in rent_timeseries.json: postcode → granularity → series → period → [median, bonds]. */
+export function validateRentSeries(data: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  for (const [postcode, entry] of Object.entries(data)) {
+    if (!/^\d{4}$/.test(postcode)) errors.push(`${postcode}: key is not a postcode`);
+    for (const [granularity, bySeries] of Object.entries(entry as Record<string, unknown>)) {
+      if (!(GRANULARITIES as string[]).includes(granularity)) {
+        errors.push(`${postcode}.${granularity}: unknown granularity`);
+        continue;
+      }
+      for (const [series, periods] of Object.entries(bySeries as Record<string, unknown>)) {
+        for (const [period, stat] of Object.entries(periods as Record<string, unknown>)) {
+          const where = `${postcode}.${granularity}.${series}.${period}`;
+          if (!PERIOD_PATTERNS[granularity].test(period)) errors.push(`${where}: bad period label`);
+          const ok = Array.isArray(stat) && stat.length === 2 && isNumber(stat[0]) && stat[0] > 0
+            && Number.isInteger(stat[1]) && stat[1] > 0;
+          if (!ok) errors.push(`${where}: must be [median > 0, bonds > 0]`);
+        }
+      }
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,65 @@
+import { parseArgs } from "util";
+import { getPoiFetchTimes, isStale, refreshSuburbPois } from "@/lib/poi";
+import { sleep } from "@/lib/overpass";
+import { getAllSuburbs } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// npm run poi-cache — fetch Overpass POIs for every suburb into the local
+// POI cache, so /api/recommend's POI filters and walkability scores cover
+// all of them
+//
+//   npm run poi-cache                      suburbs not cached, or stale
+//   npm run poi-cache -- --refresh         every suburb
+//   npm run poi-cache -- --limit 50        stop after 50 fetches
+//   npm run poi-cache -- --delay 5000      ms between requests
+//
+// Failed suburbs are logged and skipped; re-running picks them up. Set
+// OVERPASS_URL to use a different Overpass instance.
+// ---------------------------------------------------------------------------
+
+const { values: args } = parseArgs({
+  options: {
+    refresh: { type: "boolean", default: false },
+    limit: { type: "string" },
+    // The public Overpass instances ask for no more than a request or two a second
+    delay: { type: "string", default: "2000" },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`poi-cache: ${message}`);
+  process.exit(1);
+}
+
+async function main(): Promise<void> {
+  const delayMs = Number(args.delay);
+  if (!(delayMs >= 0)) fail("--delay must be a non-negative number of ms");
+  const limit = args.limit != null ? Number(args.limit) : Infinity;
+  if (!(limit > 0)) fail("--limit must be a positive number");
+
+  const fetchedAt = getPoiFetchTimes();
+  const due = getAllSuburbs()
+    .filter((s): s is typeof s & { lat: number; lng: number } => s.lat != null && s.lng != null)
+    .filter((s) => {
+      const at = fetchedAt.get(s.suburb_key);
+      return args.refresh || !at || isStale(at);
+    })
+    .slice(0, limit);
+  console.log(`${due.length} suburbs to fetch (${fetchedAt.size} already cached)`);
+
+  let failed = 0;
+  for (const [i, suburb] of due.entries()) {
+    if (i > 0) await sleep(delayMs);
+    try {
+      const { summary } = await refreshSuburbPois(suburb);
+      const { daily_needs, green_space, fitness } = summary.scores;
+      console.log(`  ${i + 1}/${due.length} ${suburb.suburb_key}: daily needs ${daily_needs}, green space ${green_space}, fitness ${fitness}`);
+    } catch (error) {
+      failed++;
+      console.warn(`  ${i + 1}/${due.length} ${suburb.suburb_key} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+  console.log(`Cached ${due.length - failed} suburbs${failed > 0 ? `, ${failed} failed` : ""}`);
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
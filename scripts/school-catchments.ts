@@ -0,0 +1,111 @@
+import fs from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { geometryBbox } from "@/lib/geo";
+import type { CatchmentData, CatchmentLevel } from "@/lib/schools";
+import { getAllSuburbs } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// npm run school-catchments — build src/data/school_catchments.json from the
+// NSW Department of Education's school intake zones GeoJSON
+//
+//   npm run school-catchments
+//   npm run school-catchments -- --in zones.geojson
+//   npm run school-catchments -- --name-field SCHOOL --type-field LEVEL
+//
+// The statewide file is clipped to zones that reach the suburbs' bounding
+// box, and coordinates are rounded to 5 dp (about a metre). Zones must be in
+// WGS84 longitude/latitude. A zone's type field is read as primary,
+// secondary or central (K-12); zones of any other type (e.g. future
+// intake areas) are skipped.
+// ---------------------------------------------------------------------------
+
+const { values: args } = parseArgs({
+  options: {
+    in: { type: "string", default: path.join("..", "data", "school_intake_zones.geojson") },
+    out: { type: "string", default: path.join("src", "data", "school_catchments.json") },
+    "name-field": { type: "string", default: "USE_DESC" },
+    "type-field": { type: "string", default: "CATCH_TYPE" },
+  },
+});
+
+/** Degrees of slack around the suburbs' bounding box (roughly 10 km). */
+const CLIP_MARGIN_DEG = 0.1;
+
+type ZoneGeometry = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+
+function fail(message: string): never {
+  console.error(`school-catchments: ${message}`);
+  process.exit(1);
+}
+
+function levelOf(raw: unknown): CatchmentLevel | null {
+  const type = String(raw ?? "").toUpperCase();
+  // Checked first: central zones are labelled e.g. CENTRAL_PRIMARY
+  if (type.includes("CENTRAL")) return "central";
+  if (type.includes("PRIMARY")) return "primary";
+  if (type.includes("SECONDARY") || type.includes("HIGH")) return "secondary";
+  return null;
+}
+
+const round = (n: number) => Math.round(n * 1e5) / 1e5;
+
+function roundGeometry(geometry: ZoneGeometry): ZoneGeometry {
+  const ring = (positions: GeoJSON.Position[]) => positions.map(([lng, lat]) => [round(lng), round(lat)]);
+  return geometry.type === "Polygon"
+    ? { type: "Polygon", coordinates: geometry.coordinates.map(ring) }
+    : { type: "MultiPolygon", coordinates: geometry.coordinates.map((rings) => rings.map(ring)) };
+}
+
+function main(): void {
+  if (!fs.existsSync(args.in!)) fail(`${args.in} not found (pass --in <file>)`);
+  const input = JSON.parse(fs.readFileSync(args.in!, "utf8")) as GeoJSON.FeatureCollection;
+  if (input.type !== "FeatureCollection" || !Array.isArray(input.features)) {
+    fail(`${args.in} is not a GeoJSON FeatureCollection`);
+  }
+
+  const suburbs = getAllSuburbs().filter((s) => s.lat != null && s.lng != null);
+  const minLat = Math.min(...suburbs.map((s) => s.lat!)) - CLIP_MARGIN_DEG;
+  const maxLat = Math.max(...suburbs.map((s) => s.lat!)) + CLIP_MARGIN_DEG;
+  const minLng = Math.min(...suburbs.map((s) => s.lng!)) - CLIP_MARGIN_DEG;
+  const maxLng = Math.max(...suburbs.map((s) => s.lng!)) + CLIP_MARGIN_DEG;
+
+  const features: CatchmentData["features"] = [];
+  let skippedType = 0;
+  let outside = 0;
+  for (const f of input.features) {
+    const school = String(f.properties?.[args["name-field"]!] ?? "").trim();
+    const level = levelOf(f.properties?.[args["type-field"]!]);
+    const bbox = f.geometry ? geometryBbox(f.geometry) : null;
+    if (!school || !level || !bbox) {
+      skippedType++;
+      continue;
+    }
+    if (bbox[0] > maxLng || bbox[2] < minLng || bbox[1] > maxLat || bbox[3] < minLat) {
+      outside++;
+      continue;
+    }
+    features.push({
+      type: "Feature",
+      properties: { school, level },
+      geometry: roundGeometry(f.geometry as ZoneGeometry),
+    });
+  }
+  if (features.length === 0) fail(`no ${args["type-field"]} zones in ${args.in} reach the suburbs`);
+
+  const data: CatchmentData = {
+    generated_at: new Date().toISOString(),
+    source: path.basename(args.in!),
+    type: "FeatureCollection",
+    features,
+  };
+  // Compact: zone outlines are most of the file
+  fs.writeFileSync(args.out!, JSON.stringify(data) + "\n");
+  const counts = (level: CatchmentLevel) => features.filter((f) => f.properties.level === level).length;
+  console.log(
+    `Wrote ${args.out}: ${counts("primary")} primary, ${counts("secondary")} secondary, ${counts("central")} central zones ` +
+      `(${outside} outside Sydney, ${skippedType} without a name, level or polygon)`,
+  );
+}
+
+main();
@@ -0,0 +1,95 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import { parseArgs } from "util";
+import { getAllStations } from "@/lib/commute";
+import { loadGtfsFeed, parseGtfsTime } from "@/lib/gtfs";
+import type { TransitMatrix } from "@/lib/transit";
+import { stationMatrix } from "@/lib/transit-router";
+
+// ---------------------------------------------------------------------------
+// npm run transit-matrix — weekday-peak travel times between every pair of
+// stations in train_stations.json, from a static GTFS feed, into
+// src/data/transit_matrix.json
+//
+//   npm run transit-matrix -- --gtfs <feed.zip>
+//   npm run transit-matrix -- --gtfs <feed.zip> --date 20250304 --arrive-by 08:45
+//
+// Journeys arrive by --arrive-by (default 09:00) on --date (default: the
+// next Tuesday the feed runs), using connections from the --window minutes
+// before it (default 180). Rail, metro, light rail and ferry only unless
+// --buses is set.
+// ---------------------------------------------------------------------------
+
+const { values: args } = parseArgs({
+  options: {
+    gtfs: { type: "string", default: path.join("..", "data", "gtfs", "full_greater_sydney_gtfs_static.zip") },
+    date: { type: "string" },
+    "arrive-by": { type: "string", default: "09:00" },
+    window: { type: "string", default: "180" },
+    buses: { type: "boolean", default: false },
+    out: { type: "string", default: path.join("src", "data", "transit_matrix.json") },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`transit-matrix: ${message}`);
+  process.exit(1);
+}
+
+/** YYYYMMDD of the next Tuesday on or after today — a typical weekday. */
+function nextTuesday(): string {
+  const d = new Date();
+  d.setUTCDate(d.getUTCDate() + ((2 - d.getUTCDay() + 7) % 7));
+  return d.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/** Hex SHA-1 of a file, streamed — the feed is too large to read whole. */
+async function sha1(file: string): Promise<string> {
+  const hash = crypto.createHash("sha1");
+  for await (const chunk of fs.createReadStream(file)) hash.update(chunk);
+  return hash.digest("hex");
+}
+
+async function main(): Promise<void> {
+  const file = args.gtfs!;
+  if (!fs.existsSync(file)) fail(`GTFS feed not found: ${file}`);
+
+  const date = args.date ?? nextTuesday();
+  if (!/^\d{8}$/.test(date)) fail("--date must be YYYYMMDD");
+  const arriveBy = parseGtfsTime(`${args["arrive-by"]}:00`);
+  if (arriveBy === null) fail("--arrive-by must be HH:MM");
+  const windowMin = Number(args.window);
+  if (!(windowMin > 0)) fail("--window must be a positive number of minutes");
+
+  const started = Date.now();
+  const feed = await loadGtfsFeed(file, {
+    date,
+    from: arriveBy - windowMin * 60,
+    to: arriveBy,
+    includeBuses: args.buses,
+  });
+  console.log(`${feed.trips} trips, ${feed.connections.length} connections on ${date} (${Date.now() - started} ms)`);
+
+  const stations = getAllStations();
+  const minutes = stationMatrix(feed, stations, arriveBy);
+  const unmatched = stations.filter((_, i) => minutes[i].every((m) => m === null));
+  if (unmatched.length === stations.length) fail("no station in train_stations.json matched a stop in the feed");
+
+  const matrix: TransitMatrix = {
+    generated_at: new Date().toISOString(),
+    feed: {
+      file: path.basename(file),
+      sha1: await sha1(file),
+    },
+    service_date: date,
+    arrive_by: args["arrive-by"]!,
+    stations: stations.map((s) => s.name),
+    minutes,
+  };
+  fs.writeFileSync(args.out!, JSON.stringify(matrix) + "\n");
+  console.log(`Wrote ${args.out}: ${stations.length} stations, ${unmatched.length} with no journeys`);
+  for (const s of unmatched.slice(0, 20)) console.log(`  - ${s.name}`);
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)));
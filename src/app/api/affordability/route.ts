@@ -2,8 +2,13 @@ import { NextRequest, NextResponse } from "next/server";
 import {
   getSuburbByPostcode,
   calculateRentStress,
+  dwellingMedianRent,
+  DWELLING_KINDS,
+  isDwellingKind,
   medianRentKey,
+  type DwellingRentBasis,
 } from "@/lib/suburbs";
+import { isIncomeType, resolveIncome } from "@/lib/tax";
 
 export async function GET(request: NextRequest) {
   try {
@@ -28,6 +33,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const incomeType = params.get("income_type") ?? "takehome";
+    if (!isIncomeType(incomeType)) {
+      return NextResponse.json(
+        { error: 'income_type must be "gross" or "takehome"' },
+        { status: 400 },
+      );
+    }
+
     const bedrooms = bedroomsStr ? Number(bedroomsStr) : null;
     if (bedrooms !== null && (isNaN(bedrooms) || bedrooms < 1 || bedrooms > 5)) {
       return NextResponse.json(
@@ -36,6 +49,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const dwelling = params.get("dwelling") || null;
+    if (dwelling !== null && !isDwellingKind(dwelling)) {
+      return NextResponse.json(
+        { error: `dwelling must be one of: ${DWELLING_KINDS.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
     // --- Lookup ---
     const suburb = getSuburbByPostcode(postcode);
     if (!suburb) {
@@ -45,29 +66,53 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Pick the relevant median rent
-    const rentKey = bedrooms ? medianRentKey(bedrooms) : "median_rent_overall";
-    const medianRent = suburb[rentKey] as number | null;
+    // Pick the relevant median rent — the dwelling type's own when one is given
+    let medianRent: number | null;
+    let rentEstimated = false;
+    let rentBasis: DwellingRentBasis | null = null;
+    if (dwelling) {
+      const found = dwellingMedianRent(suburb, dwelling, bedrooms);
+      medianRent = found?.rent ?? null;
+      rentEstimated = found?.estimated ?? false;
+      if (found) rentBasis = found.estimated ? "all_dwellings" : "dwelling";
+    } else {
+      const rentKey = bedrooms ? medianRentKey(bedrooms) : "median_rent_overall";
+      medianRent = suburb[rentKey] as number | null;
+    }
 
     if (medianRent === null) {
       return NextResponse.json(
         {
-          error: `No rent data for ${bedrooms ?? "overall"}-bedroom in postcode ${postcode}`,
+          error: dwelling
+            ? `No ${dwelling} rent data for ${bedrooms ?? "overall"}-bedroom in postcode ${postcode}`
+            : `No rent data for ${bedrooms ?? "overall"}-bedroom in postcode ${postcode}`,
         },
         { status: 404 },
       );
     }
 
-    const stress = calculateRentStress(income, medianRent);
+    // Stress against take-home pay, with gross reported alongside
+    const basis = resolveIncome(income, incomeType, { hasHelpDebt: params.get("help") === "1" });
+    const stress = calculateRentStress(basis.net_weekly, medianRent);
+    const grossStress = calculateRentStress(basis.gross_weekly, medianRent);
 
     return NextResponse.json({
       postcode: suburb.postcode,
       suburb_name: suburb.suburb_name,
       bedrooms: bedrooms ?? "overall",
+      dwelling,
       weekly_income: income,
       median_rent: medianRent,
+      rent_estimated: rentEstimated,
+      dwelling_rent_basis: rentBasis, // "all_dwellings": no median for the type here, suburb-wide one used
+      income_type: basis.income_type,
+      gross_weekly_income: basis.gross_weekly,
+      net_weekly_income: basis.net_weekly,
       rent_stress_pct: stress.percentage,
       rating: stress.rating,
+      rent_stress_pct_gross: grossStress.percentage,
+      rating_gross: grossStress.rating,
+      tax: basis.tax,
       median_household_income_weekly: suburb.median_household_income_weekly,
     });
   } catch (error) {
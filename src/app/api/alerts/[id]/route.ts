@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveDevice, deviceJson } from "@/lib/device";
+import { deleteAlert, setAlertRead } from "@/lib/alerts";
+import { parseRowId } from "@/lib/user-data";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  NextResponse.json({ error: `Alert ${id} not found` }, { status: 404 });
+
+// ---------------------------------------------------------------------------
+// PATCH /api/alerts/[id] — body: { read: boolean }
+// ---------------------------------------------------------------------------
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseRowId(idStr);
+    if (!id) return notFound(idStr);
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.read !== "boolean") {
+      return NextResponse.json({ error: "read must be true or false" }, { status: 400 });
+    }
+
+    const device = resolveDevice(request);
+    const alert = setAlertRead(device.id, id, body.read);
+    if (!alert) return notFound(idStr);
+    return deviceJson(device, { alert });
+  } catch (error) {
+    console.error("PATCH /api/alerts/[id] error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/alerts/[id]
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseRowId(idStr);
+    if (!id) return notFound(idStr);
+
+    const device = resolveDevice(request);
+    if (!deleteAlert(device.id, id)) return notFound(idStr);
+    return deviceJson(device, { deleted: id });
+  } catch (error) {
+    console.error("DELETE /api/alerts/[id] error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
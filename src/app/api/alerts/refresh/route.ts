@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { dataVersion, evaluateAllSavedSearches } from "@/lib/alerts";
+
+// ---------------------------------------------------------------------------
+// POST /api/alerts/refresh — re-check every saved search against the current
+// rent data. Call once after sydney_suburbs.json is regenerated and deployed.
+//
+// Requires `Authorization: Bearer $ALERTS_REFRESH_TOKEN` when that env var
+// is set; in production it must be set.
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = process.env.ALERTS_REFRESH_TOKEN;
+    if (!token && process.env.NODE_ENV === "production") {
+      return NextResponse.json(
+        { error: "ALERTS_REFRESH_TOKEN is not configured" },
+        { status: 503 },
+      );
+    }
+    if (token && request.headers.get("authorization") !== `Bearer ${token}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { devices, alerts } = await evaluateAllSavedSearches();
+    return NextResponse.json({ data_version: dataVersion(), devices, alerts_created: alerts });
+  } catch (error) {
+    console.error("POST /api/alerts/refresh error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveDevice, deviceJson } from "@/lib/device";
+import { countUnreadAlerts, evaluateSavedSearches, listAlerts } from "@/lib/alerts";
+
+// ---------------------------------------------------------------------------
+// GET /api/alerts — this device's saved-search change alerts, newest first
+//
+// Also checks the device's saved searches against the current rent data, so
+// alerts appear on the next visit even if no refresh was triggered.
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    const device = resolveDevice(request);
+    await evaluateSavedSearches(device.id);
+    return deviceJson(device, {
+      unread: countUnreadAlerts(device.id),
+      alerts: listAlerts(device.id),
+    });
+  } catch (error) {
+    console.error("GET /api/alerts error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,19 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getAmenities, getAmenitySummary, getAmenityScore } from "@/lib/amenities";
+import { explainAmenityScore, getAmenities, getAmenitySummary } from "@/lib/amenities";
+import { parseAmenityProfile } from "@/lib/amenity-profiles";
+import { getHealthcareAccess } from "@/lib/healthcare";
+import { getSuburbByKey, getSuburbByPostcode } from "@/lib/suburbs";
 
 export async function GET(request: NextRequest) {
-  const postcode = request.nextUrl.searchParams.get("postcode");
+  const params = request.nextUrl.searchParams;
+  const suburbKey = params.get("suburb_key");
+  const postcode = params.get("postcode");
 
-  if (!postcode) {
+  if (!suburbKey && !postcode) {
     return NextResponse.json(
-      { error: "Missing required param: postcode" },
+      { error: "Missing required param: suburb_key (or postcode)" },
       { status: 400 },
     );
   }
 
-  const amenities = getAmenities(postcode);
-  const summary = getAmenitySummary(postcode);
-  const score = getAmenityScore(postcode);
+  const parsedProfile = parseAmenityProfile(params);
+  if ("error" in parsedProfile) {
+    return NextResponse.json({ error: parsedProfile.error }, { status: 400 });
+  }
+
+  // postcode is the old lookup; it resolves to that postcode's first suburb
+  const suburb = suburbKey ? getSuburbByKey(suburbKey) : getSuburbByPostcode(postcode!);
+  if (!suburb) {
+    return NextResponse.json(
+      { error: `Suburb not found: ${suburbKey ?? postcode}` },
+      { status: 404 },
+    );
+  }
+
+  const amenities = getAmenities(suburb.suburb_key);
+  const summary = getAmenitySummary(suburb.suburb_key);
+  const { profile, score, rules, walk_rules } = explainAmenityScore(suburb.suburb_key, parsedProfile.profile);
 
-  return NextResponse.json({ postcode, amenities, summary, score });
+  return NextResponse.json({
+    suburb_key: suburb.suburb_key,
+    postcode: suburb.postcode,
+    amenities,
+    summary,
+    score,
+    amenity_profile: profile,
+    score_rules: rules, // how each of the profile's rules went
+    score_walk_rules: walk_rules,
+    healthcare: getHealthcareAccess(suburb.suburb_key),
+  });
 }
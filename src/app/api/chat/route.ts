@@ -13,7 +13,7 @@ You have access to real NSW Government rental bond lodgement data (1.2 million b
 
 CORE RULES:
 - Always give specific suburb recommendations with actual median rent figures from the data below.
-- Use the 30% rule: renters should spend no more than 30% of gross income on rent.
+- Use the 30% rule: renters should spend no more than 30% of take-home income on rent. Quote the gross-income figure alongside when it is provided.
 - Be friendly, concise, and practical. Keep answers under 250 words unless detail is requested.
 - When recommending suburbs, always include the postcode and weekly rent figure.
 - If asked about trends, cite the year-over-year figures from the data.
@@ -44,6 +44,8 @@ interface ChatRequest {
     workplace?: string;
     sharing?: number;
     shareBedroom?: boolean;
+    incomeType?: "gross" | "takehome";
+    hasHelpDebt?: boolean;
   };
 }
 
@@ -1,63 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
+import { estimateCyclingMinutes, estimateWalkingMinutes } from "@/lib/commute";
 import { fetchOrsDirections } from "@/lib/ors-directions";
-
-// ---------------------------------------------------------------------------
-// Types
-// ---------------------------------------------------------------------------
-
-interface TransitResult {
-  duration_min: number;
-  transfers: number;
-  modes: string[];
-  summary: string;
-  departure: string;
-  arrival: string;
-}
-
-interface DrivingResult {
-  duration_min: number;
-  distance_km: number;
-  traffic_note: string;
-}
-
-interface CommuteResponse {
-  transit: TransitResult | null;
-  transit_error?: string;
-  driving: DrivingResult | null;
-  driving_error?: string;
-  straight_line_km: number;
-}
-
-interface CachedResult {
-  data: CommuteResponse;
-  timestamp: number;
-}
-
-// ---------------------------------------------------------------------------
-// In-memory cache (24-hour TTL)
-// ---------------------------------------------------------------------------
-
-const cache = new Map<string, CachedResult>();
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
-
-function cacheKey(
-  fromLat: number,
-  fromLng: number,
-  toLat: number,
-  toLng: number,
-): string {
-  return `${fromLat.toFixed(2)}_${fromLng.toFixed(2)}_${toLat.toFixed(2)}_${toLng.toFixed(2)}`;
-}
-
-function getCached(key: string): CommuteResponse | null {
-  const entry = cache.get(key);
-  if (!entry) return null;
-  if (Date.now() - entry.timestamp > CACHE_TTL_MS) {
-    cache.delete(key);
-    return null;
-  }
-  return entry.data;
-}
+import {
+  cacheKey,
+  getCached,
+  setCached,
+  type ActiveTravelResult,
+  type CommuteLeg,
+  type CommuteResponse,
+  type DrivingResult,
+  type TransitResult,
+  type WeeklyCommute,
+} from "@/lib/commute-cache";
+import {
+  DEFAULT_DEPART_AT,
+  formatSydneyTime,
+  parseClock,
+  resolveDay,
+  sydneyInstant,
+  type TripTime,
+} from "@/lib/trip-time";
 
 // ---------------------------------------------------------------------------
 // Haversine
@@ -80,23 +42,6 @@ function haversineKm(
   return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
 }
 
-// ---------------------------------------------------------------------------
-// Date helpers
-// ---------------------------------------------------------------------------
-
-function getNextWeekdayFormatted(): string {
-  const now = new Date();
-  const day = now.getDay(); // 0=Sun, 6=Sat
-  // If weekend, advance to Monday
-  if (day === 0) now.setDate(now.getDate() + 1);
-  else if (day === 6) now.setDate(now.getDate() + 2);
-
-  const yyyy = now.getFullYear();
-  const mm = String(now.getMonth() + 1).padStart(2, "0");
-  const dd = String(now.getDate()).padStart(2, "0");
-  return `${yyyy}${mm}${dd}`;
-}
-
 // ---------------------------------------------------------------------------
 // TfNSW Trip Planner
 // ---------------------------------------------------------------------------
@@ -106,6 +51,7 @@ async function fetchTransit(
   fromLng: number,
   toLat: number,
   toLng: number,
+  trip: TripTime,
 ): Promise<TransitResult> {
   const apiKey = process.env.TFNSW_API_KEY;
   if (!apiKey) throw new Error("TFNSW_API_KEY not configured");
@@ -117,9 +63,9 @@ async function fetchTransit(
     name_origin: `${fromLng}:${fromLat}:EPSG:4326`,
     type_destination: "coord",
     name_destination: `${toLng}:${toLat}:EPSG:4326`,
-    depArrMacro: "dep",
-    itdDate: getNextWeekdayFormatted(),
-    itdTime: "0800",
+    depArrMacro: trip.mode,
+    itdDate: trip.date,
+    itdTime: trip.time,
     calcNumberOfTrips: "3",
   });
 
@@ -146,8 +92,9 @@ async function fetchTransit(
       throw new Error("No transit journeys found");
     }
 
-    // Pick the first (best) journey
-    const journey = journeys[0];
+    // Journeys come earliest first: leaving after the time, the first is
+    // best; arriving before it, the last leaves latest
+    const journey = trip.mode === "arr" ? journeys[journeys.length - 1] : journeys[0];
     const legs = journey.legs ?? [];
 
     // Total duration from first departure to last arrival
@@ -212,25 +159,13 @@ async function fetchTransit(
         : "";
     const summary = `${primaryMode}${viaPart}`;
 
-    // Format departure/arrival times
-    const depStr = firstDep.toLocaleTimeString("en-AU", {
-      hour: "numeric",
-      minute: "2-digit",
-      hour12: true,
-    });
-    const arrStr = lastArr.toLocaleTimeString("en-AU", {
-      hour: "numeric",
-      minute: "2-digit",
-      hour12: true,
-    });
-
     return {
       duration_min: durationMin > 0 ? durationMin : 0,
       transfers,
       modes: Array.from(modes),
       summary,
-      departure: depStr,
-      arrival: arrStr,
+      departure: formatSydneyTime(firstDep),
+      arrival: formatSydneyTime(lastArr),
     };
   } finally {
     clearTimeout(timeout);
@@ -238,31 +173,38 @@ async function fetchTransit(
 }
 
 // ---------------------------------------------------------------------------
-// ORS Directions API (primary) → Google Routes API (fallback)
+// Google Routes API (traffic at the trip time) → ORS Directions API (typical
+// conditions)
 // ---------------------------------------------------------------------------
 
+/** Straight-line fallback: ~2 min per km, 1.3× the distance by road. */
+function estimateDriving(straightLineKm: number): DrivingResult {
+  return {
+    duration_min: Math.round(straightLineKm * 2),
+    distance_km: Math.round(straightLineKm * 1.3 * 10) / 10,
+    traffic_note: "estimate (API unavailable)",
+  };
+}
+
+/**
+ * When to leave for a driving leg. Google only predicts traffic for a
+ * departure time, so an arrive-by trip leaves a straight-line estimate early.
+ * Null once the time has passed — Google rejects departures in the past.
+ */
+function drivingDeparture(trip: TripTime, straightLineKm: number): Date | null {
+  const at = sydneyInstant(trip.date, trip.time);
+  if (trip.mode === "arr") at.setTime(at.getTime() - estimateDriving(straightLineKm).duration_min * 60_000);
+  return at.getTime() > Date.now() ? at : null;
+}
+
 async function fetchDriving(
   fromLat: number,
   fromLng: number,
   toLat: number,
   toLng: number,
+  departure: Date | null,
 ): Promise<DrivingResult> {
-  // Try ORS first (uses OPENROUTE_API_KEY)
-  const orsKey = process.env.OPENROUTE_API_KEY;
-  if (orsKey) {
-    try {
-      const result = await fetchOrsDirections(fromLat, fromLng, toLat, toLng, "driving");
-      return {
-        duration_min: result.duration_minutes,
-        distance_km: result.distance_km,
-        traffic_note: "typical conditions (ORS)",
-      };
-    } catch {
-      // Fall through to Google or haversine fallback
-    }
-  }
-
-  // Fallback: Google Routes API
+  // Try Google first — it's the only source that knows the time of day
   const googleKey = process.env.GOOGLE_MAPS_API_KEY;
   if (googleKey) {
     const controller = new AbortController();
@@ -292,6 +234,7 @@ async function fetchDriving(
             },
             travelMode: "DRIVE",
             routingPreference: "TRAFFIC_AWARE",
+            ...(departure && { departureTime: departure.toISOString() }),
           }),
           signal: controller.signal,
         },
@@ -314,24 +257,191 @@ async function fetchDriving(
       const distanceKm = Math.round(distanceM / 100) / 10;
 
       const isTrafficAware = route.duration && route.duration !== route.staticDuration;
+      const trafficNote = !isTrafficAware
+        ? "typical conditions"
+        : departure
+          ? `traffic leaving ${formatSydneyTime(departure)}`
+          : "with current traffic";
 
       return {
         duration_min: durationMin,
         distance_km: distanceKm,
-        traffic_note: isTrafficAware ? "with current traffic" : "typical conditions",
+        traffic_note: trafficNote,
       };
+    } catch {
+      // Fall through to ORS
     } finally {
       clearTimeout(timeout);
     }
   }
 
-  throw new Error("No driving API configured (set OPENROUTE_API_KEY or GOOGLE_MAPS_API_KEY)");
+  // Fallback: ORS (uses OPENROUTE_API_KEY) — no traffic model
+  const orsKey = process.env.OPENROUTE_API_KEY;
+  if (orsKey) {
+    const result = await fetchOrsDirections(fromLat, fromLng, toLat, toLng, "driving");
+    return {
+      duration_min: result.duration_minutes,
+      distance_km: result.distance_km,
+      traffic_note: "typical conditions (ORS)",
+    };
+  }
+
+  throw new Error(
+    googleKey
+      ? "Google Routes API failed and OPENROUTE_API_KEY is not set"
+      : "No driving API configured (set OPENROUTE_API_KEY or GOOGLE_MAPS_API_KEY)",
+  );
+}
+
+// ---------------------------------------------------------------------------
+// ORS cycling-regular / foot-walking
+// ---------------------------------------------------------------------------
+
+/** Straight-line distance past which walking isn't worth an ORS call. */
+const MAX_WALKING_KM = 8;
+
+/** Modes only routed when asked for (modes=cycling,walking) — each is another ORS call. */
+const ACTIVE_MODES = ["cycling", "walking"] as const;
+type ActiveMode = (typeof ACTIVE_MODES)[number];
+
+function isActiveMode(value: string): value is ActiveMode {
+  return (ACTIVE_MODES as readonly string[]).includes(value);
+}
+
+function estimateActiveTravel(straightLineKm: number, mode: "cycling" | "walking"): ActiveTravelResult {
+  return {
+    duration_min: mode === "cycling" ? estimateCyclingMinutes(straightLineKm) : estimateWalkingMinutes(straightLineKm),
+    distance_km: Math.round(straightLineKm * 1.3 * 10) / 10,
+    estimated: true,
+  };
+}
+
+async function fetchActiveTravel(
+  fromLat: number,
+  fromLng: number,
+  toLat: number,
+  toLng: number,
+  mode: "cycling" | "walking",
+): Promise<ActiveTravelResult> {
+  if (!process.env.OPENROUTE_API_KEY) throw new Error("OPENROUTE_API_KEY not configured");
+  const result = await fetchOrsDirections(fromLat, fromLng, toLat, toLng, mode);
+  return { duration_min: result.duration_minutes, distance_km: result.distance_km, estimated: false };
+}
+
+// ---------------------------------------------------------------------------
+// Legs
+// ---------------------------------------------------------------------------
+
+/** Whether a leg has been routed for an active mode (an estimate or "too far" counts). */
+function hasActiveMode(leg: CommuteLeg, mode: ActiveMode): boolean {
+  return leg[mode] !== null || leg[`${mode}_error`] !== undefined;
+}
+
+/** Transit and driving for one direction at one time; active modes left for fetchLeg. */
+async function fetchBaseLeg(
+  fromLat: number,
+  fromLng: number,
+  toLat: number,
+  toLng: number,
+  trip: TripTime,
+  straightLineKm: number,
+): Promise<CommuteLeg> {
+  const [transitResult, drivingResult] = await Promise.allSettled([
+    fetchTransit(fromLat, fromLng, toLat, toLng, trip),
+    fetchDriving(fromLat, fromLng, toLat, toLng, drivingDeparture(trip, straightLineKm)),
+  ]);
+
+  const leg: CommuteLeg = { transit: null, driving: null, cycling: null, walking: null };
+
+  if (transitResult.status === "fulfilled") {
+    leg.transit = transitResult.value;
+  } else {
+    leg.transit_error = transitResult.reason?.message ?? "Transit lookup failed";
+  }
+
+  if (drivingResult.status === "fulfilled") {
+    leg.driving = drivingResult.value;
+  } else {
+    leg.driving_error = drivingResult.reason?.message ?? "Driving lookup failed";
+    leg.driving = estimateDriving(straightLineKm);
+  }
+  return leg;
+}
+
+/**
+ * Transit, driving and the requested active modes for one direction at one
+ * time, from the cache if fetched recently. A cached leg missing a requested
+ * mode has just that mode added.
+ */
+async function fetchLeg(
+  fromLat: number,
+  fromLng: number,
+  toLat: number,
+  toLng: number,
+  trip: TripTime,
+  straightLineKm: number,
+  modes: ActiveMode[],
+): Promise<CommuteLeg> {
+  const key = cacheKey(fromLat, fromLng, toLat, toLng, trip);
+  const cached = getCached(key);
+  const missing = cached ? modes.filter((m) => !hasActiveMode(cached, m)) : modes;
+  if (cached && missing.length === 0) return cached;
+
+  // Walking only within range; everything else in parallel
+  const routed = missing.filter((m) => m !== "walking" || straightLineKm <= MAX_WALKING_KM);
+  const [base, activeResults] = await Promise.all([
+    cached ?? fetchBaseLeg(fromLat, fromLng, toLat, toLng, trip, straightLineKm),
+    Promise.allSettled(routed.map((m) => fetchActiveTravel(fromLat, fromLng, toLat, toLng, m))),
+  ]);
+  const leg: CommuteLeg = { ...base };
+
+  if (missing.includes("walking") && !routed.includes("walking")) {
+    leg.walking_error = `Over ${MAX_WALKING_KM} km — too far to walk`;
+  }
+  routed.forEach((mode, i) => {
+    const result = activeResults[i];
+    if (result.status === "fulfilled") {
+      leg[mode] = result.value;
+    } else {
+      leg[`${mode}_error`] = result.reason?.message ?? `${mode === "cycling" ? "Cycling" : "Walking"} lookup failed`;
+      leg[mode] = estimateActiveTravel(straightLineKm, mode);
+    }
+  });
+
+  setCached(key, leg);
+  return leg;
+}
+
+/** Weekly time for each mode: (in + home) × office days. */
+function weeklyCommute(outbound: CommuteLeg, returnLeg: CommuteLeg | null, officeDays: number): WeeklyCommute {
+  const home = returnLeg ?? outbound;
+  const total = (a: { duration_min: number } | null, b: { duration_min: number } | null) =>
+    a && b ? (a.duration_min + b.duration_min) * officeDays : null;
+  return {
+    office_days: officeDays,
+    transit_min: total(outbound.transit, home.transit),
+    driving_min: total(outbound.driving, home.driving),
+    cycling_min: total(outbound.cycling, home.cycling),
+    walking_min: total(outbound.walking, home.walking),
+    return_assumed: returnLeg === null,
+  };
 }
 
 // ---------------------------------------------------------------------------
 // Route handler
 // ---------------------------------------------------------------------------
 
+/**
+ * GET /api/commute?from_lat=&from_lng=&to_lat=&to_lng=
+ *
+ * Optional:
+ *   depart_at=HH:MM | arrive_by=HH:MM   outbound time (default: depart 08:00)
+ *   day=mon…sun | YYYY-MM-DD            (default: the next weekday)
+ *   return_at=HH:MM                     also fetch the trip home, leaving then
+ *   office_days=1–7                     for the weekly total (default 5)
+ *   modes=cycling,walking               also route by bike and/or on foot
+ *                                       (left null otherwise)
+ */
 export async function GET(request: NextRequest) {
   try {
     const params = request.nextUrl.searchParams;
@@ -347,51 +457,63 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const departAt = params.get("depart_at");
+    const arriveBy = params.get("arrive_by");
+    if (departAt && arriveBy) {
+      return NextResponse.json({ error: "Set depart_at or arrive_by, not both" }, { status: 400 });
+    }
+    const timeParam = arriveBy ? "arrive_by" : "depart_at";
+    const time = departAt || arriveBy ? parseClock((departAt || arriveBy)!) : DEFAULT_DEPART_AT;
+    if (!time) {
+      return NextResponse.json({ error: `${timeParam} must be a 24-hour time (HH:MM)` }, { status: 400 });
+    }
+
+    const date = resolveDay(params.get("day"));
+    if (!date) {
+      return NextResponse.json(
+        { error: "day must be mon–sun or a date (YYYY-MM-DD) that isn't in the past" },
+        { status: 400 },
+      );
+    }
+
+    const returnAtParam = params.get("return_at");
+    const returnAt = returnAtParam ? parseClock(returnAtParam) : null;
+    if (returnAtParam && !returnAt) {
+      return NextResponse.json({ error: "return_at must be a 24-hour time (HH:MM)" }, { status: 400 });
+    }
+
+    const officeDaysParam = params.get("office_days");
+    const officeDays = officeDaysParam ? Number(officeDaysParam) : 5;
+    if (!Number.isInteger(officeDays) || officeDays < 1 || officeDays > 7) {
+      return NextResponse.json({ error: "office_days must be a whole number from 1 to 7" }, { status: 400 });
+    }
+
+    const modesParam = params.get("modes");
+    const modes = modesParam ? modesParam.split(",").map((m) => m.trim()) : [];
+    if (!modes.every(isActiveMode)) {
+      return NextResponse.json({ error: `modes must be a comma-separated list of: ${ACTIVE_MODES.join(", ")}` }, { status: 400 });
+    }
+
     // Straight-line distance (always available)
     const straightLineKm =
       Math.round(haversineKm(fromLat, fromLng, toLat, toLng) * 10) / 10;
 
-    // Check cache
-    const key = cacheKey(fromLat, fromLng, toLat, toLng);
-    const cached = getCached(key);
-    if (cached) {
-      return NextResponse.json(cached);
-    }
+    const trip: TripTime = { date, mode: arriveBy ? "arr" : "dep", time };
+    const returnTrip: TripTime | null = returnAt ? { date, mode: "dep", time: returnAt } : null;
 
-    // Fetch transit + driving in parallel
-    const [transitResult, drivingResult] = await Promise.allSettled([
-      fetchTransit(fromLat, fromLng, toLat, toLng),
-      fetchDriving(fromLat, fromLng, toLat, toLng),
+    const [outbound, returnLeg] = await Promise.all([
+      fetchLeg(fromLat, fromLng, toLat, toLng, trip, straightLineKm, modes),
+      returnTrip && fetchLeg(toLat, toLng, fromLat, fromLng, returnTrip, straightLineKm, modes),
     ]);
 
     const response: CommuteResponse = {
-      transit: null,
-      driving: null,
+      ...outbound,
       straight_line_km: straightLineKm,
+      trip,
+      return_leg: returnLeg && returnTrip && { ...returnLeg, trip: returnTrip },
+      weekly: weeklyCommute(outbound, returnLeg, officeDays),
     };
 
-    if (transitResult.status === "fulfilled") {
-      response.transit = transitResult.value;
-    } else {
-      response.transit_error = transitResult.reason?.message ?? "Transit lookup failed";
-    }
-
-    if (drivingResult.status === "fulfilled") {
-      response.driving = drivingResult.value;
-    } else {
-      response.driving_error = drivingResult.reason?.message ?? "Driving lookup failed";
-      // Fallback: estimate driving from haversine
-      const estimatedMin = Math.round(straightLineKm * 2);
-      response.driving = {
-        duration_min: estimatedMin,
-        distance_km: Math.round(straightLineKm * 1.3 * 10) / 10,
-        traffic_note: "estimate (API unavailable)",
-      };
-    }
-
-    // Cache the result
-    cache.set(key, { data: response, timestamp: Date.now() });
-
     return NextResponse.json(response);
   } catch (err) {
     const message = err instanceof Error ? err.message : "Internal error";
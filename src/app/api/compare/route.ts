@@ -0,0 +1,231 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getSuburbByKey,
+  getSuburbByPostcode,
+  calculateRentStress,
+  medianRentKey,
+  resolveSuburbQuery,
+  type Suburb,
+} from "@/lib/suburbs";
+import { getNearbyStations, getNearestStation, type NearestStationResult } from "@/lib/commute";
+import { getAmenityScore } from "@/lib/amenities";
+import { forecastGrowthRate } from "@/lib/forecast";
+import { householdCommute, type PersonCommute } from "@/lib/household";
+import { isIncomeType, resolveIncome } from "@/lib/tax";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+const MIN_SUBURBS = 2;
+const MAX_SUBURBS = 4;
+const NEARBY_STATION_KM = 0.5;
+
+const BEDROOM_LABELS = ["1bed", "2bed", "3bed", "4bed", "5+bed"] as const;
+
+interface StationInfo {
+  name: string;
+  distance_km: number;
+  type: string;
+  lines: string[];
+}
+
+interface ComparedSuburb {
+  suburb_key: string;
+  suburb_name: string | null;
+  postcode: string;
+  lat: number | null;
+  lng: number | null;
+  median_rent_overall: number | null;
+  medians: Record<string, number | null>;
+  /** % of the user's take-home income per bedroom count — null without income. */
+  rent_stress: Record<string, number | null> | null;
+  rent_trend: Record<string, number>;
+  rent_growth_pct: number | null;
+  dwelling_types: Record<string, number>;
+  amenity_score: number;
+  nearby_stations: StationInfo[];
+  nearest_station: StationInfo | null;
+  total_bonds: number;
+  commute: Pick<PersonCommute, "minutes" | "source" | "scoring_minutes"> | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function stationInfo(ns: NearestStationResult): StationInfo {
+  return {
+    name: ns.station.name,
+    distance_km: ns.distanceKm,
+    type: ns.station.type,
+    lines: ns.station.lines,
+  };
+}
+
+/** Keys of the suburbs with the best value, or [] if no suburb has one / all tie. */
+function bestOf(
+  suburbs: ComparedSuburb[],
+  value: (s: ComparedSuburb) => number | null,
+  better: "lower" | "higher",
+): string[] {
+  const values = suburbs
+    .map((s) => ({ key: s.suburb_key, v: value(s) }))
+    .filter((x): x is { key: string; v: number } => x.v != null);
+  if (values.length < 2) return [];
+  const target = better === "lower"
+    ? Math.min(...values.map((x) => x.v))
+    : Math.max(...values.map((x) => x.v));
+  const winners = values.filter((x) => x.v === target).map((x) => x.key);
+  return winners.length === values.length ? [] : winners;
+}
+
+// ---------------------------------------------------------------------------
+// Handler
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+
+    // --- Validation ---
+    const keysStr = params.get("keys");
+    if (!keysStr) {
+      return NextResponse.json(
+        { error: "Missing required param: keys (comma-separated suburb keys)" },
+        { status: 400 },
+      );
+    }
+    const keys = [...new Set(keysStr.split(",").map((k) => k.trim()).filter(Boolean))];
+    if (keys.length < MIN_SUBURBS || keys.length > MAX_SUBURBS) {
+      return NextResponse.json(
+        { error: `keys must list between ${MIN_SUBURBS} and ${MAX_SUBURBS} suburbs` },
+        { status: 400 },
+      );
+    }
+
+    const incomeStr = params.get("income");
+    const income = incomeStr ? Number(incomeStr) : null;
+    if (income !== null && (isNaN(income) || income <= 0)) {
+      return NextResponse.json(
+        { error: "income must be a positive number (weekly $)" },
+        { status: 400 },
+      );
+    }
+
+    const incomeType = params.get("income_type") ?? "takehome";
+    if (!isIncomeType(incomeType)) {
+      return NextResponse.json(
+        { error: 'income_type must be "gross" or "takehome"' },
+        { status: 400 },
+      );
+    }
+    const incomeBasis = income !== null
+      ? resolveIncome(income, incomeType, { hasHelpDebt: params.get("help") === "1" })
+      : null;
+
+    const workplaceStr = params.get("workplace");
+    const workplace = workplaceStr ? resolveSuburbQuery(workplaceStr) : null;
+    if (workplaceStr && !workplace) {
+      return NextResponse.json(
+        { error: `Workplace "${workplaceStr}" not found in Sydney data` },
+        { status: 400 },
+      );
+    }
+
+    // --- Lookup ---
+    const found: Suburb[] = [];
+    for (const key of keys) {
+      const suburb = getSuburbByKey(key) ?? getSuburbByPostcode(key);
+      if (!suburb) {
+        return NextResponse.json(
+          { error: `Suburb "${key}" not found` },
+          { status: 404 },
+        );
+      }
+      found.push(suburb);
+    }
+
+    // --- Build rows ---
+    const suburbs: ComparedSuburb[] = found.map((s) => {
+      const medians: Record<string, number | null> = {};
+      const stress: Record<string, number | null> = {};
+      BEDROOM_LABELS.forEach((label, i) => {
+        const rent = s[medianRentKey(i + 1)] as number | null;
+        medians[label] = rent;
+        stress[label] = rent != null && incomeBasis
+          ? calculateRentStress(incomeBasis.net_weekly, rent).percentage
+          : null;
+      });
+
+      let nearby: StationInfo[] = [];
+      let nearest: StationInfo | null = null;
+      if (s.lat != null && s.lng != null) {
+        nearby = getNearbyStations(s.lat, s.lng, NEARBY_STATION_KM).map(stationInfo);
+        const ns = getNearestStation(s.lat, s.lng);
+        if (ns) nearest = stationInfo(ns);
+      }
+
+      let commute: ComparedSuburb["commute"] = null;
+      if (workplace) {
+        const hc = householdCommute(s, [{ query: workplaceStr!, suburb: workplace, weight: 1 }], "total");
+        if (hc) {
+          const { minutes, source, scoring_minutes } = hc.commutes[0];
+          commute = { minutes, source, scoring_minutes };
+        }
+      }
+
+      const growth = forecastGrowthRate(s);
+
+      return {
+        suburb_key: s.suburb_key,
+        suburb_name: s.suburb_name,
+        postcode: s.postcode,
+        lat: s.lat,
+        lng: s.lng,
+        median_rent_overall: s.median_rent_overall,
+        medians,
+        rent_stress: incomeBasis ? stress : null,
+        rent_trend: s.rent_trend,
+        rent_growth_pct: growth != null ? Math.round(growth * 1000) / 10 : null,
+        dwelling_types: s.dwelling_types,
+        amenity_score: getAmenityScore(s.suburb_key),
+        nearby_stations: nearby,
+        nearest_station: nearest,
+        total_bonds: s.total_bonds,
+        commute,
+      };
+    });
+
+    // --- Best value per row (lowest rent/stress/growth/commute, highest amenity/stations/supply) ---
+    const best: Record<string, string[]> = {
+      median_rent_overall: bestOf(suburbs, (s) => s.median_rent_overall, "lower"),
+      rent_growth_pct: bestOf(suburbs, (s) => s.rent_growth_pct, "lower"),
+      amenity_score: bestOf(suburbs, (s) => s.amenity_score, "higher"),
+      nearby_stations: bestOf(suburbs, (s) => s.nearby_stations.length, "higher"),
+      nearest_station: bestOf(suburbs, (s) => s.nearest_station?.distance_km ?? null, "lower"),
+      total_bonds: bestOf(suburbs, (s) => s.total_bonds, "higher"),
+      // On scoring minutes, so a drive time never beats a transit time it isn't comparable with
+      commute: bestOf(suburbs, (s) => s.commute?.scoring_minutes ?? null, "lower"),
+    };
+    for (const label of BEDROOM_LABELS) {
+      best[`median_${label}`] = bestOf(suburbs, (s) => s.medians[label], "lower");
+      best[`stress_${label}`] = bestOf(suburbs, (s) => s.rent_stress?.[label] ?? null, "lower");
+    }
+
+    return NextResponse.json({
+      suburbs,
+      best,
+      income: incomeBasis,
+      workplace: workplace
+        ? { suburb_key: workplace.suburb_key, suburb_name: workplace.suburb_name, postcode: workplace.postcode }
+        : null,
+    });
+  } catch (error) {
+    console.error("GET /api/compare error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
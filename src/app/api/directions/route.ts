@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { fetchOrsDirections } from "@/lib/ors-directions";
+import { DIRECTIONS_MODES, fetchOrsDirections, isDirectionsMode } from "@/lib/ors-directions";
 
 // ---------------------------------------------------------------------------
 // In-memory cache (24-hour TTL)
@@ -44,7 +44,7 @@ export async function GET(request: NextRequest) {
     const fromLng = parseFloat(params.get("from_lng") ?? "");
     const toLat = parseFloat(params.get("to_lat") ?? "");
     const toLng = parseFloat(params.get("to_lng") ?? "");
-    const mode = (params.get("mode") ?? "driving") as "driving" | "cycling";
+    const mode = params.get("mode") ?? "driving";
 
     if ([fromLat, fromLng, toLat, toLng].some(isNaN)) {
       return NextResponse.json(
@@ -56,9 +56,9 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    if (mode !== "driving" && mode !== "cycling") {
+    if (!isDirectionsMode(mode)) {
       return NextResponse.json(
-        { error: 'Invalid mode: must be "driving" or "cycling"' },
+        { error: `Invalid mode: must be one of ${DIRECTIONS_MODES.join(", ")}` },
         { status: 400 },
       );
     }
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveDevice, deviceJson } from "@/lib/device";
+import { getSuburbByKey } from "@/lib/suburbs";
+import { clearHistory, listHistory, recordView, HISTORY_LIMIT } from "@/lib/user-data";
+
+// ---------------------------------------------------------------------------
+// GET /api/history?limit=N — recently viewed suburbs, newest first
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    const limitStr = request.nextUrl.searchParams.get("limit");
+    const limit = limitStr ? Number(limitStr) : HISTORY_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > HISTORY_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be an integer between 1 and ${HISTORY_LIMIT}` },
+        { status: 400 },
+      );
+    }
+
+    const device = resolveDevice(request);
+    return deviceJson(device, { history: listHistory(device.id, limit) });
+  } catch (error) {
+    console.error("GET /api/history error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/history — body: { suburb_key }
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const suburbKey = body?.suburb_key;
+    if (typeof suburbKey !== "string" || !getSuburbByKey(suburbKey)) {
+      return NextResponse.json({ error: "suburb_key must be a known suburb key" }, { status: 400 });
+    }
+
+    const device = resolveDevice(request);
+    recordView(device.id, suburbKey);
+    return deviceJson(device, { recorded: suburbKey }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/history error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/history — forget every view on this device
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const device = resolveDevice(request);
+    clearHistory(device.id);
+    return deviceJson(device, { cleared: true });
+  } catch (error) {
+    console.error("DELETE /api/history error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -1,31 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { fetchOrsIsochrones } from "@/lib/ors-isochrones";
-
-// ---------------------------------------------------------------------------
-// In-memory cache (24-hour TTL)
-// ---------------------------------------------------------------------------
-
-interface CachedResult {
-  data: unknown;
-  timestamp: number;
-}
-
-const cache = new Map<string, CachedResult>();
-const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
-
-function cacheKey(lat: number, lng: number, ranges: string): string {
-  return `${lat.toFixed(3)}_${lng.toFixed(3)}_${ranges}`;
-}
-
-function getCached(key: string): unknown | null {
-  const entry = cache.get(key);
-  if (!entry) return null;
-  if (Date.now() - entry.timestamp > CACHE_TTL_MS) {
-    cache.delete(key);
-    return null;
-  }
-  return entry.data;
-}
+import { cacheKey, getCached, setCached } from "@/lib/isochrone-cache";
 
 // ---------------------------------------------------------------------------
 // GET /api/isochrone
@@ -49,7 +24,8 @@ export async function GET(request: NextRequest) {
     const rangesMinutes = rangesParam
       .split(",")
       .map((s) => parseInt(s.trim(), 10))
-      .filter((n) => !isNaN(n) && n > 0);
+      .filter((n) => !isNaN(n) && n > 0)
+      .sort((a, b) => a - b);
 
     if (rangesMinutes.length === 0) {
       return NextResponse.json(
@@ -59,7 +35,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Check cache
-    const key = cacheKey(lat, lng, rangesMinutes.sort((a, b) => a - b).join(","));
+    const key = cacheKey(lat, lng, rangesMinutes);
     const cached = getCached(key);
     if (cached) {
       return NextResponse.json(cached);
@@ -68,7 +44,7 @@ export async function GET(request: NextRequest) {
     const result = await fetchOrsIsochrones(lat, lng, rangesMinutes);
 
     // Cache and return
-    cache.set(key, { data: result, timestamp: Date.now() });
+    setCached(key, result);
 
     return NextResponse.json(result);
   } catch (err) {
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { fetchOverpassAmenities } from "@/lib/overpass";
+import { getSuburbPois } from "@/lib/poi";
 
 // ---------------------------------------------------------------------------
 // In-memory cache (24-hour TTL)
@@ -25,11 +26,26 @@ function getCached(key: string): unknown | null {
 
 // ---------------------------------------------------------------------------
 // POST /api/overpass-poi
+//
+// { suburb_key } reads the suburb's POIs through the on-disk cache (see
+// lib/poi) and adds its walkability sub-scores; { lat, lng, radius } queries
+// any point, cached in memory.
 // ---------------------------------------------------------------------------
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
+    if (body.suburb_key != null) {
+      const cached = await getSuburbPois(String(body.suburb_key));
+      if (!cached) {
+        return NextResponse.json(
+          { error: `Suburb not found or has no location: ${body.suburb_key}` },
+          { status: 404 },
+        );
+      }
+      return NextResponse.json({ ...cached.pois, walkability: cached.summary.scores, fetched_at: cached.fetched_at });
+    }
+
     const lat = parseFloat(body.lat);
     const lng = parseFloat(body.lng);
     const radius = Math.min(body.radius ?? 3000, 5000);
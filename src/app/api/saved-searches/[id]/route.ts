@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveDevice, deviceJson } from "@/lib/device";
+import { recordBaseline } from "@/lib/alerts";
+import {
+  cleanEmail,
+  cleanName,
+  deleteSavedSearch,
+  getSavedSearch,
+  markSavedSearchRun,
+  parseRowId,
+  sanitizeSearchParams,
+  updateSavedSearch,
+  MAX_NAME_LENGTH,
+  type SearchParams,
+} from "@/lib/user-data";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  NextResponse.json({ error: `Saved search ${id} not found` }, { status: 404 });
+
+// ---------------------------------------------------------------------------
+// GET /api/saved-searches/[id]
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseRowId(idStr);
+    if (!id) return notFound(idStr);
+
+    const device = resolveDevice(request);
+    const search = getSavedSearch(device.id, id);
+    if (!search) return notFound(idStr);
+    return deviceJson(device, { search });
+  } catch (error) {
+    console.error("GET /api/saved-searches/[id] error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH /api/saved-searches/[id] — body: { name?, params?, alert_email?, mark_run? }
+//
+// alert_email: null or "" turns email alerts off
+// ---------------------------------------------------------------------------
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseRowId(idStr);
+    if (!id) return notFound(idStr);
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== "object") {
+      return NextResponse.json({ error: "Request body must be a JSON object" }, { status: 400 });
+    }
+
+    const changes: { name?: string; params?: SearchParams; alert_email?: string | null } = {};
+    if (body.name !== undefined) {
+      const name = cleanName(body.name);
+      if (!name) {
+        return NextResponse.json(
+          { error: `name must be 1–${MAX_NAME_LENGTH} characters` },
+          { status: 400 },
+        );
+      }
+      changes.name = name;
+    }
+    if (body.params !== undefined) {
+      const parsed = sanitizeSearchParams(body.params);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      changes.params = parsed.params;
+    }
+    if (body.alert_email !== undefined) {
+      const alertEmail = body.alert_email ? cleanEmail(body.alert_email) : null;
+      if (body.alert_email && !alertEmail) {
+        return NextResponse.json({ error: "alert_email must be a valid email address" }, { status: 400 });
+      }
+      changes.alert_email = alertEmail;
+    }
+
+    const device = resolveDevice(request);
+    let search = Object.keys(changes).length > 0
+      ? updateSavedSearch(device.id, id, changes)
+      : getSavedSearch(device.id, id);
+    if (search && body.mark_run === true) search = markSavedSearchRun(device.id, id);
+    if (!search) return notFound(idStr);
+    // New criteria: alerts compare against the new matches from here on
+    if (changes.params) await recordBaseline(search);
+    return deviceJson(device, { search });
+  } catch (error) {
+    console.error("PATCH /api/saved-searches/[id] error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/saved-searches/[id]
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseRowId(idStr);
+    if (!id) return notFound(idStr);
+
+    const device = resolveDevice(request);
+    if (!deleteSavedSearch(device.id, id)) return notFound(idStr);
+    return deviceJson(device, { deleted: id });
+  } catch (error) {
+    console.error("DELETE /api/saved-searches/[id] error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
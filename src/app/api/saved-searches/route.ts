@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveDevice, deviceJson } from "@/lib/device";
+import { recordBaseline } from "@/lib/alerts";
+import {
+  cleanEmail,
+  cleanName,
+  createSavedSearch,
+  listSavedSearches,
+  sanitizeSearchParams,
+  MAX_NAME_LENGTH,
+} from "@/lib/user-data";
+
+// ---------------------------------------------------------------------------
+// GET /api/saved-searches — this device's saved searches, newest first
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    const device = resolveDevice(request);
+    return deviceJson(device, { searches: listSavedSearches(device.id) });
+  } catch (error) {
+    console.error("GET /api/saved-searches error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/saved-searches — body: { name, params, alert_email? }
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const name = cleanName(body?.name);
+    if (!name) {
+      return NextResponse.json(
+        { error: `name is required (max ${MAX_NAME_LENGTH} characters)` },
+        { status: 400 },
+      );
+    }
+    const parsed = sanitizeSearchParams(body?.params);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const alertEmail = body.alert_email ? cleanEmail(body.alert_email) : null;
+    if (body.alert_email && !alertEmail) {
+      return NextResponse.json({ error: "alert_email must be a valid email address" }, { status: 400 });
+    }
+
+    const device = resolveDevice(request);
+    const search = createSavedSearch(device.id, name, parsed.params, alertEmail);
+    await recordBaseline(search);
+    return deviceJson(device, { search }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/saved-searches error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSchools } from "@/lib/schools";
+
+export async function GET(request: NextRequest) {
+  const suburbKey = request.nextUrl.searchParams.get("suburb_key");
+  if (!suburbKey) {
+    return NextResponse.json(
+      { error: "Missing required param: suburb_key" },
+      { status: 400 },
+    );
+  }
+
+  const schools = getSchools(suburbKey);
+  if (!schools) {
+    return NextResponse.json(
+      { error: `Suburb not found: ${suburbKey}` },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ suburb_key: suburbKey, ...schools });
+}
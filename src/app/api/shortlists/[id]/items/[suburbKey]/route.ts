@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveDevice, deviceJson } from "@/lib/device";
+import {
+  getShortlist,
+  parseRowId,
+  removeShortlistItem,
+  upsertShortlistItem,
+  MAX_NOTE_LENGTH,
+} from "@/lib/user-data";
+
+type RouteParams = { params: Promise<{ id: string; suburbKey: string }> };
+
+const notFound = (message: string) => NextResponse.json({ error: message }, { status: 404 });
+
+// ---------------------------------------------------------------------------
+// PATCH /api/shortlists/[id]/items/[suburbKey] — body: { note }
+// ---------------------------------------------------------------------------
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: idStr, suburbKey } = await params;
+    const id = parseRowId(idStr);
+    if (!id) return notFound(`Shortlist ${idStr} not found`);
+
+    const body = await request.json().catch(() => null);
+    const note = body?.note;
+    if (typeof note !== "string" || note.length > MAX_NOTE_LENGTH) {
+      return NextResponse.json(
+        { error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    const device = resolveDevice(request);
+    const existing = getShortlist(device.id, id);
+    if (!existing) return notFound(`Shortlist ${idStr} not found`);
+    if (!existing.items.some((item) => item.suburb_key === suburbKey)) {
+      return notFound(`"${suburbKey}" is not on shortlist ${idStr}`);
+    }
+
+    return deviceJson(device, { shortlist: upsertShortlistItem(device.id, id, suburbKey, note) });
+  } catch (error) {
+    console.error("PATCH /api/shortlists/[id]/items/[suburbKey] error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/shortlists/[id]/items/[suburbKey]
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: idStr, suburbKey } = await params;
+    const id = parseRowId(idStr);
+    if (!id) return notFound(`Shortlist ${idStr} not found`);
+
+    const device = resolveDevice(request);
+    const shortlist = removeShortlistItem(device.id, id, suburbKey);
+    if (!shortlist) return notFound(`Shortlist ${idStr} not found`);
+    return deviceJson(device, { shortlist });
+  } catch (error) {
+    console.error("DELETE /api/shortlists/[id]/items/[suburbKey] error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
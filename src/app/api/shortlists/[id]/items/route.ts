@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveDevice, deviceJson } from "@/lib/device";
+import { getSuburbByKey } from "@/lib/suburbs";
+import { parseRowId, upsertShortlistItem, MAX_NOTE_LENGTH } from "@/lib/user-data";
+
+// ---------------------------------------------------------------------------
+// POST /api/shortlists/[id]/items — body: { suburb_key, note? }
+//
+// Adds the suburb, or updates its note if it's already on the list.
+// ---------------------------------------------------------------------------
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseRowId(idStr);
+    if (!id) {
+      return NextResponse.json({ error: `Shortlist ${idStr} not found` }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const suburbKey = body?.suburb_key;
+    if (typeof suburbKey !== "string" || !getSuburbByKey(suburbKey)) {
+      return NextResponse.json({ error: "suburb_key must be a known suburb key" }, { status: 400 });
+    }
+    const note = body?.note;
+    if (note !== undefined && (typeof note !== "string" || note.length > MAX_NOTE_LENGTH)) {
+      return NextResponse.json(
+        { error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    const device = resolveDevice(request);
+    const shortlist = upsertShortlistItem(device.id, id, suburbKey, note);
+    if (!shortlist) {
+      return NextResponse.json({ error: `Shortlist ${idStr} not found` }, { status: 404 });
+    }
+    return deviceJson(device, { shortlist });
+  } catch (error) {
+    console.error("POST /api/shortlists/[id]/items error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveDevice, deviceJson } from "@/lib/device";
+import {
+  cleanName,
+  deleteShortlist,
+  getShortlist,
+  parseRowId,
+  renameShortlist,
+  MAX_NAME_LENGTH,
+} from "@/lib/user-data";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) =>
+  NextResponse.json({ error: `Shortlist ${id} not found` }, { status: 404 });
+
+// ---------------------------------------------------------------------------
+// GET /api/shortlists/[id]
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseRowId(idStr);
+    if (!id) return notFound(idStr);
+
+    const device = resolveDevice(request);
+    const shortlist = getShortlist(device.id, id);
+    if (!shortlist) return notFound(idStr);
+    return deviceJson(device, { shortlist });
+  } catch (error) {
+    console.error("GET /api/shortlists/[id] error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PATCH /api/shortlists/[id] — body: { name }
+// ---------------------------------------------------------------------------
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseRowId(idStr);
+    if (!id) return notFound(idStr);
+
+    const body = await request.json().catch(() => null);
+    const name = cleanName(body?.name);
+    if (!name) {
+      return NextResponse.json(
+        { error: `name must be 1–${MAX_NAME_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+
+    const device = resolveDevice(request);
+    const shortlist = renameShortlist(device.id, id, name);
+    if (!shortlist) return notFound(idStr);
+    return deviceJson(device, { shortlist });
+  } catch (error) {
+    console.error("PATCH /api/shortlists/[id] error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/shortlists/[id]
+// ---------------------------------------------------------------------------
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: idStr } = await params;
+    const id = parseRowId(idStr);
+    if (!id) return notFound(idStr);
+
+    const device = resolveDevice(request);
+    if (!deleteShortlist(device.id, id)) return notFound(idStr);
+    return deviceJson(device, { deleted: id });
+  } catch (error) {
+    console.error("DELETE /api/shortlists/[id] error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
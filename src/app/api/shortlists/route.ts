@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveDevice, deviceJson } from "@/lib/device";
+import { getSuburbByKey } from "@/lib/suburbs";
+import { cleanName, createShortlist, listShortlists, MAX_NAME_LENGTH } from "@/lib/user-data";
+
+// ---------------------------------------------------------------------------
+// GET /api/shortlists — this device's shortlists with their suburbs
+// ---------------------------------------------------------------------------
+
+export async function GET(request: NextRequest) {
+  try {
+    const device = resolveDevice(request);
+    return deviceJson(device, { shortlists: listShortlists(device.id) });
+  } catch (error) {
+    console.error("GET /api/shortlists error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/shortlists — body: { name, suburb_keys? }
+// ---------------------------------------------------------------------------
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const name = cleanName(body?.name);
+    if (!name) {
+      return NextResponse.json(
+        { error: `name is required (max ${MAX_NAME_LENGTH} characters)` },
+        { status: 400 },
+      );
+    }
+
+    const keys: unknown = body?.suburb_keys ?? [];
+    if (!Array.isArray(keys) || keys.some((k) => typeof k !== "string")) {
+      return NextResponse.json({ error: "suburb_keys must be an array of strings" }, { status: 400 });
+    }
+    const unknown = keys.find((k) => !getSuburbByKey(k));
+    if (unknown) {
+      return NextResponse.json({ error: `Suburb "${unknown}" not found` }, { status: 400 });
+    }
+
+    const device = resolveDevice(request);
+    const shortlist = createShortlist(device.id, name, keys);
+    return deviceJson(device, { shortlist }, { status: 201 });
+  } catch (error) {
+    console.error("POST /api/shortlists error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
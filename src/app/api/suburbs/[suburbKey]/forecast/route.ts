@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSuburbByKey, getSuburbByPostcode } from "@/lib/suburbs";
+import { forecastSuburb, MAX_FORECAST_YEARS } from "@/lib/forecast";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ suburbKey: string }> },
+) {
+  try {
+    const { suburbKey } = await params;
+    const search = request.nextUrl.searchParams;
+    const bedroomsStr = search.get("bedrooms");
+    const yearsStr = search.get("years");
+
+    // --- Validation ---
+    const bedrooms = bedroomsStr ? Number(bedroomsStr) : null;
+    if (bedrooms !== null && (isNaN(bedrooms) || bedrooms < 1 || bedrooms > 5)) {
+      return NextResponse.json(
+        { error: "bedrooms must be between 1 and 5" },
+        { status: 400 },
+      );
+    }
+
+    const years = yearsStr ? Number(yearsStr) : MAX_FORECAST_YEARS;
+    if (!Number.isInteger(years) || years < 1 || years > MAX_FORECAST_YEARS) {
+      return NextResponse.json(
+        { error: `years must be an integer between 1 and ${MAX_FORECAST_YEARS}` },
+        { status: 400 },
+      );
+    }
+
+    // --- Lookup ---
+    const suburb = getSuburbByKey(suburbKey) ?? getSuburbByPostcode(suburbKey);
+    if (!suburb) {
+      return NextResponse.json(
+        { error: `Suburb "${suburbKey}" not found` },
+        { status: 404 },
+      );
+    }
+
+    const forecast = forecastSuburb(suburb, bedrooms, years);
+    if (!forecast) {
+      return NextResponse.json(
+        {
+          error: bedrooms
+            ? `No ${bedrooms}-bedroom rent data for ${suburb.suburb_name ?? suburb.postcode}`
+            : `No rent trend data for ${suburb.suburb_name ?? suburb.postcode}`,
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      ...forecast,
+      suburb_name: suburb.suburb_name,
+      postcode: suburb.postcode,
+      history: suburb.rent_trend,
+    });
+  } catch (error) {
+    console.error("GET /api/suburbs/[suburbKey]/forecast error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
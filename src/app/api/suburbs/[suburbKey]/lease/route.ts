@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSuburbByKey, getSuburbByPostcode } from "@/lib/suburbs";
+import {
+  projectLease,
+  DEFAULT_WAIT_MONTHS,
+  MAX_LEASE_MONTHS,
+  MAX_WAIT_MONTHS,
+} from "@/lib/lease";
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ suburbKey: string }> },
+) {
+  try {
+    const { suburbKey } = await params;
+    const search = request.nextUrl.searchParams;
+
+    // --- Validation ---
+    const bedroomsStr = search.get("bedrooms");
+    const bedrooms = bedroomsStr ? Number(bedroomsStr) : null;
+    if (bedrooms !== null && (isNaN(bedrooms) || bedrooms < 1 || bedrooms > 5)) {
+      return badRequest("bedrooms must be between 1 and 5");
+    }
+
+    const leaseMonths = Number(search.get("lease_months") ?? 12);
+    if (!Number.isInteger(leaseMonths) || leaseMonths < 1 || leaseMonths > MAX_LEASE_MONTHS) {
+      return badRequest(`lease_months must be an integer between 1 and ${MAX_LEASE_MONTHS}`);
+    }
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+    const startStr = search.get("start");
+    let start = today;
+    if (startStr) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(startStr) || isNaN(Date.parse(startStr))) {
+        return badRequest("start must be a date in YYYY-MM-DD format");
+      }
+      start = new Date(startStr);
+      if (start < today) return badRequest("start cannot be in the past");
+      if (start > new Date(Date.UTC(today.getUTCFullYear() + 2, today.getUTCMonth(), today.getUTCDate()))) {
+        return badRequest("start must be within the next 2 years");
+      }
+    }
+
+    const movingCostStr = search.get("moving_cost");
+    const movingCost = movingCostStr ? Number(movingCostStr) : null;
+    if (movingCost !== null && (isNaN(movingCost) || movingCost < 0)) {
+      return badRequest("moving_cost must be a non-negative number");
+    }
+
+    const currentRentStr = search.get("current_rent");
+    const currentRent = currentRentStr ? Number(currentRentStr) : null;
+    if (currentRent !== null && (isNaN(currentRent) || currentRent < 0)) {
+      return badRequest("current_rent must be a non-negative number (weekly $)");
+    }
+
+    const waitStr = search.get("wait");
+    const waitMonths = waitStr
+      ? waitStr.split(",").map((w) => Number(w.trim()))
+      : DEFAULT_WAIT_MONTHS;
+    if (waitMonths.some((w) => !Number.isInteger(w) || w < 1 || w > MAX_WAIT_MONTHS)) {
+      return badRequest(`wait must be comma-separated whole months between 1 and ${MAX_WAIT_MONTHS}`);
+    }
+
+    // --- Lookup ---
+    const suburb = getSuburbByKey(suburbKey) ?? getSuburbByPostcode(suburbKey);
+    if (!suburb) {
+      return NextResponse.json(
+        { error: `Suburb "${suburbKey}" not found` },
+        { status: 404 },
+      );
+    }
+
+    const result = projectLease(
+      suburb,
+      { bedrooms, leaseMonths, start, movingCost, currentRent, waitMonths },
+      today,
+    );
+    if (!result) {
+      return NextResponse.json(
+        {
+          error: bedrooms
+            ? `No ${bedrooms}-bedroom rent data for ${suburb.suburb_name ?? suburb.postcode}`
+            : `No rent data for ${suburb.suburb_name ?? suburb.postcode}`,
+        },
+        { status: 404 },
+      );
+    }
+
+    return NextResponse.json({
+      ...result,
+      suburb_name: suburb.suburb_name,
+      postcode: suburb.postcode,
+    });
+  } catch (error) {
+    console.error("GET /api/suburbs/[suburbKey]/lease error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
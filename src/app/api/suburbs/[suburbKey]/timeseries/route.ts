@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSuburbByKey, getSuburbByPostcode } from "@/lib/suburbs";
+import {
+  availableGranularities,
+  bedroomSeriesKey,
+  dwellingSeriesKey,
+  getRentSeries,
+  isGranularity,
+  seasonalProfile,
+  DWELLING_SERIES,
+  GRANULARITIES,
+  type SeriesKey,
+} from "@/lib/rent-series";
+
+// ---------------------------------------------------------------------------
+// GET /api/suburbs/[suburbKey]/timeseries
+//
+//   granularity  year | quarter | month   (default quarter)
+//   bedrooms     1–5                       (optional)
+//   dwelling     flat | house | townhouse | other | unknown  (optional, any case)
+//
+// Bond data isn't cross-tabulated, so bedrooms and dwelling can't be combined.
+// ---------------------------------------------------------------------------
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ suburbKey: string }> },
+) {
+  try {
+    const { suburbKey } = await params;
+    const search = request.nextUrl.searchParams;
+    const bedroomsStr = search.get("bedrooms");
+    const dwellingStr = search.get("dwelling");
+
+    // --- Validation ---
+    const granularity = search.get("granularity") ?? "quarter";
+    if (!isGranularity(granularity)) {
+      return NextResponse.json(
+        { error: `granularity must be one of: ${GRANULARITIES.join(", ")}` },
+        { status: 400 },
+      );
+    }
+
+    const bedrooms = bedroomsStr ? Number(bedroomsStr) : null;
+    if (bedrooms !== null && (!Number.isInteger(bedrooms) || bedrooms < 1 || bedrooms > 5)) {
+      return NextResponse.json(
+        { error: "bedrooms must be between 1 and 5" },
+        { status: 400 },
+      );
+    }
+
+    const dwelling = dwellingStr !== null ? dwellingSeriesKey(dwellingStr) : null;
+    if (dwellingStr !== null && !dwelling) {
+      return NextResponse.json(
+        { error: `dwelling must be one of: ${DWELLING_SERIES.map((d) => d.toLowerCase()).join(", ")}` },
+        { status: 400 },
+      );
+    }
+    if (bedrooms !== null && dwelling !== null) {
+      return NextResponse.json(
+        { error: "Use bedrooms or dwelling, not both" },
+        { status: 400 },
+      );
+    }
+    const series: SeriesKey = bedrooms ? bedroomSeriesKey(bedrooms) : dwelling ?? "all";
+
+    // --- Lookup ---
+    const suburb = getSuburbByKey(suburbKey) ?? getSuburbByPostcode(suburbKey);
+    if (!suburb) {
+      return NextResponse.json(
+        { error: `Suburb "${suburbKey}" not found` },
+        { status: 404 },
+      );
+    }
+
+    // No data at this granularity is not an error — the chart shows a notice
+    const result = getRentSeries(suburb, granularity, series);
+    return NextResponse.json({
+      suburb_key: suburb.suburb_key,
+      suburb_name: suburb.suburb_name,
+      postcode: suburb.postcode,
+      granularity,
+      series,
+      bedrooms,
+      dwelling: dwelling?.toLowerCase() ?? null,
+      source: result?.source ?? null,
+      points: result?.points ?? [],
+      seasonal_pct: result ? seasonalProfile(result.points, granularity) : null,
+      available_granularities: availableGranularities(suburb),
+    });
+  } catch (error) {
+    console.error("GET /api/suburbs/[suburbKey]/timeseries error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 },
+    );
+  }
+}
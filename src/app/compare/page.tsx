@@ -0,0 +1,361 @@
+"use client";
+
+import { Suspense, useState, useEffect } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, Columns3, DollarSign, TrendingUp, Building2, Train, Briefcase, Star, Users } from "lucide-react";
+import type { PersonCommute } from "@/lib/household";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface StationInfo {
+  name: string;
+  distance_km: number;
+  type: string;
+  lines: string[];
+}
+
+interface ComparedSuburb {
+  suburb_key: string;
+  suburb_name: string | null;
+  postcode: string;
+  median_rent_overall: number | null;
+  medians: Record<string, number | null>;
+  rent_stress: Record<string, number | null> | null;
+  rent_trend: Record<string, number>;
+  rent_growth_pct: number | null;
+  dwelling_types: Record<string, number>;
+  amenity_score: number;
+  nearby_stations: StationInfo[];
+  nearest_station: StationInfo | null;
+  total_bonds: number;
+  commute: Pick<PersonCommute, "minutes" | "source" | "scoring_minutes"> | null;
+}
+
+interface CompareResponse {
+  suburbs: ComparedSuburb[];
+  best: Record<string, string[]>;
+  income: { net_weekly: number; gross_weekly: number } | null;
+  workplace: { suburb_key: string; suburb_name: string | null; postcode: string } | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const BEDROOMS = [
+  { key: "1bed", label: "1 Bed" },
+  { key: "2bed", label: "2 Bed" },
+  { key: "3bed", label: "3 Bed" },
+  { key: "4bed", label: "4 Bed" },
+  { key: "5+bed", label: "5+ Bed" },
+];
+
+const DWELLING_TYPES = ["Flat", "House", "Townhouse"];
+
+/** Params forwarded from the results page so stress and commute match the search. */
+const FORWARDED_PARAMS = ["income", "income_type", "help", "workplace"];
+
+function stressColor(pct: number | null): string {
+  if (pct == null) return "text-slate-400";
+  if (pct < 25) return "text-emerald-600";
+  if (pct <= 30) return "text-amber-600";
+  if (pct <= 40) return "text-orange-600";
+  return "text-red-600";
+}
+
+function commuteSourceLabel(source: NonNullable<ComparedSuburb["commute"]>["source"]): string {
+  if (source === "cached_transit" || source === "transit_matrix") return "transit";
+  if (source === "cached_driving" || source === "hub_matrix") return "driving";
+  return "estimate";
+}
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function ComparePageWrapper() {
+  return (
+    <Suspense fallback={
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50/40 to-orange-50/30">
+        <span className="h-10 w-10 animate-spin rounded-full border-3 border-slate-200 border-t-primary" />
+      </div>
+    }>
+      <ComparePage />
+    </Suspense>
+  );
+}
+
+function ComparePage() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const [data, setData] = useState<CompareResponse | null>(null);
+  const [error, setError] = useState("");
+
+  const apiQuery = (() => {
+    const params = new URLSearchParams({ keys: searchParams.get("keys") ?? "" });
+    for (const key of FORWARDED_PARAMS) {
+      const value = searchParams.get(key);
+      if (value) params.set(key, value);
+    }
+    return params.toString();
+  })();
+
+  useEffect(() => {
+    fetch(`/api/compare?${apiQuery}`)
+      .then((r) => r.json())
+      .then((d) => {
+        if (d.error) setError(d.error);
+        else setData(d);
+      })
+      .catch(() => setError("Network error. Please try again."));
+  }, [apiQuery]);
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50/40 to-orange-50/30 px-4">
+        <div className="text-center">
+          <p className="text-lg font-semibold text-slate-700">{error}</p>
+          <button
+            onClick={() => router.back()}
+            className="mt-4 inline-flex items-center gap-2 rounded-lg bg-primary px-5 py-2.5 text-sm font-medium text-white transition-colors hover:bg-primary-light"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Go back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-slate-50 via-blue-50/40 to-orange-50/30">
+        <span className="h-10 w-10 animate-spin rounded-full border-3 border-slate-200 border-t-primary" />
+      </div>
+    );
+  }
+
+  const { suburbs, best } = data;
+  const isBest = (row: string, key: string) => best[row]?.includes(key) ?? false;
+  const cellClass = (row: string, key: string) =>
+    `px-4 py-2.5 text-sm ${isBest(row, key) ? "bg-emerald-50 font-bold text-emerald-700" : "text-slate-700"}`;
+  const trendMax = Math.max(...suburbs.flatMap((s) => Object.values(s.rent_trend)));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/40 to-orange-50/30">
+      <div className="mx-auto max-w-6xl px-4 py-8 sm:px-6">
+        <button
+          onClick={() => router.back()}
+          className="inline-flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-sm font-medium text-slate-500 hover:bg-slate-100 hover:text-primary"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </button>
+
+        <div className="mt-4 mb-6 flex items-center gap-2">
+          <Columns3 className="h-6 w-6 text-primary" />
+          <h1 className="text-2xl font-extrabold text-primary sm:text-3xl">Compare Suburbs</h1>
+        </div>
+        {data.income && (
+          <p className="-mt-4 mb-6 text-sm text-slate-500">
+            Rent stress against ${data.income.net_weekly.toLocaleString("en-AU")}/wk take-home
+            {data.workplace && <> &middot; commute to {data.workplace.suburb_name ?? data.workplace.postcode}</>}
+          </p>
+        )}
+
+        <div className="overflow-x-auto rounded-xl border border-slate-200/80 bg-white shadow-sm">
+          <table className="w-full min-w-[640px] table-fixed border-collapse">
+            <thead>
+              <tr className="border-b border-slate-200">
+                <th className="w-40 px-4 py-3" />
+                {suburbs.map((s) => (
+                  <th key={s.suburb_key} className="px-4 py-3 text-left">
+                    <Link href={`/suburb/${s.suburb_key}`} className="text-base font-bold text-slate-900 hover:text-primary">
+                      {s.suburb_name ?? `Postcode ${s.postcode}`}
+                    </Link>
+                    <p className="text-xs font-normal text-slate-400">{s.postcode}</p>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {/* ---- Rent by bedrooms ---- */}
+              <SectionRow icon={<DollarSign className="h-4 w-4" />} title="Median rent" span={suburbs.length} />
+              {BEDROOMS.map(({ key, label }) => (
+                <tr key={key}>
+                  <td className="px-4 py-2.5 text-sm text-slate-500">{label}</td>
+                  {suburbs.map((s) => (
+                    <td key={s.suburb_key} className={cellClass(`median_${key}`, s.suburb_key)}>
+                      {s.medians[key] != null ? `$${s.medians[key]}/wk` : <span className="text-slate-300">No data</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+
+              {/* ---- Rent stress vs the user's income ---- */}
+              {data.income && (
+                <>
+                  <SectionRow icon={<Users className="h-4 w-4" />} title="Rent stress (your income)" span={suburbs.length} />
+                  {BEDROOMS.slice(0, 4).map(({ key, label }) => (
+                    <tr key={key}>
+                      <td className="px-4 py-2.5 text-sm text-slate-500">{label}</td>
+                      {suburbs.map((s) => {
+                        const pct = s.rent_stress?.[key] ?? null;
+                        return (
+                          <td key={s.suburb_key} className={cellClass(`stress_${key}`, s.suburb_key)}>
+                            <span className={isBest(`stress_${key}`, s.suburb_key) ? "" : stressColor(pct)}>
+                              {pct != null ? `${pct}%` : "N/A"}
+                            </span>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </>
+              )}
+
+              {/* ---- Rent trend ---- */}
+              <SectionRow icon={<TrendingUp className="h-4 w-4" />} title="Rent trend" span={suburbs.length} />
+              <tr>
+                <td className="px-4 py-2.5 text-sm text-slate-500">2021–2025</td>
+                {suburbs.map((s) => (
+                  <td key={s.suburb_key} className="px-4 py-2.5">
+                    <div className="flex h-16 items-end gap-1">
+                      {Object.entries(s.rent_trend)
+                        .sort(([a], [b]) => a.localeCompare(b))
+                        .map(([year, rent]) => (
+                          <div
+                            key={year}
+                            title={`${year}: $${rent}/wk`}
+                            className="flex-1 rounded-t bg-gradient-to-t from-primary/70 to-primary"
+                            style={{ height: `${trendMax > 0 ? (rent / trendMax) * 100 : 0}%` }}
+                          />
+                        ))}
+                    </div>
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td className="px-4 py-2.5 text-sm text-slate-500">Forecast growth</td>
+                {suburbs.map((s) => (
+                  <td key={s.suburb_key} className={cellClass("rent_growth_pct", s.suburb_key)}>
+                    {s.rent_growth_pct != null ? `${s.rent_growth_pct > 0 ? "+" : ""}${s.rent_growth_pct}%/yr` : "N/A"}
+                  </td>
+                ))}
+              </tr>
+
+              {/* ---- Dwelling mix ---- */}
+              <SectionRow icon={<Building2 className="h-4 w-4" />} title="Dwelling mix" span={suburbs.length} />
+              {DWELLING_TYPES.map((type) => (
+                <tr key={type}>
+                  <td className="px-4 py-2.5 text-sm text-slate-500">{type}</td>
+                  {suburbs.map((s) => (
+                    <td key={s.suburb_key} className="px-4 py-2.5 text-sm text-slate-700">
+                      {s.dwelling_types[type] != null ? `${s.dwelling_types[type]}%` : "—"}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              <tr>
+                <td className="px-4 py-2.5 text-sm text-slate-500">Rentals (2021–2025)</td>
+                {suburbs.map((s) => (
+                  <td key={s.suburb_key} className={cellClass("total_bonds", s.suburb_key)}>
+                    {s.total_bonds.toLocaleString("en-AU")}
+                  </td>
+                ))}
+              </tr>
+
+              {/* ---- Amenities ---- */}
+              <SectionRow icon={<Star className="h-4 w-4" />} title="Amenities" span={suburbs.length} />
+              <tr>
+                <td className="px-4 py-2.5 text-sm text-slate-500">Amenity score</td>
+                {suburbs.map((s) => (
+                  <td key={s.suburb_key} className={cellClass("amenity_score", s.suburb_key)}>
+                    {s.amenity_score}/100
+                  </td>
+                ))}
+              </tr>
+
+              {/* ---- Transport ---- */}
+              <SectionRow icon={<Train className="h-4 w-4" />} title="Transport" span={suburbs.length} />
+              <tr>
+                <td className="px-4 py-2.5 text-sm text-slate-500">Stations within 0.5 km</td>
+                {suburbs.map((s) => (
+                  <td key={s.suburb_key} className={cellClass("nearby_stations", s.suburb_key)}>
+                    {s.nearby_stations.length > 0 ? (
+                      <>
+                        {s.nearby_stations.length}
+                        <span className="ml-1 text-xs font-normal text-slate-400">
+                          {s.nearby_stations.map((st) => st.name).join(", ")}
+                        </span>
+                      </>
+                    ) : (
+                      "0"
+                    )}
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td className="px-4 py-2.5 text-sm text-slate-500">Nearest station</td>
+                {suburbs.map((s) => (
+                  <td key={s.suburb_key} className={cellClass("nearest_station", s.suburb_key)}>
+                    {s.nearest_station ? `${s.nearest_station.name} (${s.nearest_station.distance_km} km)` : "N/A"}
+                  </td>
+                ))}
+              </tr>
+
+              {/* ---- Commute ---- */}
+              {data.workplace && (
+                <>
+                  <SectionRow
+                    icon={<Briefcase className="h-4 w-4" />}
+                    title={`Commute to ${data.workplace.suburb_name ?? data.workplace.postcode}`}
+                    span={suburbs.length}
+                  />
+                  <tr>
+                    <td className="px-4 py-2.5 text-sm text-slate-500">Door to door</td>
+                    {suburbs.map((s) => (
+                      <td key={s.suburb_key} className={cellClass("commute", s.suburb_key)}>
+                        {s.commute ? (
+                          <>
+                            {s.commute.minutes} min
+                            <span className="ml-1 text-xs font-normal text-slate-400">
+                              ({commuteSourceLabel(s.commute.source)})
+                            </span>
+                          </>
+                        ) : (
+                          "N/A"
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                </>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="mt-3 text-xs text-slate-400">
+          <span className="mr-1 inline-block h-2.5 w-2.5 rounded-sm bg-emerald-100 align-middle" />
+          Best value in each row
+        </p>
+      </div>
+    </div>
+  );
+}
+
+function SectionRow({ icon, title, span }: { icon: React.ReactNode; title: string; span: number }) {
+  return (
+    <tr className="bg-slate-50/70">
+      <td colSpan={span + 1} className="px-4 py-2">
+        <span className="flex items-center gap-2 text-xs font-semibold uppercase tracking-wide text-primary">
+          {icon}
+          {title}
+        </span>
+      </td>
+    </tr>
+  );
+}
@@ -17,6 +17,7 @@ import {
   X,
 } from "lucide-react";
 import MapWrapper from "@/components/MapWrapper";
+import SavedPanel from "@/components/SavedPanel";
 import type { Suburb } from "@/lib/suburbs";
 
 // ---------------------------------------------------------------------------
@@ -124,6 +125,7 @@ export default function HomePage() {
   const [incomeAmount, setIncomeAmount] = useState("");
   const [incomePeriod, setIncomePeriod] = useState<IncomePeriod>("weekly");
   const [incomeType, setIncomeType] = useState<"takehome" | "gross">("takehome");
+  const [hasHelpDebt, setHasHelpDebt] = useState(false);
   const [bedrooms, setBedrooms] = useState("2");
   const [sharing, setSharing] = useState(1);
   const [shareBedroom, setShareBedroom] = useState(false);
@@ -142,6 +144,7 @@ export default function HomePage() {
         if (v.incomeAmount) setIncomeAmount(v.incomeAmount);
         if (v.incomePeriod) setIncomePeriod(v.incomePeriod);
         if (v.incomeType) setIncomeType(v.incomeType);
+        if (v.hasHelpDebt) setHasHelpDebt(v.hasHelpDebt);
         if (v.bedrooms) setBedrooms(v.bedrooms);
         if (v.sharing) setSharing(v.sharing);
         if (v.shareBedroom) setShareBedroom(v.shareBedroom);
@@ -154,16 +157,17 @@ export default function HomePage() {
   useEffect(() => {
     try {
       sessionStorage.setItem("rentsmart_form", JSON.stringify({
-        searchMode, incomeAmount, incomePeriod, incomeType, bedrooms, sharing, shareBedroom, workplaceText,
+        searchMode, incomeAmount, incomePeriod, incomeType, hasHelpDebt, bedrooms, sharing, shareBedroom, workplaceText,
       }));
     } catch { /* quota */ }
-  }, [searchMode, incomeAmount, incomePeriod, incomeType, bedrooms, sharing, shareBedroom, workplaceText]);
+  }, [searchMode, incomeAmount, incomePeriod, incomeType, hasHelpDebt, bedrooms, sharing, shareBedroom, workplaceText]);
 
   const handleClear = useCallback(() => {
     setSearchMode("budget");
     setIncomeAmount("");
     setIncomePeriod("weekly");
     setIncomeType("takehome");
+    setHasHelpDebt(false);
     setBedrooms("2");
     setSharing(1);
     setShareBedroom(false);
@@ -232,6 +236,12 @@ export default function HomePage() {
         mode: searchMode,
       });
 
+      // Income mode: tell the API which side of tax the figure is on
+      if (searchMode === "income") {
+        params.set("income_type", incomeType);
+        if (hasHelpDebt) params.set("help", "1");
+      }
+
       if (sharing > 1) {
         params.set("sharing", String(sharing));
         if (sharing === 2 && shareBedroom) {
@@ -250,7 +260,7 @@ export default function HomePage() {
       params.set("_t", String(Date.now()));
       router.push(`/results?${params}`);
     },
-    [incomeAmount, incomePeriod, searchMode, bedrooms, sharing, shareBedroom, workplaceText, router],
+    [incomeAmount, incomePeriod, searchMode, incomeType, hasHelpDebt, bedrooms, sharing, shareBedroom, workplaceText, router],
   );
 
   // Sharing preview: estimated per-person rent
@@ -448,9 +458,18 @@ export default function HomePage() {
                       Before tax
                     </label>
                   </div>
+                  <label className="mt-2 flex cursor-pointer items-center gap-1.5 text-xs text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={hasHelpDebt}
+                      onChange={(e) => setHasHelpDebt(e.target.checked)}
+                      className="h-3.5 w-3.5 rounded border-slate-300 text-[#1e3a5f] focus:ring-[#1e3a5f]/30"
+                    />
+                    I have a HECS/HELP debt
+                  </label>
                   {incomeType === "gross" && (
-                    <p className="mt-1 text-[11px] text-amber-600">
-                      Tip: Rent affordability is more accurate with take-home pay
+                    <p className="mt-1 text-[11px] text-slate-500">
+                      We&apos;ll convert this to take-home pay using current ATO tax rates
                     </p>
                   )}
                 </>
@@ -633,6 +652,9 @@ export default function HomePage() {
         </form>
       </section>
 
+      {/* Saved searches, shortlists, recently viewed */}
+      <SavedPanel />
+
     </div>
   );
 }
@@ -1,7 +1,7 @@
 "use client";
 
 import { Suspense, useState, useEffect, useMemo, useRef, useCallback } from "react";
-import { useSearchParams } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import {
   ArrowLeft,
@@ -29,26 +29,49 @@ import {
   SlidersHorizontal,
   ChevronDown,
   X,
+  TrendingUp,
+  Bookmark,
+  Bike,
+  Stethoscope,
 } from "lucide-react";
 import MapWrapper from "@/components/MapWrapper";
-import type { Suburb } from "@/lib/suburbs";
+import type { MapArea } from "@/components/SydneyMap";
+import type { DwellingRentBasis, Suburb } from "@/lib/suburbs";
+import type { CommuteCost } from "@/lib/commute-cost";
+import type { HealthcareAccess } from "@/lib/healthcare";
+import type { PoiCategory } from "@/lib/poi";
+import { AMENITY_PROFILE_IDS, AMENITY_PROFILES, type RuleOutcome, type WalkOutcome } from "@/lib/amenity-profiles";
+import { EMPLOYMENT_HUBS, hubDistanceField, hubDistances, HUB_IDS, type HubDistances, type HubId } from "@/lib/hubs";
+import {
+  compareForSort,
+  estimateCommuteMinutes,
+  sortHub,
+  type RankFields,
+  type ScoreBreakdown,
+  type SortMode,
+} from "@/lib/scoring";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-interface RecommendedSuburb {
+interface RecommendedSuburb extends HubDistances {
   suburb_key: string;
   postcode: string;
   suburb_name: string | null;
   lat: number | null;
   lng: number | null;
   median_rent: number;
-  rent_stress_pct: number;
+  rent_stress_pct: number | null;
+  rent_stress_pct_gross: number | null;
+  budget_used_pct: number | null;
+  headroom: number | null;
+  rent_share_pct: number;
   affordability_score: number;
-  rating: string;
+  rating: string | null;
   total_bonds: number;
   rent_trend: Record<string, number>;
+  rent_in_12_months: number | null;
   dwelling_types: Record<string, number>;
   nearest_station: {
     name: string;
@@ -58,6 +81,14 @@ interface RecommendedSuburb {
   } | null;
   commute_minutes: number | null;
   commute_label: string | null;
+  estimated_commute_min: number | null; // commute the server scored and ranked on
+  cycling_minutes: number | null;
+  commute_cost: CommuteCost | null;
+  true_weekly_cost: number | null;
+  // Scored by /api/recommend, so the page ranks exactly as the API does
+  overall_score: number;
+  score_breakdown: ScoreBreakdown;
+  amenity_score: number;
   // Sharing fields
   sharing_mode: number;
   total_rent: number;
@@ -65,11 +96,23 @@ interface RecommendedSuburb {
   solo_rent: number | null;
   savings_vs_solo: number | null;
   rent_estimated: boolean;
+  dwelling_rent_basis: DwellingRentBasis | null;
 }
 
 interface RecommendResponse {
-  income_weekly: number;
+  mode: "income" | "budget";
+  income_weekly: number | null;
+  budget_weekly: number | null;
   bedrooms: number | string;
+  dwelling: string | null;
+  max_hub_km: Partial<Record<HubId, number>>;
+  max_cycle_min: number | null;
+  max_commute_min: number | null;
+  commute_isochrone: GeoJSON.Feature | null;
+  max_poi_m: Partial<Record<PoiCategory, number>>;
+  poi_coverage: number;
+  cost_mode: "transit" | "driving";
+  concession: boolean;
   sharing_mode: number;
   workplace: string | null;
   workplace_postcode: string | null;
@@ -81,8 +124,6 @@ interface RecommendResponse {
   suburbs: RecommendedSuburb[];
 }
 
-type SortMode = "best_overall" | "shortest_commute" | "best_affordability" | "lowest_rent";
-
 interface SortOption {
   value: SortMode;
   label: string;
@@ -97,6 +138,7 @@ interface AmenitySummary {
   school_count: number;
   university_count: number;
   fire_station_count: number;
+  medical_center_count: number;
   police_count: number;
   childcare_count: number;
 }
@@ -104,17 +146,26 @@ interface AmenitySummary {
 interface CommuteData {
   transit: { duration_min: number; transfers: number; modes: string[]; summary: string } | null;
   driving: { duration_min: number; distance_km: number; traffic_note: string } | null;
+  cycling: { duration_min: number; distance_km: number; estimated: boolean } | null;
   straight_line_km: number;
 }
 
+interface AmenityResult {
+  summary: AmenitySummary;
+  score: number;
+  rules: RuleOutcome[];
+  walk_rules: WalkOutcome[];
+  healthcare: HealthcareAccess;
+}
+
 interface SuburbEnriched extends RecommendedSuburb {
   haversine_km: number | null;
-  estimated_commute_min: number | null;
   amenities: AmenitySummary | null;
-  amenity_score: number;
+  amenity_rules: RuleOutcome[] | null;
+  amenity_walk_rules: WalkOutcome[] | null;
+  healthcare: HealthcareAccess | null;
   commute_real: CommuteData | null;
   commute_loading: boolean;
-  overall_score: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -128,6 +179,74 @@ const BEDROOM_LABELS: Record<string, string> = {
   "4": "4-bedroom",
 };
 
+/** Dwelling-type filter options; "" searches every type. */
+const DWELLING_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "Any type" },
+  { value: "house", label: "House" },
+  { value: "flat", label: "Unit" },
+  { value: "townhouse", label: "Townhouse" },
+];
+
+/** Bike-friendly commute caps (max_cycle_min); "" turns the filter off. */
+const BIKE_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "Any commute" },
+  { value: "15", label: "Bike ≤ 15 min" },
+  { value: "20", label: "Bike ≤ 20 min" },
+  { value: "30", label: "Bike ≤ 30 min" },
+  { value: "45", label: "Bike ≤ 45 min" },
+];
+
+/** POI distance caps /api/recommend takes; like the hub caps they pass straight through. */
+const POI_CAP_PARAMS = ["max_supermarket_m", "max_pharmacy_m", "max_park_m", "max_gym_m", "max_library_m"] as const;
+type PoiCapParam = (typeof POI_CAP_PARAMS)[number];
+
+const POI_NOUNS: Record<PoiCategory, string> = {
+  supermarkets: "supermarket",
+  pharmacies: "pharmacy",
+  parks: "park",
+  gyms: "gym",
+  libraries: "library",
+};
+
+/** Walking-distance presets over the POI caps; "" turns them off. */
+const WALK_OPTIONS: { value: string; label: string; caps: Partial<Record<PoiCapParam, string>> }[] = [
+  { value: "", label: "Any walkability", caps: {} },
+  { value: "supermarket", label: "Supermarket ≤ 1 km", caps: { max_supermarket_m: "1000" } },
+  { value: "daily", label: "Shops + pharmacy ≤ 1 km", caps: { max_supermarket_m: "1000", max_pharmacy_m: "1000" } },
+  { value: "park", label: "Park ≤ 500 m", caps: { max_park_m: "500" } },
+  { value: "gym", label: "Gym ≤ 1 km", caps: { max_gym_m: "1000" } },
+];
+
+/** updateSearch values setting every POI cap to `caps` (unset ones cleared). */
+function poiCapUpdates(caps: Partial<Record<PoiCapParam, string>> = {}): Record<PoiCapParam, string> {
+  return Object.fromEntries(POI_CAP_PARAMS.map((name) => [name, caps[name] ?? ""])) as Record<PoiCapParam, string>;
+}
+
+/** Drive-time areas around the workplace (max_commute_min); "" turns the filter off. */
+const DRIVE_OPTIONS: { value: string; label: string }[] = [
+  { value: "", label: "Any distance" },
+  { value: "20", label: "Drive ≤ 20 min" },
+  { value: "30", label: "Drive ≤ 30 min" },
+  { value: "45", label: "Drive ≤ 45 min" },
+  { value: "60", label: "Drive ≤ 60 min" },
+];
+
+/** Who the amenity score is for (amenity_profile); "" is the balanced default. */
+const AMENITY_OPTIONS: { value: string; label: string }[] = AMENITY_PROFILE_IDS.map((id) => ({
+  value: id === "balanced" ? "" : id,
+  label: `Amenities: ${AMENITY_PROFILES[id].label}`,
+}));
+
+/** How the commute is costed — sets cost_mode and concession. */
+const COST_OPTIONS: { value: string; label: string }[] = [
+  { value: "transit", label: "Opal fares" },
+  { value: "concession", label: "Opal concession" },
+  { value: "driving", label: "Driving costs" },
+];
+
+/** Most suburbs /compare lines up side by side. */
+const MAX_COMPARE = 4;
+
 const SORT_OPTIONS: SortOption[] = [
   {
     value: "best_overall",
@@ -136,8 +255,8 @@ const SORT_OPTIONS: SortOption[] = [
     icon: <Trophy className="h-3.5 w-3.5" />,
     description: (_wp, isIncome) =>
       isIncome
-        ? "Balanced score of rental stress, commute, amenities & supply"
-        : "Balanced score of affordability, commute, amenities & supply",
+        ? "Balanced score of rental stress, commute, amenities, healthcare & supply"
+        : "Balanced score of affordability, commute, amenities, healthcare & supply",
   },
   {
     value: "shortest_commute",
@@ -164,8 +283,25 @@ const SORT_OPTIONS: SortOption[] = [
     icon: <DollarSign className="h-3.5 w-3.5" />,
     description: () => "All Sydney suburbs sorted by cheapest weekly rent",
   },
+  {
+    value: "lowest_true_cost",
+    label: "Lowest True Cost",
+    shortLabel: "True cost",
+    icon: <PiggyBank className="h-3.5 w-3.5" />,
+    needsWorkplace: true,
+    description: (wp) => `Rent plus the weekly cost of commuting to ${wp ?? "your workplace"}`,
+  },
 ];
 
+/** Distance-to-hub sorts — offered from a dropdown rather than as pills. */
+const HUB_SORT_OPTIONS: SortOption[] = HUB_IDS.map((hub) => ({
+  value: `nearest_${hub}`,
+  label: `Nearest ${EMPLOYMENT_HUBS[hub].label}`,
+  shortLabel: EMPLOYMENT_HUBS[hub].label,
+  icon: <Briefcase className="h-3.5 w-3.5" />,
+  description: () => `Sorted by straight-line distance to ${EMPLOYMENT_HUBS[hub].label}`,
+}));
+
 // ---------------------------------------------------------------------------
 // Facility filters
 // ---------------------------------------------------------------------------
@@ -177,6 +313,7 @@ interface FacilityFilters {
   train: boolean;
   fireStation: boolean;
   childcare: boolean;
+  bulkBillingGp: boolean;
 }
 
 const DEFAULT_FILTERS: FacilityFilters = {
@@ -186,8 +323,12 @@ const DEFAULT_FILTERS: FacilityFilters = {
   train: false,
   fireStation: false,
   childcare: false,
+  bulkBillingGp: false,
 };
 
+/** "Near bulk-billing GP" means one within this distance of the suburb's centre. */
+const BULK_BILLING_GP_KM = 2;
+
 const FACILITY_FILTER_OPTIONS: { key: keyof FacilityFilters; label: string; icon: React.ReactNode }[] = [
   { key: "hospital", label: "Hospital", icon: <Heart className="h-3.5 w-3.5" /> },
   { key: "school", label: "School", icon: <School className="h-3.5 w-3.5" /> },
@@ -195,6 +336,7 @@ const FACILITY_FILTER_OPTIONS: { key: keyof FacilityFilters; label: string; icon
   { key: "train", label: "Train", icon: <Train className="h-3.5 w-3.5" /> },
   { key: "fireStation", label: "Fire Stn", icon: <Flame className="h-3.5 w-3.5" /> },
   { key: "childcare", label: "Childcare", icon: <Baby className="h-3.5 w-3.5" /> },
+  { key: "bulkBillingGp", label: "Bulk-billing GP", icon: <Stethoscope className="h-3.5 w-3.5" /> },
 ];
 
 interface FilterPreset {
@@ -206,7 +348,7 @@ interface FilterPreset {
 const FILTER_PRESETS: FilterPreset[] = [
   { label: "Family Friendly", icon: <Users className="h-3.5 w-3.5" />, filters: { hospital: true, school: true, childcare: true } },
   { label: "Transit Access", icon: <Train className="h-3.5 w-3.5" />, filters: { train: true } },
-  { label: "Near Health", icon: <Heart className="h-3.5 w-3.5" />, filters: { hospital: true } },
+  { label: "Near Health", icon: <Heart className="h-3.5 w-3.5" />, filters: { hospital: true, bulkBillingGp: true } },
 ];
 
 // ---------------------------------------------------------------------------
@@ -223,11 +365,40 @@ function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
 }
 
-function estimateCommuteMinutes(distKm: number): number {
-  if (distKm < 3) return Math.max(5, Math.round(distKm * 12));
-  if (distKm < 10) return Math.round(15 + distKm * 2);
-  if (distKm < 30) return Math.round(20 + distKm * 1.8);
-  return Math.round(30 + distKm * 1.5);
+/** Ranking inputs — the server's scores and commute, as /api/recommend sorts on. */
+function rankFields(s: SuburbEnriched): RankFields {
+  return {
+    overall_score: s.overall_score,
+    rent_share_pct: s.rent_share_pct,
+    median_rent: s.median_rent,
+    true_weekly_cost: s.true_weekly_cost,
+    commute_minutes: s.estimated_commute_min,
+    distance_km: s.haversine_km,
+    ...hubDistances(s),
+  };
+}
+
+function scoreTitle(b: ScoreBreakdown): string {
+  const parts = [`Affordability ${b.affordability}`];
+  if (b.commute != null) parts.push(`Commute ${b.commute}`);
+  parts.push(`Amenities ${b.amenity}`, `Healthcare ${b.healthcare}`, `Supply ${b.supply}`);
+  return parts.join(" · ");
+}
+
+/**
+ * Rule-by-rule amenity score, e.g. "✓ Hospital within 2 km +25 · ✗ 3+ schools
+ * within 5 km (1 found) · Parks within walking distance +6/10".
+ */
+function amenityTitle(score: number, rules: RuleOutcome[], walkRules: WalkOutcome[]): string {
+  const lines = rules.map((r) =>
+    r.earned > 0 ? `✓ ${r.description} +${r.earned}` : `✗ ${r.description} (${r.found} found)`,
+  );
+  const walkLines = walkRules.map((r) =>
+    r.walk_score === null
+      ? `– ${r.description} (not yet mapped)`
+      : `${r.earned > 0 ? "✓" : "✗"} ${r.description} +${Math.round(r.earned)}/${r.points}`,
+  );
+  return [`Amenity score ${score}/100`, ...lines, ...walkLines].join("\n");
 }
 
 function budgetBadge(stressPct: number): { label: string; color: string; bg: string } {
@@ -275,15 +446,43 @@ function ResultsContentKeyed() {
 
 function ResultsContent() {
   const searchParams = useSearchParams();
+  const router = useRouter();
 
   const mode = searchParams.get("mode") ?? "budget";
   const isIncomeMode = mode === "income";
   const originalIncome = Number(searchParams.get("income") ?? 0);
   const incomePeriod = searchParams.get("period") ?? "annual";
   const bedrooms = searchParams.get("bedrooms") ?? "2";
+  const dwelling = searchParams.get("dwelling") ?? "";
+  const dwellingLabel = DWELLING_OPTIONS.find((o) => o.value === dwelling && o.value)?.label.toLowerCase() ?? null;
   const workplace = searchParams.get("workplace") ?? "";
+  const maxCycleMin = workplace ? searchParams.get("max_cycle_min") ?? "" : "";
+  const maxCommuteMin = workplace ? searchParams.get("max_commute_min") ?? "" : "";
+  const amenityProfile = searchParams.get("amenity_profile") ?? "";
+  const costMode = searchParams.get("cost_mode") === "driving" ? "driving" : "transit";
+  const concession = costMode === "transit" && searchParams.get("concession") === "1";
+  const costOption = costMode === "driving" ? "driving" : concession ? "concession" : "transit";
+  // Hub distance caps (max_cbd_km, ...) pass straight through to the API
+  const hubCapQuery = new URLSearchParams(
+    HUB_IDS.flatMap((hub) => {
+      const value = searchParams.get(`max_${hub}_km`);
+      return value ? [[`max_${hub}_km`, value]] : [];
+    }),
+  ).toString();
+  const poiCapQuery = new URLSearchParams(
+    POI_CAP_PARAMS.flatMap((name) => {
+      const value = searchParams.get(name);
+      return value ? [[name, value]] : [];
+    }),
+  ).toString();
+  // The preset the caps match; "custom" for caps set some other way (e.g. a shared link)
+  const walkOption =
+    WALK_OPTIONS.find((o) => POI_CAP_PARAMS.every((name) => (searchParams.get(name) ?? "") === (o.caps[name] ?? "")))
+      ?.value ?? "custom";
   const sharingMode = Math.min(4, Math.max(1, Number(searchParams.get("sharing") ?? 1) || 1));
   const shareBedroom = searchParams.get("share_bedroom") === "1";
+  const incomeType = searchParams.get("income_type") ?? "";
+  const hasHelpDebt = searchParams.get("help") === "1";
   const isSharing = sharingMode > 1;
   // Prefer explicit weekly param; fall back to income/52 for old-format URLs
   const weeklyIncome = Number(searchParams.get("weekly") ?? 0) || Math.round(originalIncome / 52);
@@ -319,7 +518,14 @@ function ResultsContent() {
     } catch { /* ignore */ }
     return null;
   });
-  const [amenityCache, setAmenityCache] = useState<Record<string, { summary: AmenitySummary; score: number }>>({});
+  const [compareKeys, setCompareKeys] = useState<string[]>(() => {
+    try {
+      const saved = sessionStorage.getItem(stateKey);
+      if (saved) return (JSON.parse(saved).compareKeys as string[] | undefined) ?? [];
+    } catch { /* ignore */ }
+    return [];
+  });
+  const [amenityCache, setAmenityCache] = useState<Record<string, AmenityResult>>({});
   const [commuteCache, setCommuteCache] = useState<Record<string, CommuteData>>({});
   const [commuteLoading, setCommuteLoading] = useState<Set<string>>(new Set());
   const commuteRequestedRef = useRef<Set<string>>(new Set());
@@ -333,9 +539,10 @@ function ResultsContent() {
         sortMode,
         filters: facilityFilters,
         selectedSuburbKey,
+        compareKeys,
       }));
     } catch { /* quota */ }
-  }, [stateKey, sortMode, facilityFilters, selectedSuburbKey]);
+  }, [stateKey, sortMode, facilityFilters, selectedSuburbKey, compareKeys]);
 
   const activeFilterCount = Object.values(facilityFilters).filter(Boolean).length;
   const anyFilterActive = activeFilterCount > 0;
@@ -368,6 +575,86 @@ function ResultsContent() {
     setSelectedSuburbKey(null);
   }, []);
 
+  const toggleCompare = useCallback((suburbKey: string) => {
+    setCompareKeys((prev) =>
+      prev.includes(suburbKey)
+        ? prev.filter((k) => k !== suburbKey)
+        : prev.length < MAX_COMPARE ? [...prev, suburbKey] : prev,
+    );
+  }, []);
+
+  // --- Persist this search / the compare selection for this device ---
+  const [savedSearch, setSavedSearch] = useState<"idle" | "saving" | "saved">("idle");
+  const [savedShortlist, setSavedShortlist] = useState<string | null>(null);
+
+  const saveSearch = useCallback(() => {
+    const params: Record<string, string> = { mode, income: String(weeklyIncome), bedrooms, sort: sortMode };
+    if (isIncomeMode && incomeType) params.income_type = incomeType;
+    if (isIncomeMode && hasHelpDebt) params.help = "1";
+    if (dwelling) params.dwelling = dwelling;
+    new URLSearchParams(hubCapQuery).forEach((value, key) => { params[key] = value; });
+    new URLSearchParams(poiCapQuery).forEach((value, key) => { params[key] = value; });
+    if (workplace) params.workplace = workplace;
+    if (maxCycleMin) params.max_cycle_min = maxCycleMin;
+    if (maxCommuteMin) params.max_commute_min = maxCommuteMin;
+    if (amenityProfile) params.amenity_profile = amenityProfile;
+    if (workplace && costMode !== "transit") params.cost_mode = costMode;
+    if (workplace && concession) params.concession = "1";
+    if (sharingMode > 1) {
+      params.sharing = String(sharingMode);
+      if (shareBedroom) params.share_bedroom = "1";
+    }
+    const rental = `${BEDROOM_LABELS[bedrooms] ?? bedrooms}${dwellingLabel ? ` ${dwellingLabel}` : ""}`;
+    const name = `${rental} · ${incomeDisplay}${workplace ? ` · near ${workplace}` : ""}`;
+
+    setSavedSearch("saving");
+    fetch("/api/saved-searches", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, params }),
+    })
+      .then((r) => setSavedSearch(r.ok ? "saved" : "idle"))
+      .catch(() => setSavedSearch("idle"));
+  }, [mode, weeklyIncome, bedrooms, dwelling, dwellingLabel, hubCapQuery, poiCapQuery, sortMode, isIncomeMode, incomeType, hasHelpDebt, workplace, maxCycleMin, maxCommuteMin, amenityProfile, costMode, concession, sharingMode, shareBedroom, incomeDisplay]);
+
+  // Switching dwelling type, the bike, drive-time or walking filter, how
+  // commutes are costed or the amenity profile is a new search — the keyed
+  // remount refetches
+  const updateSearch = useCallback((updates: Partial<Record<"dwelling" | "max_cycle_min" | "max_commute_min" | "cost_mode" | "concession" | "amenity_profile" | PoiCapParam, string>>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(updates)) {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    }
+    router.replace(`/results?${params}`);
+  }, [searchParams, router]);
+
+  const saveShortlist = useCallback(() => {
+    const keys = compareKeys.join(",");
+    fetch("/api/shortlists", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        name: `Shortlist ${new Date().toLocaleDateString("en-AU")}`,
+        suburb_keys: compareKeys,
+      }),
+    })
+      .then((r) => { if (r.ok) setSavedShortlist(keys); })
+      .catch(() => {});
+  }, [compareKeys]);
+
+  // /compare link — carries income + workplace so stress and commute rows match this search
+  const compareHref = (() => {
+    const params = new URLSearchParams({ keys: compareKeys.join(",") });
+    if (isIncomeMode) {
+      params.set("income", String(weeklyIncome));
+      if (incomeType) params.set("income_type", incomeType);
+      if (hasHelpDebt) params.set("help", "1");
+    }
+    if (workplace) params.set("workplace", workplace);
+    return `/compare?${params}`;
+  })();
+
   // -------------------------------------------------------------------
   // Fetch recommendations (with sessionStorage caching for back-nav)
   // -------------------------------------------------------------------
@@ -378,8 +665,18 @@ function ResultsContent() {
       return;
     }
 
-    const params = new URLSearchParams({ income: String(weeklyIncome), bedrooms });
+    const params = new URLSearchParams({ income: String(weeklyIncome), bedrooms, mode });
+    if (dwelling) params.set("dwelling", dwelling);
+    new URLSearchParams(hubCapQuery).forEach((value, key) => params.set(key, value));
+    new URLSearchParams(poiCapQuery).forEach((value, key) => params.set(key, value));
     if (workplace) params.set("workplace", workplace);
+    if (maxCycleMin) params.set("max_cycle_min", maxCycleMin);
+    if (maxCommuteMin) params.set("max_commute_min", maxCommuteMin);
+    if (amenityProfile) params.set("amenity_profile", amenityProfile);
+    if (workplace && costMode !== "transit") params.set("cost_mode", costMode);
+    if (workplace && concession) params.set("concession", "1");
+    if (incomeType) params.set("income_type", incomeType);
+    if (hasHelpDebt) params.set("help", "1");
     if (sharingMode > 1) {
       params.set("sharing", String(sharingMode));
       if (shareBedroom) params.set("share_bedroom", "1");
@@ -410,88 +707,76 @@ function ResultsContent() {
       })
       .catch(() => setError("Network error. Please try again."))
       .finally(() => setLoading(false));
-  }, [weeklyIncome, bedrooms, workplace, sharingMode, shareBedroom]);
+  }, [weeklyIncome, bedrooms, dwelling, hubCapQuery, poiCapQuery, mode, workplace, maxCycleMin, maxCommuteMin, amenityProfile, costMode, concession, incomeType, hasHelpDebt, sharingMode, shareBedroom]);
 
   const hasWorkplace = !!(data?.workplace_lat != null && data?.workplace_lng != null);
 
   // -------------------------------------------------------------------
-  // Fetch amenities for all postcodes (batched)
+  // Fetch amenities for all suburbs (batched)
   // -------------------------------------------------------------------
   useEffect(() => {
     if (!data) return;
-    const postcodes = data.suburbs.map((s) => s.postcode).filter((pc) => !amenityCache[pc]);
-    if (postcodes.length === 0) return;
+    const suburbKeys = data.suburbs.map((s) => s.suburb_key).filter((key) => !amenityCache[key]);
+    if (suburbKeys.length === 0) return;
 
     // Fetch in batches of 10
     const batchSize = 10;
+    const profileQuery = amenityProfile ? `&amenity_profile=${amenityProfile}` : "";
     let cancelled = false;
 
     async function fetchBatch(batch: string[]) {
       const results = await Promise.allSettled(
-        batch.map((pc) =>
-          fetch(`/api/amenities?postcode=${pc}`)
+        batch.map((key) =>
+          fetch(`/api/amenities?suburb_key=${encodeURIComponent(key)}${profileQuery}`)
             .then((r) => r.json())
-            .then((d) => ({ postcode: pc, summary: d.summary as AmenitySummary, score: d.score as number })),
+            .then((d) => ({
+              suburb_key: key,
+              result: { summary: d.summary, score: d.score, rules: d.score_rules, walk_rules: d.score_walk_rules, healthcare: d.healthcare } as AmenityResult,
+            })),
         ),
       );
       if (cancelled) return;
-      const updates: Record<string, { summary: AmenitySummary; score: number }> = {};
+      const updates: Record<string, AmenityResult> = {};
       for (const r of results) {
         if (r.status === "fulfilled") {
-          updates[r.value.postcode] = { summary: r.value.summary, score: r.value.score };
+          updates[r.value.suburb_key] = r.value.result;
         }
       }
       setAmenityCache((prev) => ({ ...prev, ...updates }));
     }
 
     (async () => {
-      for (let i = 0; i < postcodes.length; i += batchSize) {
+      for (let i = 0; i < suburbKeys.length; i += batchSize) {
         if (cancelled) break;
-        await fetchBatch(postcodes.slice(i, i + batchSize));
+        await fetchBatch(suburbKeys.slice(i, i + batchSize));
       }
     })();
 
     return () => { cancelled = true; };
-  }, [data, amenityCache]);
+  }, [data, amenityCache, amenityProfile]);
 
   // -------------------------------------------------------------------
-  // Enrich suburbs with haversine + estimated commute + amenities
+  // Enrich suburbs with haversine + amenities + live commute details. Scores
+  // come from /api/recommend as-is; live commute data is for display only.
   // -------------------------------------------------------------------
   const enriched = useMemo<SuburbEnriched[]>(() => {
     if (!data) return [];
     return data.suburbs.map((s) => {
       let haversineKm: number | null = null;
-      let estCommute: number | null = null;
       if (hasWorkplace && s.lat != null && s.lng != null) {
         haversineKm = Math.round(haversineDistance(s.lat, s.lng, data.workplace_lat!, data.workplace_lng!) * 10) / 10;
-        estCommute = estimateCommuteMinutes(haversineKm);
       }
 
-      const am = amenityCache[s.postcode] ?? null;
-      const amenityScore = am?.score ?? 0;
-
-      // Commute time for scoring — prefer real transit, fallback to estimate
-      const realCommute = commuteCache[s.postcode] ?? null;
-      const transitMin = realCommute?.transit?.duration_min ?? estCommute ?? 999;
-
-      // Overall score: 0.35 affordability, 0.35 commute, 0.15 amenities, 0.15 supply
-      const affordScore = Math.max(0, 100 - s.rent_stress_pct * 2);
-      const commuteScore = Math.max(0, 100 - transitMin * 1.5);
-      const supplyScore = Math.min(s.total_bonds / 10, 100);
-
-      const overall = hasWorkplace
-        ? Math.round(affordScore * 0.35 + commuteScore * 0.35 + amenityScore * 0.15 + supplyScore * 0.15)
-        : Math.round(affordScore * 0.45 + amenityScore * 0.25 + supplyScore * 0.3);
-
+      const am = amenityCache[s.suburb_key] ?? null;
       return {
         ...s,
         haversine_km: haversineKm,
-        estimated_commute_min: estCommute,
         amenities: am?.summary ?? null,
-        amenity_score: amenityScore,
-        commute_real: realCommute,
+        amenity_rules: am?.rules ?? null,
+        amenity_walk_rules: am?.walk_rules ?? null,
+        healthcare: am?.healthcare ?? null,
+        commute_real: commuteCache[s.postcode] ?? null,
         commute_loading: commuteLoading.has(s.postcode),
-        overall_score: Math.max(0, Math.min(100, overall)),
       };
     });
   }, [data, hasWorkplace, amenityCache, commuteCache, commuteLoading]);
@@ -501,6 +786,8 @@ function ResultsContent() {
   // -------------------------------------------------------------------
   const distanceFiltered = useMemo<SuburbEnriched[]>(() => {
     const list = [...enriched];
+    // A drive-time area already narrowed the search — no radius on top of it
+    if (data?.max_commute_min != null) return list;
     switch (sortMode) {
       case "best_overall":
         return list.filter((s) => !hasWorkplace || (s.haversine_km !== null && s.haversine_km <= 25));
@@ -512,7 +799,7 @@ function ResultsContent() {
       default:
         return list;
     }
-  }, [enriched, sortMode, hasWorkplace]);
+  }, [enriched, data, sortMode, hasWorkplace]);
 
   // -------------------------------------------------------------------
   // Facility-filtered suburbs
@@ -527,6 +814,8 @@ function ResultsContent() {
       if (facilityFilters.train && (!s.nearest_station || s.nearest_station.distance_km > 3)) return false;
       if (facilityFilters.fireStation && s.amenities != null && s.amenities.fire_station_count === 0) return false;
       if (facilityFilters.childcare && s.amenities != null && s.amenities.childcare_count === 0) return false;
+      const gpKm = s.healthcare?.nearest_bulk_billing_gp?.distance_km ?? Infinity;
+      if (facilityFilters.bulkBillingGp && s.healthcare != null && gpKm > BULK_BILLING_GP_KM) return false;
       return true;
     });
   }, [distanceFiltered, facilityFilters, anyFilterActive]);
@@ -535,37 +824,13 @@ function ResultsContent() {
   // Sorted suburbs (after all filters)
   // -------------------------------------------------------------------
   const sorted = useMemo<SuburbEnriched[]>(() => {
-    const list = [...facilityFiltered];
-    switch (sortMode) {
-      case "best_overall":
-        return list.sort((a, b) => b.overall_score - a.overall_score);
-      case "shortest_commute":
-        return list.sort((a, b) => {
-          const aMin = a.commute_real?.transit?.duration_min ?? a.estimated_commute_min ?? 999;
-          const bMin = b.commute_real?.transit?.duration_min ?? b.estimated_commute_min ?? 999;
-          return aMin - bMin;
-        });
-      case "best_affordability":
-        // Sort by rent stress (cheapest relative to income), then by distance (nearest first)
-        return list.sort((a, b) => {
-          const stressDiff = a.rent_stress_pct - b.rent_stress_pct;
-          if (Math.abs(stressDiff) > 3) return stressDiff; // >3% difference: rent wins
-          // Within similar affordability, prefer nearer suburbs
-          const aDist = a.haversine_km ?? 999;
-          const bDist = b.haversine_km ?? 999;
-          return aDist - bDist;
-        });
-      case "lowest_rent":
-        return list.sort((a, b) => a.median_rent - b.median_rent);
-      default:
-        return list;
-    }
+    return [...facilityFiltered].sort((a, b) => compareForSort(sortMode, rankFields(a), rankFields(b)));
   }, [facilityFiltered, sortMode]);
 
   // -------------------------------------------------------------------
   // Fetch real commute data — progressive: first 6, then remaining 14
   // Uses a ref to track already-requested postcodes, preventing re-fetches
-  // when sort order changes due to incoming commute data.
+  // when the enriched list is rebuilt.
   // -------------------------------------------------------------------
   useEffect(() => {
     if (!data || !hasWorkplace) return;
@@ -601,6 +866,8 @@ function ResultsContent() {
         to_lat: String(data!.workplace_lat),
         to_lng: String(data!.workplace_lng),
       });
+      // Bike times are only shown with the bike filter on
+      if (data!.max_cycle_min != null) params.set("modes", "cycling");
       return fetch(`/api/commute?${params}`)
         .then((r) => r.json())
         .then((d) => ({ postcode: s.postcode, data: d as CommuteData }));
@@ -674,11 +941,22 @@ function ResultsContent() {
         rent_stress_pct_3bed: null,
         rent_stress_pct_4bed: null,
         "rent_stress_pct_5+bed": null,
+        ...hubDistances(s),
       }));
   }, [distanceFiltered, weeklyIncome]);
 
   const highlightedSuburbKeys = useMemo(() => new Set(sorted.map((s) => s.suburb_key)), [sorted]);
 
+  // Drive-time area the search was narrowed to, shaded on the map
+  const commuteArea = useMemo<MapArea | null>(() => {
+    if (!data?.commute_isochrone || data.max_commute_min == null) return null;
+    return {
+      feature: data.commute_isochrone,
+      color: "#3b82f6",
+      label: `${data.max_commute_min} min drive of ${data.workplace ?? "work"}`,
+    };
+  }, [data]);
+
   // Scroll to the previously-selected suburb card on back-navigation
   useEffect(() => {
     if (restoredScrollRef.current || !selectedSuburbKey || sorted.length === 0) return;
@@ -702,13 +980,19 @@ function ResultsContent() {
     return result;
   }, [enriched]);
 
-  const activeSortOption = SORT_OPTIONS.find((o) => o.value === sortMode);
+  const activeSortOption = [...SORT_OPTIONS, ...HUB_SORT_OPTIONS].find((o) => o.value === sortMode);
   const sortDescription = activeSortOption?.description(data?.workplace, isIncomeMode) ?? "";
   const availableSorts = SORT_OPTIONS.filter((o) => !o.needsWorkplace || hasWorkplace);
 
   // Count within 30%
   const within30 = useMemo(
-    () => (data?.suburbs ?? []).filter((s) => s.rent_stress_pct <= 30).length,
+    () => (data?.suburbs ?? []).filter((s) => s.rent_share_pct <= 30).length,
+    [data],
+  );
+
+  // Results priced on the suburb-wide median for want of one for the chosen dwelling type
+  const dwellingFallbacks = useMemo(
+    () => (data?.suburbs ?? []).filter((s) => s.dwelling_rent_basis === "all_dwellings").length,
     [data],
   );
 
@@ -771,6 +1055,14 @@ function ResultsContent() {
             <AlertTriangle className="h-8 w-8 text-amber-400" />
           </div>
           <p className="text-lg font-semibold text-slate-700">{error}</p>
+          {poiCapQuery && (
+            <button
+              onClick={() => updateSearch(poiCapUpdates())}
+              className="text-sm font-medium text-primary underline-offset-2 hover:underline"
+            >
+              Search without walking filters
+            </button>
+          )}
           <Link
             href="/"
             className="inline-flex items-center gap-2 rounded-lg bg-primary px-5 py-2.5 text-sm font-medium text-white transition-colors hover:bg-primary-light"
@@ -793,9 +1085,41 @@ function ResultsContent() {
           </div>
           <p className="text-lg font-semibold text-slate-700">No suburbs match your criteria</p>
           <p className="max-w-md text-sm text-slate-500">
-            No suburbs in Greater Sydney have median {BEDROOM_LABELS[bedrooms] ?? ""} rents
-            within your ${weeklyIncome.toLocaleString("en-AU")}/wk income.
+            No suburbs in Greater Sydney have median {BEDROOM_LABELS[bedrooms] ?? ""}
+            {dwellingLabel ? ` ${dwellingLabel}` : ""} rents within your ${weeklyIncome.toLocaleString("en-AU")}/wk income.
           </p>
+          {dwelling && (
+            <button
+              onClick={() => updateSearch({ dwelling: "" })}
+              className="text-sm font-medium text-primary underline-offset-2 hover:underline"
+            >
+              Include every dwelling type
+            </button>
+          )}
+          {maxCycleMin && (
+            <button
+              onClick={() => updateSearch({ max_cycle_min: "" })}
+              className="text-sm font-medium text-primary underline-offset-2 hover:underline"
+            >
+              Include suburbs over {maxCycleMin} min by bike
+            </button>
+          )}
+          {maxCommuteMin && (
+            <button
+              onClick={() => updateSearch({ max_commute_min: "" })}
+              className="text-sm font-medium text-primary underline-offset-2 hover:underline"
+            >
+              Include suburbs over a {maxCommuteMin} min drive
+            </button>
+          )}
+          {poiCapQuery && (
+            <button
+              onClick={() => updateSearch(poiCapUpdates())}
+              className="text-sm font-medium text-primary underline-offset-2 hover:underline"
+            >
+              Include suburbs beyond walking distance
+            </button>
+          )}
           <Link
             href="/"
             className="inline-flex items-center gap-2 rounded-lg bg-accent px-5 py-2.5 text-sm font-medium text-white transition-colors hover:bg-accent-dark"
@@ -829,14 +1153,112 @@ function ResultsContent() {
             <p className="text-xs text-slate-400">
               ${weeklyIncome.toLocaleString("en-AU")}/wk &middot;{" "}
               {BEDROOM_LABELS[bedrooms] ?? bedrooms}
+              {dwellingLabel && <span> {dwellingLabel}</span>}
+              {Object.entries(data.max_hub_km).map(([hub, km]) => (
+                <span key={hub}> &middot; within {km} km of {EMPLOYMENT_HUBS[hub as HubId].label}</span>
+              ))}
               {isSharing && (
                 <span className="font-medium text-blue-500"> &middot; sharing &divide;{sharingMode}</span>
               )}
+              {data.max_cycle_min != null && <span> &middot; ≤ {data.max_cycle_min} min by bike</span>}
+              {data.max_commute_min != null && <span> &middot; ≤ {data.max_commute_min} min drive</span>}
+              {Object.entries(data.max_poi_m).map(([category, m]) => (
+                <span key={category}> &middot; {POI_NOUNS[category as PoiCategory]} ≤ {m} m</span>
+              ))}
+              {Object.keys(data.max_poi_m).length > 0 && (
+                <span title="Walking filters only pass suburbs whose POIs have been mapped">
+                  {" "}({data.poi_coverage} suburbs mapped)
+                </span>
+              )}
               {data.workplace && (
                 <span> &middot; near {data.workplace}{data.workplace_postcode ? ` (${data.workplace_postcode})` : ""}</span>
               )}
             </p>
           </div>
+          <select
+            aria-label="Dwelling type"
+            value={dwelling}
+            onChange={(e) => updateSearch({ dwelling: e.target.value })}
+            className="shrink-0 rounded-lg border border-[#1e3a5f]/20 bg-white px-2 py-1.5 text-xs font-semibold text-[#1e3a5f] hover:border-[#1e3a5f] focus:outline-none"
+          >
+            {DWELLING_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+          {workplace && (
+            <select
+              aria-label="Bike-friendly commute"
+              value={maxCycleMin}
+              onChange={(e) => updateSearch({ max_cycle_min: e.target.value })}
+              className="shrink-0 rounded-lg border border-[#1e3a5f]/20 bg-white px-2 py-1.5 text-xs font-semibold text-[#1e3a5f] hover:border-[#1e3a5f] focus:outline-none"
+            >
+              {BIKE_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          )}
+          {workplace && (
+            <select
+              aria-label="Drive-time area"
+              value={maxCommuteMin}
+              onChange={(e) => updateSearch({ max_commute_min: e.target.value })}
+              className="shrink-0 rounded-lg border border-[#1e3a5f]/20 bg-white px-2 py-1.5 text-xs font-semibold text-[#1e3a5f] hover:border-[#1e3a5f] focus:outline-none"
+            >
+              {DRIVE_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          )}
+          <select
+            aria-label="Walking distance"
+            value={walkOption}
+            onChange={(e) => updateSearch(poiCapUpdates(WALK_OPTIONS.find((o) => o.value === e.target.value)?.caps))}
+            className="shrink-0 rounded-lg border border-[#1e3a5f]/20 bg-white px-2 py-1.5 text-xs font-semibold text-[#1e3a5f] hover:border-[#1e3a5f] focus:outline-none"
+          >
+            {WALK_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+            {walkOption === "custom" && <option value="custom" disabled>Custom walk limits</option>}
+          </select>
+          <select
+            aria-label="Amenity profile"
+            value={amenityProfile}
+            onChange={(e) => updateSearch({ amenity_profile: e.target.value })}
+            className="shrink-0 rounded-lg border border-[#1e3a5f]/20 bg-white px-2 py-1.5 text-xs font-semibold text-[#1e3a5f] hover:border-[#1e3a5f] focus:outline-none"
+          >
+            {AMENITY_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+          {workplace && (
+            <select
+              aria-label="Commute cost"
+              value={costOption}
+              onChange={(e) =>
+                updateSearch({
+                  cost_mode: e.target.value === "driving" ? "driving" : "",
+                  concession: e.target.value === "concession" ? "1" : "",
+                })
+              }
+              className="shrink-0 rounded-lg border border-[#1e3a5f]/20 bg-white px-2 py-1.5 text-xs font-semibold text-[#1e3a5f] hover:border-[#1e3a5f] focus:outline-none"
+            >
+              {COST_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={saveSearch}
+            disabled={savedSearch !== "idle"}
+            className={`inline-flex shrink-0 items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-semibold transition-colors ${
+              savedSearch === "saved"
+                ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                : "border-[#1e3a5f]/20 bg-white text-[#1e3a5f] hover:border-[#1e3a5f] hover:bg-blue-50"
+            }`}
+          >
+            <Bookmark className="h-3.5 w-3.5" />
+            {savedSearch === "saved" ? "Saved" : savedSearch === "saving" ? "Saving…" : "Save search"}
+          </button>
         </div>
 
         {/* Sort pills — horizontal scroll on mobile */}
@@ -858,9 +1280,32 @@ function ResultsContent() {
                   <span className="sm:hidden">{o.shortLabel}</span>
                 </button>
               ))}
+              <select
+                aria-label="Sort by distance to a hub"
+                value={sortHub(sortMode) ? sortMode : ""}
+                onChange={(e) => { if (e.target.value) setSortMode(e.target.value as SortMode); }}
+                className={`shrink-0 snap-start rounded-full px-3 py-1.5 text-sm font-medium transition-all focus:outline-none ${
+                  sortHub(sortMode)
+                    ? "bg-[#1e3a5f] text-white shadow-sm"
+                    : "border border-[#1e3a5f]/20 bg-white text-[#1e3a5f] hover:border-[#1e3a5f] hover:bg-blue-50"
+                }`}
+              >
+                <option value="" disabled>Nearest hub…</option>
+                {HUB_SORT_OPTIONS.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
             </div>
           </div>
           <p className="mt-1.5 text-xs text-slate-500">{sortDescription}</p>
+          {dwellingLabel && dwellingFallbacks > 0 && (
+            <p className="mt-1 flex items-center gap-1 text-xs text-amber-700">
+              <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+              {dwellingFallbacks === data.suburbs.length
+                ? `No ${dwellingLabel} medians in this data yet — rents and stress use each suburb's median across all dwelling types, and the filter only leaves out suburbs with few ${dwellingLabel}s for rent.`
+                : `${dwellingFallbacks} of these suburbs have no ${dwellingLabel} median — their rents are across all dwelling types.`}
+            </p>
+          )}
         </div>
       </header>
 
@@ -966,7 +1411,7 @@ function ResultsContent() {
             <p className="text-sm text-slate-500">
               Showing <span className="font-semibold text-slate-700">{sorted.length}</span>{" "}
               suburb{sorted.length !== 1 && "s"}
-              {sortMode === "lowest_rent" && " across all of Sydney"}
+              {(sortMode === "lowest_rent" || sortMode === "lowest_true_cost") && " across all of Sydney"}
               {sortMode === "shortest_commute" && hasWorkplace && " within 20 km"}
               {sortMode === "best_overall" && hasWorkplace && " within 25 km"}
               {sortMode === "best_affordability" && hasWorkplace && " within 40 km"}
@@ -1007,8 +1452,12 @@ function ResultsContent() {
                   sharedWith={siblings}
                   isWorkplace={isWorkplace}
                   isIncomeMode={isIncomeMode}
+                  showCycling={data?.max_cycle_min != null}
                   workplaceLat={data?.workplace_lat ?? null}
                   workplaceLng={data?.workplace_lng ?? null}
+                  isCompared={compareKeys.includes(s.suburb_key)}
+                  compareFull={compareKeys.length >= MAX_COMPARE}
+                  onToggleCompare={() => toggleCompare(s.suburb_key)}
                   onClick={() => handleCardClick(s.suburb_key)}
                 />
               );
@@ -1058,16 +1507,73 @@ function ResultsContent() {
                 selectedSuburbKey={selectedSuburbKey}
                 workplaceSuburbKey={data?.workplace_suburb_key ?? null}
                 workplacePostcode={data?.workplace_postcode ?? null}
+                area={commuteArea}
                 onResetView={handleResetView}
               />
             </div>
           </div>
         </aside>
       </div>
+
+      {/* Compare tray */}
+      {compareKeys.length > 0 && (
+        <div className="fixed inset-x-0 bottom-4 z-40 flex justify-center px-4">
+          <div className="flex items-center gap-3 rounded-full border border-slate-200 bg-white px-4 py-2 shadow-lg">
+            <span className="text-sm text-slate-600">
+              {compareKeys.length} of {MAX_COMPARE} selected
+            </span>
+            <button
+              onClick={() => setCompareKeys([])}
+              className="text-xs font-medium text-slate-400 hover:text-slate-600"
+            >
+              Clear
+            </button>
+            <button
+              onClick={saveShortlist}
+              disabled={savedShortlist === compareKeys.join(",")}
+              className="text-xs font-medium text-primary hover:underline disabled:text-emerald-600 disabled:no-underline"
+            >
+              {savedShortlist === compareKeys.join(",") ? "Saved to shortlists" : "Save as shortlist"}
+            </button>
+            {compareKeys.length >= 2 ? (
+              <Link
+                href={compareHref}
+                className="rounded-full bg-primary px-4 py-1.5 text-sm font-semibold text-white transition-colors hover:bg-primary-light"
+              >
+                Compare
+              </Link>
+            ) : (
+              <span className="rounded-full bg-slate-100 px-4 py-1.5 text-sm font-semibold text-slate-400">
+                Pick one more
+              </span>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
 
+/** Marks a rent that isn't the exact median asked for, saying which stand-in was used. */
+function RentEstimateTag({ s }: { s: RecommendedSuburb }) {
+  if (s.dwelling_rent_basis === "all_dwellings") {
+    return (
+      <span
+        className="ml-1 text-xs text-amber-600"
+        title="No median for this dwelling type here — the suburb-wide median across all types is shown"
+      >
+        (all types)
+      </span>
+    );
+  }
+  if (!s.rent_estimated) return null;
+  return (
+    <span className="ml-1 text-xs text-amber-600" title="No median for this bedroom count here — a smaller one is used">
+      (est.)
+    </span>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // SuburbCard component
 // ---------------------------------------------------------------------------
@@ -1084,8 +1590,12 @@ function SuburbCard({
   sharedWith,
   isWorkplace,
   isIncomeMode,
+  showCycling,
   workplaceLat,
   workplaceLng,
+  isCompared,
+  compareFull,
+  onToggleCompare,
   onClick,
 }: {
   suburb: SuburbEnriched;
@@ -1099,31 +1609,44 @@ function SuburbCard({
   sharedWith: string[];
   isWorkplace: boolean;
   isIncomeMode: boolean;
+  showCycling: boolean;
   workplaceLat: number | null;
   workplaceLng: number | null;
+  isCompared: boolean;
+  compareFull: boolean;
+  onToggleCompare: () => void;
   onClick: () => void;
 }) {
   // Build suburb detail URL with workplace coords if available
   const detailHref = workplaceLat != null && workplaceLng != null
     ? `/suburb/${s.suburb_key}?wp_lat=${workplaceLat}&wp_lng=${workplaceLng}`
     : `/suburb/${s.suburb_key}`;
-  const badge = budgetBadge(s.rent_stress_pct);
+  const badge = budgetBadge(s.rent_share_pct);
 
   // Rental stress indicator (income mode only)
   const stressDot =
-    s.rent_stress_pct <= 30
+    s.rent_share_pct <= 30
       ? { dot: "bg-emerald-500", label: "Low stress", text: "text-emerald-700" }
-      : s.rent_stress_pct <= 40
+      : s.rent_share_pct <= 40
         ? { dot: "bg-amber-500", label: "Moderate stress", text: "text-amber-700" }
         : { dot: "bg-red-500", label: "High stress", text: "text-red-700" };
   const topType = topDwellingType(s.dwelling_types);
+  const hub = sortHub(sortMode);
+  const hubKm = hub ? s[hubDistanceField(hub)] : null;
 
   // Commute display: single driving time — real driving if available, else estimate
   const drivingMin = s.commute_real?.driving?.duration_min ?? null;
-  const estimateMin = s.estimated_commute_min;
+  const estimateMin = s.haversine_km !== null ? estimateCommuteMinutes(s.haversine_km) : null;
   const displayMin = drivingMin ?? estimateMin;
   const isEstimate = drivingMin === null;
   const showCommute = hasWorkplace && !isWorkplace && displayMin !== null;
+  const cyclingMin = s.commute_real?.cycling?.duration_min ?? s.cycling_minutes;
+  const cost = s.commute_cost;
+  const costTitle = !cost
+    ? undefined
+    : cost.mode === "transit"
+      ? `$${s.median_rent}/wk rent + $${cost.weekly} Opal ($${cost.fare.toFixed(2)} each way${cost.capped ? `, ${cost.capped} cap reached` : ""})`
+      : `$${s.median_rent}/wk rent + fuel $${cost.fuel} · tolls $${cost.tolls}${cost.toll_roads.length ? ` (${cost.toll_roads.join(", ")})` : ""} · parking $${cost.parking}`;
 
   return (
     <article
@@ -1166,6 +1689,24 @@ function SuburbCard({
           </div>
 
           <div className="flex shrink-0 items-center gap-2">
+            {/* Add to compare */}
+            <label
+              onClick={(e) => e.stopPropagation()}
+              className={`flex items-center gap-1 text-[11px] font-medium ${
+                !isCompared && compareFull ? "cursor-not-allowed text-slate-300" : "cursor-pointer text-slate-500"
+              }`}
+              title={!isCompared && compareFull ? `Compare up to ${MAX_COMPARE} suburbs` : "Add to compare"}
+            >
+              <input
+                type="checkbox"
+                checked={isCompared}
+                disabled={!isCompared && compareFull}
+                onChange={onToggleCompare}
+                className="h-3.5 w-3.5 rounded border-slate-300 text-[#1e3a5f] focus:ring-[#1e3a5f]/30"
+              />
+              Compare
+            </label>
+
             {/* Budget badge */}
             <span className={`inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold ${badge.bg} ${badge.color}`}>
               {badge.label}
@@ -1173,7 +1714,10 @@ function SuburbCard({
 
             {/* Score */}
             {sortMode === "best_overall" && (
-              <span className="inline-flex items-center gap-1 rounded-full bg-purple-50 px-2.5 py-0.5 text-xs font-bold text-purple-700">
+              <span
+                className="inline-flex items-center gap-1 rounded-full bg-purple-50 px-2.5 py-0.5 text-xs font-bold text-purple-700"
+                title={scoreTitle(s.score_breakdown)}
+              >
                 <Trophy className="h-3 w-3" />
                 {s.overall_score}
               </span>
@@ -1187,7 +1731,7 @@ function SuburbCard({
             <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
               <span className="text-xs text-slate-500">
                 Total: ${s.total_rent}/wk
-                {s.rent_estimated && <span className="ml-1 text-amber-600">(est.)</span>}
+                <RentEstimateTag s={s} />
               </span>
               <span className="text-base font-bold text-primary">
                 <Users className="mb-0.5 inline h-4 w-4" /> YOUR SHARE: ${s.per_person_rent}/wk
@@ -1210,25 +1754,60 @@ function SuburbCard({
             <div className="flex items-center gap-1.5">
               <DollarSign className="h-4 w-4 text-slate-400" />
               <span className="text-base font-bold text-primary">${s.median_rent}/wk</span>
+              <RentEstimateTag s={s} />
             </div>
           )}
           {isIncomeMode ? (
             <div className="flex items-center gap-1.5">
               <span className={`h-2.5 w-2.5 shrink-0 rounded-full ${stressDot.dot}`} />
               <span className={`text-sm font-medium ${stressDot.text}`}>
-                {s.rent_stress_pct}% of income — {stressDot.label}
+                {s.rent_share_pct}% of take-home — {stressDot.label}
               </span>
+              {s.rent_stress_pct_gross != null && (
+                <span className="text-xs text-slate-400">({s.rent_stress_pct_gross}% of gross)</span>
+              )}
             </div>
           ) : (
             <div className="flex items-center gap-1.5">
               <Wallet className="h-4 w-4 text-slate-400" />
-              <span className="text-sm text-slate-600">{s.rent_stress_pct}% of budget</span>
+              <span className="text-sm text-slate-600">{s.rent_share_pct}% of budget</span>
             </div>
           )}
           <div className="flex items-center gap-1.5">
             <BarChart3 className="h-4 w-4 text-slate-400" />
             <span className="text-sm text-slate-600">{s.total_bonds.toLocaleString("en-AU")} rentals</span>
           </div>
+          {cost && s.true_weekly_cost !== null && !isWorkplace && (
+            <div className="flex items-center gap-1.5" title={costTitle}>
+              <PiggyBank className="h-4 w-4 text-slate-400" />
+              <span className="text-sm text-slate-600">
+                ${Math.round(s.true_weekly_cost)}/wk with {cost.mode === "transit" ? "Opal" : "driving"}
+              </span>
+            </div>
+          )}
+          {showCycling && !isWorkplace && cyclingMin != null && (
+            <div className="flex items-center gap-1.5">
+              <Bike className="h-4 w-4 text-slate-400" />
+              <span className="text-sm text-slate-600">
+                {s.commute_real?.cycling && !s.commute_real.cycling.estimated ? "" : "~"}{cyclingMin} min by bike
+              </span>
+            </div>
+          )}
+          {hub && hubKm != null && (
+            <div className="flex items-center gap-1.5">
+              <Briefcase className="h-4 w-4 text-slate-400" />
+              <span className="text-sm text-slate-600">{hubKm} km to {EMPLOYMENT_HUBS[hub].label}</span>
+            </div>
+          )}
+          {s.rent_in_12_months != null && (
+            <div
+              className="flex items-center gap-1.5"
+              title="Projected from this suburb's 2021–2025 rent trend, weighted by how many bonds back it"
+            >
+              <TrendingUp className="h-4 w-4 text-slate-400" />
+              <span className="text-sm text-slate-600">~${s.rent_in_12_months}/wk in 12 months</span>
+            </div>
+          )}
           {topType && (
             <div className="flex items-center gap-1.5">
               <Building2 className="h-4 w-4 text-slate-400" />
@@ -1275,7 +1854,10 @@ function SuburbCard({
 
         {/* Row 5: Amenity counts */}
         {s.amenities && (
-          <div className="mb-3 flex flex-wrap items-center gap-x-3 gap-y-1.5">
+          <div
+            className="mb-3 flex flex-wrap items-center gap-x-3 gap-y-1.5"
+            title={s.amenity_rules ? amenityTitle(s.amenity_score, s.amenity_rules, s.amenity_walk_rules ?? []) : undefined}
+          >
             {s.amenities.hospital_count > 0 && (
               <div className="flex items-center gap-1 text-xs text-slate-500" title="Hospitals nearby">
                 <Heart className="h-3.5 w-3.5 text-red-400" />
@@ -1310,9 +1892,9 @@ function SuburbCard({
         {/* Row 6: View Details link */}
         <div className="flex items-center justify-between border-t border-slate-100 pt-3">
           <div className="flex items-center gap-2 text-xs text-slate-400">
-            {s.rating === "comfortable" && <CheckCircle className="h-3.5 w-3.5 text-emerald-500" />}
+            {(s.rating === "comfortable" || (s.rating == null && s.rent_share_pct < 25)) && <CheckCircle className="h-3.5 w-3.5 text-emerald-500" />}
             <span>
-              ${(weeklyIncome - s.median_rent).toLocaleString("en-AU")}/wk left over
+              ${(s.headroom ?? weeklyIncome - s.median_rent).toLocaleString("en-AU")}/wk left over
             </span>
           </div>
           <Link
@@ -21,6 +21,7 @@ import {
   Baby,
   ChevronDown,
   ExternalLink,
+  Calculator,
   Car,
   Clock,
   Navigation,
@@ -30,10 +31,16 @@ import {
   BookOpen,
   Pill,
   Stethoscope,
+  Bike,
+  Footprints,
 } from "lucide-react";
 import MapWrapper from "@/components/MapWrapper";
+import type { MapRoute } from "@/components/SydneyMap";
+import type { DirectionsMode } from "@/lib/ors-directions";
 import type { Suburb } from "@/lib/suburbs";
-import type { SuburbAmenities, AmenityItem } from "@/lib/amenities";
+import type { SuburbAmenities, AmenityItem, AmenitySummary } from "@/lib/amenities";
+import type { SchoolSector, SchoolsBySector, SuburbSchools } from "@/lib/schools";
+import type { WalkScores } from "@/lib/poi";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -56,15 +63,58 @@ interface SuburbDetail {
 interface CommuteData {
   transit: { duration_min: number; transfers: number; modes: string[]; summary: string } | null;
   driving: { duration_min: number; distance_km: number; traffic_note: string } | null;
+  cycling: ActiveTravel | null;
+  walking: ActiveTravel | null;
+  walking_error?: string;
   straight_line_km: number;
 }
 
+interface ActiveTravel {
+  duration_min: number;
+  distance_km: number;
+  estimated: boolean;
+}
+
 interface DirectionsData {
   duration_minutes: number;
   distance_km: number;
   geometry: [number, number][];
 }
 
+interface ForecastData {
+  base_year: string;
+  annual_growth_pct: number;
+  credibility: number;
+  points: { year: string; median: number; low: number; high: number }[];
+}
+
+interface TimeseriesData {
+  source: "bonds" | "rent_trend" | null;
+  points: { period: string; median: number; bonds: number | null }[];
+  seasonal_pct: Record<string, number> | null;
+}
+
+interface LeaseCostData {
+  annual_growth_pct: number;
+  lease: {
+    start_date: string;
+    end_date: string;
+    weekly_rent_at_start: number;
+    periods: { from: string; to: string; weekly_rent: number; weeks: number; cost: number }[];
+    rent_total: number;
+    bond: number;
+    moving_cost: number;
+    upfront_cost: number;
+    total_cost: number;
+  };
+  timing: {
+    compared_on: "horizon_cost" | "lease_cost";
+    options: { wait_months: number; start_date: string; weekly_rent_at_start: number; difference_vs_now: number }[];
+    best_wait_months: number;
+    summary: string;
+  };
+}
+
 interface OverpassPoi {
   name: string;
   distance_km: number;
@@ -85,12 +135,26 @@ interface OverpassAmenities {
   gyms: OverpassPoi[];
   libraries: OverpassPoi[];
   train_stations: OverpassPoi[];
+  walkability?: WalkScores;
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+/** Route modes the commute switcher draws on the map. */
+const ROUTE_MODES: { value: DirectionsMode; label: string; color: string }[] = [
+  { value: "driving", label: "Drive", color: "#1e3a5f" },
+  { value: "cycling", label: "Cycle", color: "#16a34a" },
+  { value: "walking", label: "Walk", color: "#f97316" },
+];
+
+const WALK_SCORE_LABELS: { key: keyof WalkScores; label: string }[] = [
+  { key: "daily_needs", label: "Daily needs" },
+  { key: "green_space", label: "Green space" },
+  { key: "fitness", label: "Fitness" },
+];
+
 const BEDROOM_KEYS = [
   { key: "median_rent_1bed", label: "1 Bed" },
   { key: "median_rent_2bed", label: "2 Bed" },
@@ -139,11 +203,18 @@ function SuburbDetailPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [amenities, setAmenities] = useState<SuburbAmenities | null>(null);
+  const [amenityCounts, setAmenityCounts] = useState<AmenitySummary | null>(null);
   const [amenityScore, setAmenityScore] = useState<number | null>(null);
+  const [schools, setSchools] = useState<SuburbSchools | null>(null);
   const [overpassPoi, setOverpassPoi] = useState<OverpassAmenities | null>(null);
   const [commuteData, setCommuteData] = useState<CommuteData | null>(null);
-  const [directionsData, setDirectionsData] = useState<DirectionsData | null>(null);
+  const [routeMode, setRouteMode] = useState<DirectionsMode>("driving");
+  // Fetched route per mode; null once a fetch has failed
+  const [routes, setRoutes] = useState<Partial<Record<DirectionsMode, DirectionsData | null>>>({});
   const [commuteLoading, setCommuteLoading] = useState(false);
+  const [forecast, setForecast] = useState<ForecastData | null>(null);
+  const [quarterly, setQuarterly] = useState<TimeseriesData | null>(null);
+  const [trendZoom, setTrendZoom] = useState<"year" | "quarter">("year");
 
   // Workplace coordinates from URL params (passed from results page)
   const wpLat = parseFloat(searchParams.get("wp_lat") ?? "");
@@ -155,64 +226,102 @@ function SuburbDetailPage() {
     ? suburbKey.split("_").pop() ?? suburbKey
     : suburbKey;
 
-  // Fetch suburb data + legacy amenities
+  // Fetch suburb data, then its amenities by canonical suburb_key
   useEffect(() => {
     fetch(`/api/suburbs/${suburbKey}`)
       .then((r) => {
         if (!r.ok) throw new Error("Not found");
         return r.json();
       })
-      .then((d) => setData(d))
+      .then((d) => {
+        setData(d);
+        // Log the view for "Recently viewed" on the home page
+        fetch("/api/history", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ suburb_key: d.suburb.suburb_key }),
+        }).catch(() => {});
+
+        fetch(`/api/amenities?suburb_key=${encodeURIComponent(d.suburb.suburb_key)}`)
+          .then((r) => r.json())
+          .then((a) => {
+            if (a.amenities) setAmenities(a.amenities);
+            if (a.summary) setAmenityCounts(a.summary);
+            if (a.score != null) setAmenityScore(a.score);
+          })
+          .catch(() => {});
+
+        fetch(`/api/schools?suburb_key=${encodeURIComponent(d.suburb.suburb_key)}`)
+          .then((r) => r.json())
+          .then((sc) => { if (!sc.error) setSchools(sc); })
+          .catch(() => {});
+      })
       .catch(() => setError(`Suburb "${suburbKey}" not found.`))
       .finally(() => setLoading(false));
 
-    fetch(`/api/amenities?postcode=${postcode}`)
+    fetch(`/api/suburbs/${suburbKey}/forecast`)
       .then((r) => r.json())
-      .then((d) => {
-        if (d.amenities) setAmenities(d.amenities);
-        if (d.score != null) setAmenityScore(d.score);
-      })
+      .then((d) => { if (!d.error) setForecast(d); })
+      .catch(() => {});
+
+    fetch(`/api/suburbs/${suburbKey}/timeseries?granularity=quarter`)
+      .then((r) => r.json())
+      .then((d) => { if (!d.error) setQuarterly(d); })
       .catch(() => {});
   }, [suburbKey, postcode]);
 
   // Fetch Overpass POI (supermarkets, parks, gyms, libraries, pharmacies, etc.)
+  // through the per-suburb cache, which needs a centroid
+  const poiSuburbKey = data?.suburb?.lat && data.suburb.lng ? data.suburb.suburb_key : null;
   useEffect(() => {
-    if (!data?.suburb?.lat || !data?.suburb?.lng) return;
-    const { lat, lng } = data.suburb;
+    if (!poiSuburbKey) return;
 
     fetch("/api/overpass-poi", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ lat, lng, radius: 3000 }),
+      body: JSON.stringify({ suburb_key: poiSuburbKey }),
     })
       .then((r) => r.json())
       .then((d) => { if (!d.error) setOverpassPoi(d); })
       .catch(() => {});
-  }, [data?.suburb?.lat, data?.suburb?.lng]);
+  }, [poiSuburbKey]);
 
-  // Fetch commute + directions when workplace is known
+  // Fetch commute times (every mode) when workplace is known
   useEffect(() => {
     if (!hasWorkplace || !data?.suburb?.lat || !data?.suburb?.lng) return;
     const { lat, lng } = data.suburb;
     setCommuteLoading(true);
 
-    // Parallel: commute times + ORS directions (for route geometry)
-    Promise.allSettled([
-      fetch(`/api/commute?from_lat=${lat}&from_lng=${lng}&to_lat=${wpLat}&to_lng=${wpLng}`)
-        .then((r) => r.json()),
-      fetch(`/api/directions?from_lat=${lat}&from_lng=${lng}&to_lat=${wpLat}&to_lng=${wpLng}&mode=driving`)
-        .then((r) => r.json()),
-    ]).then(([commuteResult, directionsResult]) => {
-      if (commuteResult.status === "fulfilled" && !commuteResult.value.error) {
-        setCommuteData(commuteResult.value as CommuteData);
-      }
-      if (directionsResult.status === "fulfilled" && !directionsResult.value.error) {
-        setDirectionsData(directionsResult.value as DirectionsData);
-      }
-      setCommuteLoading(false);
-    });
+    fetch(`/api/commute?from_lat=${lat}&from_lng=${lng}&to_lat=${wpLat}&to_lng=${wpLng}&modes=cycling,walking`)
+      .then((r) => r.json())
+      .then((d) => { if (!d.error) setCommuteData(d as CommuteData); })
+      .catch(() => {})
+      .finally(() => setCommuteLoading(false));
   }, [hasWorkplace, wpLat, wpLng, data?.suburb?.lat, data?.suburb?.lng]);
 
+  // Fetch ORS route geometry for the selected mode, once per mode
+  const suburbLat = data?.suburb?.lat;
+  const suburbLng = data?.suburb?.lng;
+  useEffect(() => {
+    if (!hasWorkplace || !suburbLat || !suburbLng) return;
+    if (routeMode in routes) return;
+
+    fetch(`/api/directions?from_lat=${suburbLat}&from_lng=${suburbLng}&to_lat=${wpLat}&to_lng=${wpLng}&mode=${routeMode}`)
+      .then((r) => r.json())
+      .then((d) => setRoutes((prev) => ({ ...prev, [routeMode]: d.error ? null : (d as DirectionsData) })))
+      .catch(() => setRoutes((prev) => ({ ...prev, [routeMode]: null })));
+  }, [routeMode, routes, hasWorkplace, wpLat, wpLng, suburbLat, suburbLng]);
+
+  const mapRoute = useMemo<MapRoute | null>(() => {
+    const route = routes[routeMode];
+    if (!route?.geometry?.length) return null;
+    return {
+      positions: route.geometry,
+      color: ROUTE_MODES.find((m) => m.value === routeMode)!.color,
+      label: `${route.duration_minutes} min · ${route.distance_km} km`,
+    };
+  }, [routes, routeMode]);
+
   const mapSuburbs = useMemo<Suburb[]>(() => {
     if (!data?.suburb?.lat || !data?.suburb?.lng) return [];
     return [data.suburb];
@@ -287,6 +396,12 @@ function SuburbDetailPage() {
   const lastRent = trendYears.length > 1 ? trendYears[trendYears.length - 1][1] : null;
   const rentChange =
     firstRent && lastRent ? Math.round(((lastRent - firstRent) / firstRent) * 100) : null;
+  const forecastPoints = forecast?.points ?? [];
+  const trendMax = Math.max(...trendYears.map(([, r]) => r), ...forecastPoints.map((p) => p.high));
+  const quarterPoints = quarterly?.points ?? [];
+  const hasQuarterly = quarterPoints.length > 1;
+  const showQuarterly = trendZoom === "quarter" && hasQuarterly;
+  const quarterMax = Math.max(...quarterPoints.map((p) => p.median));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50/40 to-orange-50/30">
@@ -334,7 +449,12 @@ function SuburbDetailPage() {
         {/* Mini map */}
         {mapSuburbs.length > 0 && (
           <div className="h-[200px] sm:h-[250px]">
-            <MapWrapper suburbs={mapSuburbs} highlighted={new Set([s.suburb_key])} selectedSuburbKey={s.suburb_key} />
+            <MapWrapper
+              suburbs={mapSuburbs}
+              highlighted={new Set([s.suburb_key])}
+              selectedSuburbKey={s.suburb_key}
+              route={hasWorkplace ? mapRoute : null}
+            />
           </div>
         )}
       </section>
@@ -438,27 +558,107 @@ function SuburbDetailPage() {
                     {rentChange}% since {trendYears[0][0]}
                   </span>
                 )}
+                {/* Zoom: yearly medians + forecast, or quarterly medians */}
+                <div className={`flex rounded-lg bg-slate-100 p-0.5 text-[11px] ${rentChange == null ? "ml-auto" : ""}`}>
+                  {(["year", "quarter"] as const).map((zoom) => (
+                    <button
+                      key={zoom}
+                      onClick={() => setTrendZoom(zoom)}
+                      disabled={zoom === "quarter" && !hasQuarterly}
+                      title={zoom === "quarter" && !hasQuarterly ? "Quarterly figures aren't in this data release yet" : undefined}
+                      className={`rounded-md px-2 py-0.5 font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${
+                        trendZoom === zoom ? "bg-white text-primary shadow-sm" : "text-slate-500 hover:text-slate-700"
+                      }`}
+                    >
+                      {zoom === "year" ? "Yearly" : "Quarterly"}
+                    </button>
+                  ))}
+                </div>
               </div>
-              <div className="space-y-2">
-                {trendYears.map(([year, rent]) => {
-                  const maxRent = Math.max(...trendYears.map(([, r]) => r));
-                  const pct = maxRent > 0 ? (rent / maxRent) * 100 : 0;
-                  return (
-                    <div key={year} className="flex items-center gap-3">
-                      <span className="w-10 shrink-0 text-xs text-slate-400">{year}</span>
-                      <div className="h-5 flex-1 overflow-hidden rounded-full bg-slate-100">
+              {showQuarterly ? (
+                <div className="space-y-1.5">
+                  {quarterPoints.map((p) => (
+                    <div
+                      key={p.period}
+                      className="flex items-center gap-3"
+                      title={p.bonds != null ? `${p.bonds.toLocaleString()} bonds lodged` : undefined}
+                    >
+                      <span className="w-14 shrink-0 text-xs text-slate-400">{p.period.replace("-", " ")}</span>
+                      <div className="h-3.5 flex-1 overflow-hidden rounded-full bg-slate-100">
                         <div
-                          className="h-full rounded-full bg-gradient-to-r from-primary/70 to-primary"
-                          style={{ width: `${pct}%` }}
+                          className={`h-full rounded-full ${
+                            p.period.endsWith("Q1") ? "bg-accent/80" : "bg-gradient-to-r from-primary/70 to-primary"
+                          }`}
+                          style={{ width: `${(p.median / quarterMax) * 100}%` }}
                         />
                       </div>
-                      <span className="w-16 shrink-0 text-right text-sm font-semibold text-slate-700">
-                        ${rent}/wk
+                      <span className="w-16 shrink-0 text-right text-xs font-semibold text-slate-700">
+                        ${p.median}/wk
                       </span>
                     </div>
-                  );
-                })}
-              </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {trendYears.map(([year, rent]) => {
+                    const pct = trendMax > 0 ? (rent / trendMax) * 100 : 0;
+                    return (
+                      <div key={year} className="flex items-center gap-3">
+                        <span className="w-10 shrink-0 text-xs text-slate-400">{year}</span>
+                        <div className="h-5 flex-1 overflow-hidden rounded-full bg-slate-100">
+                          <div
+                            className="h-full rounded-full bg-gradient-to-r from-primary/70 to-primary"
+                            style={{ width: `${pct}%` }}
+                          />
+                        </div>
+                        <span className="w-16 shrink-0 text-right text-sm font-semibold text-slate-700">
+                          ${rent}/wk
+                        </span>
+                      </div>
+                    );
+                  })}
+                  {/* Forecast overlay — median bar with the 80% band behind it */}
+                  {forecastPoints.map((p) => (
+                    <div key={p.year} className="flex items-center gap-3" title={`80% range: $${p.low}–$${p.high}/wk`}>
+                      <span className="w-10 shrink-0 text-xs italic text-slate-400">{p.year}</span>
+                      <div className="relative h-5 flex-1 overflow-hidden rounded-full bg-slate-100">
+                        <div
+                          className="absolute inset-y-0 rounded-full bg-primary/15"
+                          style={{ left: `${(p.low / trendMax) * 100}%`, width: `${((p.high - p.low) / trendMax) * 100}%` }}
+                        />
+                        <div
+                          className="absolute inset-y-1 left-0 rounded-full border border-dashed border-primary/60 bg-primary/20"
+                          style={{ width: `${(p.median / trendMax) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-16 shrink-0 text-right text-sm font-semibold italic text-slate-500">
+                        ~${p.median}/wk
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {showQuarterly && (
+                <p className="mt-3 text-xs text-slate-400">
+                  Quarterly medians for all new bonds; Q1 (Jan–Mar, the student rush) is highlighted.
+                  {quarterly?.seasonal_pct && (
+                    <>
+                      {" "}Typical vs the year&apos;s average:{" "}
+                      {Object.entries(quarterly.seasonal_pct)
+                        .map(([q, pct]) => `${q} ${pct > 0 ? "+" : ""}${pct}%`)
+                        .join(" · ")}
+                      .
+                    </>
+                  )}
+                </p>
+              )}
+              {!showQuarterly && forecast && (
+                <p className="mt-3 text-xs text-slate-400">
+                  Forecast: {forecast.annual_growth_pct > 0 ? "+" : ""}
+                  {forecast.annual_growth_pct}%/yr from the {forecast.base_year} trend. Shaded band is the 80% range
+                  {forecast.credibility < 0.5 && " — few bonds here, so it leans on the Sydney-wide trend"}.
+                </p>
+              )}
             </section>
           )}
 
@@ -544,6 +744,9 @@ function SuburbDetailPage() {
           </section>
         </div>
 
+        {/* ---- Lease cost calculator ---- */}
+        <LeaseCalculator suburbKey={s.suburb_key} />
+
         {/* -------------------------------------------------------------- */}
         {/* What's Nearby */}
         {/* -------------------------------------------------------------- */}
@@ -563,15 +766,17 @@ function SuburbDetailPage() {
             <div className="grid gap-6 lg:grid-cols-2">
               <AmenityCard
                 icon={<Hospital className="h-5 w-5" />}
-                title="Hospitals & Medical"
+                title="Hospitals"
                 items={amenities.hospitals}
+                total={amenityCounts?.hospital_count}
                 suburbLat={s.lat}
                 suburbLng={s.lng}
               />
               <AmenityCard
-                icon={<School className="h-5 w-5" />}
-                title="Schools"
-                items={amenities.schools}
+                icon={<Stethoscope className="h-5 w-5" />}
+                title="Medical Centres"
+                items={amenities.medical_centers}
+                total={amenityCounts?.medical_center_count}
                 suburbLat={s.lat}
                 suburbLng={s.lng}
               />
@@ -579,6 +784,7 @@ function SuburbDetailPage() {
                 icon={<GraduationCap className="h-5 w-5" />}
                 title="Universities"
                 items={amenities.universities}
+                total={amenityCounts?.university_count}
                 suburbLat={s.lat}
                 suburbLng={s.lng}
               />
@@ -586,12 +792,44 @@ function SuburbDetailPage() {
                 icon={<Baby className="h-5 w-5" />}
                 title="Childcare & Early Learning"
                 items={amenities.childcare}
+                total={amenityCounts?.childcare_count}
                 suburbLat={s.lat}
                 suburbLng={s.lng}
               />
               <EmergencyServicesCard
                 fireStations={amenities.fire_stations}
                 police={amenities.police}
+                total={amenityCounts ? amenityCounts.fire_station_count + amenityCounts.police_count : undefined}
+                suburbLat={s.lat}
+                suburbLng={s.lng}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* -------------------------------------------------------------- */}
+        {/* Schools */}
+        {/* -------------------------------------------------------------- */}
+        {schools && (
+          <div className="mt-10 animate-slide-up" style={{ animationDelay: "520ms" }}>
+            <h2 className="mb-6 text-xl font-bold text-primary">
+              Schools
+            </h2>
+            <SchoolZones schools={schools} />
+            <div className="grid gap-6 lg:grid-cols-2">
+              <SchoolLevelCard
+                icon={<School className="h-5 w-5" />}
+                title="Primary"
+                groups={schools.primary}
+                radiusKm={schools.radius_km}
+                suburbLat={s.lat}
+                suburbLng={s.lng}
+              />
+              <SchoolLevelCard
+                icon={<GraduationCap className="h-5 w-5" />}
+                title="Secondary"
+                groups={schools.secondary}
+                radiusKm={schools.radius_km}
                 suburbLat={s.lat}
                 suburbLng={s.lng}
               />
@@ -604,9 +842,30 @@ function SuburbDetailPage() {
         {/* -------------------------------------------------------------- */}
         {hasWorkplace && (
           <div className="mt-10 animate-slide-up" style={{ animationDelay: "560ms" }}>
-            <h2 className="mb-6 text-xl font-bold text-primary">
-              Commute to Workplace
-            </h2>
+            <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-xl font-bold text-primary">
+                Commute to Workplace
+              </h2>
+              {/* Route drawn on the map */}
+              <div className="flex gap-1 rounded-lg bg-slate-100 p-1" role="group" aria-label="Route on map">
+                {ROUTE_MODES.map((m) => {
+                  const unavailable = m.value === "walking" && commuteData != null && !commuteData.walking;
+                  return (
+                    <button
+                      key={m.value}
+                      onClick={() => setRouteMode(m.value)}
+                      disabled={unavailable}
+                      title={unavailable ? commuteData?.walking_error : undefined}
+                      className={`rounded-md px-3 py-1 text-xs font-semibold transition-colors disabled:cursor-not-allowed disabled:opacity-40 ${
+                        routeMode === m.value ? "bg-white text-primary shadow-sm" : "text-slate-500 hover:text-primary"
+                      }`}
+                    >
+                      {m.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
             {commuteLoading ? (
               <div className="flex items-center gap-3 rounded-xl border border-slate-200/80 bg-white p-6 shadow-sm">
                 <span className="h-5 w-5 animate-spin rounded-full border-2 border-slate-200 border-t-primary" />
@@ -615,17 +874,17 @@ function SuburbDetailPage() {
             ) : (
               <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
                 {/* Driving */}
-                {(commuteData?.driving || directionsData) && (
+                {(commuteData?.driving || routes.driving) && (
                   <section className="rounded-xl border border-slate-200/80 bg-white p-5 shadow-sm">
                     <div className="mb-3 flex items-center gap-2 text-sm font-semibold text-primary">
                       <Car className="h-4 w-4" />
                       Driving
                     </div>
                     <p className="text-2xl font-extrabold text-slate-900">
-                      {directionsData?.duration_minutes ?? commuteData?.driving?.duration_min ?? "—"} min
+                      {routes.driving?.duration_minutes ?? commuteData?.driving?.duration_min ?? "—"} min
                     </p>
                     <p className="mt-1 text-sm text-slate-500">
-                      {directionsData?.distance_km ?? commuteData?.driving?.distance_km ?? "—"} km
+                      {routes.driving?.distance_km ?? commuteData?.driving?.distance_km ?? "—"} km
                       {commuteData?.driving?.traffic_note && (
                         <span className="text-xs text-slate-400"> · {commuteData.driving.traffic_note}</span>
                       )}
@@ -654,6 +913,40 @@ function SuburbDetailPage() {
                   </section>
                 )}
 
+                {/* Cycling */}
+                {commuteData?.cycling && (
+                  <section className="rounded-xl border border-slate-200/80 bg-white p-5 shadow-sm">
+                    <div className="mb-3 flex items-center gap-2 text-sm font-semibold text-primary">
+                      <Bike className="h-4 w-4" />
+                      Cycling
+                    </div>
+                    <p className="text-2xl font-extrabold text-slate-900">
+                      {commuteData.cycling.estimated ? "~" : ""}{commuteData.cycling.duration_min} min
+                    </p>
+                    <p className="mt-1 text-sm text-slate-500">
+                      {commuteData.cycling.distance_km} km
+                      {commuteData.cycling.estimated && <span className="text-xs text-slate-400"> · estimate</span>}
+                    </p>
+                  </section>
+                )}
+
+                {/* Walking — only quoted within walking range */}
+                {commuteData?.walking && (
+                  <section className="rounded-xl border border-slate-200/80 bg-white p-5 shadow-sm">
+                    <div className="mb-3 flex items-center gap-2 text-sm font-semibold text-primary">
+                      <Footprints className="h-4 w-4" />
+                      Walking
+                    </div>
+                    <p className="text-2xl font-extrabold text-slate-900">
+                      {commuteData.walking.estimated ? "~" : ""}{commuteData.walking.duration_min} min
+                    </p>
+                    <p className="mt-1 text-sm text-slate-500">
+                      {commuteData.walking.distance_km} km
+                      {commuteData.walking.estimated && <span className="text-xs text-slate-400"> · estimate</span>}
+                    </p>
+                  </section>
+                )}
+
                 {/* Straight line distance */}
                 {commuteData?.straight_line_km != null && (
                   <section className="rounded-xl border border-slate-200/80 bg-white p-5 shadow-sm">
@@ -677,9 +970,20 @@ function SuburbDetailPage() {
         {/* -------------------------------------------------------------- */}
         {overpassPoi && (
           <div className="mt-10 animate-slide-up" style={{ animationDelay: "640ms" }}>
-            <h2 className="mb-6 text-xl font-bold text-primary">
-              Points of Interest
-            </h2>
+            <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-xl font-bold text-primary">
+                Points of Interest
+              </h2>
+              {overpassPoi.walkability && (
+                <div className="flex flex-wrap gap-2" title="Walkability, 0–100: how much is within a 5–20 minute walk">
+                  {WALK_SCORE_LABELS.map(({ key, label }) => (
+                    <span key={key} className="rounded-full bg-primary/10 px-3 py-1 text-sm font-bold text-primary">
+                      {label}: {overpassPoi.walkability![key]}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
             <div className="grid gap-6 lg:grid-cols-2">
               <AmenityCard
                 icon={<ShoppingCart className="h-5 w-5" />}
@@ -780,16 +1084,23 @@ function AmenityRow({
   );
 }
 
+/** "Show all N", or "Show nearest N" when only some of the places are listed. */
+function showMoreLabel(listed: number, total: number | undefined): string {
+  return total != null && total > listed ? `Show nearest ${listed}` : `Show all ${listed}`;
+}
+
 function AmenityCard({
   icon,
   title,
   items,
+  total,
   suburbLat,
   suburbLng,
 }: {
   icon: React.ReactNode;
   title: string;
   items: AmenityItem[];
+  total?: number; // places within range; items lists only the nearest of them
   suburbLat: number | null;
   suburbLng: number | null;
 }) {
@@ -805,7 +1116,7 @@ function AmenityCard({
       <div className="flex items-center gap-2 border-b border-slate-100 px-4 py-3">
         <span className="text-primary">{icon}</span>
         <h3 className="text-sm font-semibold text-primary">{title}</h3>
-        <span className="ml-auto text-xs text-slate-400">{items.length} nearby</span>
+        <span className="ml-auto text-xs text-slate-400">{total ?? items.length} nearby</span>
       </div>
       <div className="divide-y divide-slate-50 px-1 py-1">
         {visible.map((item, i) => (
@@ -825,7 +1136,7 @@ function AmenityCard({
           <ChevronDown
             className={`h-3.5 w-3.5 transition-transform ${expanded ? "rotate-180" : ""}`}
           />
-          {expanded ? "Show less" : `Show all ${items.length}`}
+          {expanded ? "Show less" : showMoreLabel(items.length, total)}
         </button>
       )}
     </section>
@@ -835,11 +1146,13 @@ function AmenityCard({
 function EmergencyServicesCard({
   fireStations,
   police,
+  total,
   suburbLat,
   suburbLng,
 }: {
   fireStations: AmenityItem[];
   police: AmenityItem[];
+  total?: number;
   suburbLat: number | null;
   suburbLng: number | null;
 }) {
@@ -860,7 +1173,7 @@ function EmergencyServicesCard({
       <div className="flex items-center gap-2 border-b border-slate-100 px-4 py-3">
         <Shield className="h-5 w-5 text-primary" />
         <h3 className="text-sm font-semibold text-primary">Emergency Services</h3>
-        <span className="ml-auto text-xs text-slate-400">{combined.length} nearby</span>
+        <span className="ml-auto text-xs text-slate-400">{total ?? combined.length} nearby</span>
       </div>
       <div className="divide-y divide-slate-50 px-1 py-1">
         {visible.map((item, i) => (
@@ -887,9 +1200,248 @@ function EmergencyServicesCard({
           <ChevronDown
             className={`h-3.5 w-3.5 transition-transform ${expanded ? "rotate-180" : ""}`}
           />
-          {expanded ? "Show less" : `Show all ${combined.length}`}
+          {expanded ? "Show less" : showMoreLabel(combined.length, total)}
         </button>
       )}
     </section>
   );
 }
+
+// ---------------------------------------------------------------------------
+// School sub-components
+// ---------------------------------------------------------------------------
+
+const SECTOR_LABELS: Record<SchoolSector, { label: string; className: string }> = {
+  public: { label: "Public", className: "bg-emerald-50 text-emerald-700" },
+  selective: { label: "Selective", className: "bg-violet-50 text-violet-700" },
+  private: { label: "Private & Catholic", className: "bg-amber-50 text-amber-700" },
+};
+const SCHOOL_SECTORS = Object.keys(SECTOR_LABELS) as SchoolSector[];
+
+/** Which public intake zones the suburb's centre falls in. */
+function SchoolZones({ schools }: { schools: SuburbSchools }) {
+  if (!schools.catchment_data) return null;
+  const primary = schools.catchments.filter((c) => c.level !== "secondary");
+  const secondary = schools.catchments.filter((c) => c.level !== "primary");
+  const names = (zones: SuburbSchools["catchments"]) =>
+    zones.length > 0 ? zones.map((z) => z.school).join(", ") : "none found";
+
+  return (
+    <div className="mb-6 rounded-xl border border-slate-200/80 bg-white p-4 text-sm shadow-sm">
+      <p className="mb-2 font-semibold text-primary">Public school intake zones</p>
+      <p className="text-slate-600">
+        <span className="font-medium text-slate-700">Primary:</span> {names(primary)}
+      </p>
+      <p className="text-slate-600">
+        <span className="font-medium text-slate-700">Secondary:</span> {names(secondary)}
+      </p>
+      <p className="mt-2 text-xs text-slate-400">
+        Checked at the suburb&apos;s centre — confirm a specific address with the school.
+      </p>
+    </div>
+  );
+}
+
+function SchoolLevelCard({
+  icon,
+  title,
+  groups,
+  radiusKm,
+  suburbLat,
+  suburbLng,
+}: {
+  icon: React.ReactNode;
+  title: string;
+  groups: SchoolsBySector;
+  radiusKm: number;
+  suburbLat: number | null;
+  suburbLng: number | null;
+}) {
+  const total = SCHOOL_SECTORS.reduce((n, sector) => n + groups[sector].length, 0);
+
+  return (
+    <section className="rounded-xl border border-slate-200/80 bg-white shadow-sm">
+      <div className="flex items-center gap-2 border-b border-slate-100 px-4 py-3">
+        <span className="text-primary">{icon}</span>
+        <h3 className="text-sm font-semibold text-primary">{title}</h3>
+        <span className="ml-auto text-xs text-slate-400">{total} within {radiusKm} km</span>
+      </div>
+      {total === 0 ? (
+        <p className="px-4 py-3 text-sm text-slate-400">No {title.toLowerCase()} schools within {radiusKm} km.</p>
+      ) : (
+        SCHOOL_SECTORS.filter((sector) => groups[sector].length > 0).map((sector) => (
+          <div key={sector} className="px-1 py-1">
+            <span className={`ml-3 mt-2 inline-block rounded-full px-2 py-0.5 text-xs font-semibold ${SECTOR_LABELS[sector].className}`}>
+              {SECTOR_LABELS[sector].label}
+            </span>
+            <div className="divide-y divide-slate-50">
+              {groups[sector].map((item, i) => (
+                <AmenityRow
+                  key={`${item.name}-${i}`}
+                  item={item}
+                  suburbLat={suburbLat}
+                  suburbLng={suburbLng}
+                />
+              ))}
+            </div>
+          </div>
+        ))
+      )}
+    </section>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Lease calculator
+// ---------------------------------------------------------------------------
+
+const LEASE_LENGTHS = [6, 12, 18, 24, 36];
+
+function formatDollars(n: number): string {
+  return `$${Math.round(n).toLocaleString("en-AU")}`;
+}
+
+function LeaseCalculator({ suburbKey }: { suburbKey: string }) {
+  const [bedrooms, setBedrooms] = useState("2");
+  const [leaseMonths, setLeaseMonths] = useState(12);
+  const [start, setStart] = useState(() => new Date().toISOString().slice(0, 10));
+  const [currentRent, setCurrentRent] = useState("");
+  const [result, setResult] = useState<LeaseCostData | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const params = new URLSearchParams({ lease_months: String(leaseMonths), start });
+    if (bedrooms) params.set("bedrooms", bedrooms);
+    const rent = parseFloat(currentRent);
+    if (rent > 0) params.set("current_rent", String(rent));
+
+    fetch(`/api/suburbs/${suburbKey}/lease?${params}`)
+      .then((r) => r.json())
+      .then((d) => {
+        if (d.error) {
+          setError(d.error);
+          setResult(null);
+        } else {
+          setError("");
+          setResult(d);
+        }
+      })
+      .catch(() => setError("Couldn't calculate lease costs."));
+  }, [suburbKey, bedrooms, leaseMonths, start, currentRent]);
+
+  const inputClass =
+    "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20";
+
+  return (
+    <section className="mt-6 animate-slide-up rounded-xl border border-slate-200/80 bg-white p-6 shadow-sm" style={{ animationDelay: "440ms" }}>
+      <div className="mb-4 flex items-center gap-2 text-sm font-semibold text-primary">
+        <Calculator className="h-4 w-4" />
+        Lease Cost Calculator
+        {result && (
+          <span className="ml-auto text-xs font-normal text-slate-400">
+            Rents forecast {result.annual_growth_pct > 0 ? "+" : ""}
+            {result.annual_growth_pct}%/yr
+          </span>
+        )}
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-4">
+        <label className="text-xs text-slate-500">
+          Bedrooms
+          <select value={bedrooms} onChange={(e) => setBedrooms(e.target.value)} className={`mt-1 ${inputClass}`}>
+            <option value="">Any</option>
+            {BEDROOM_KEYS.map(({ label }, i) => (
+              <option key={label} value={String(i + 1)}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-slate-500">
+          Lease length
+          <select value={leaseMonths} onChange={(e) => setLeaseMonths(Number(e.target.value))} className={`mt-1 ${inputClass}`}>
+            {LEASE_LENGTHS.map((m) => (
+              <option key={m} value={m}>{m} months</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-xs text-slate-500">
+          Start date
+          <input type="date" value={start} onChange={(e) => e.target.value && setStart(e.target.value)} className={`mt-1 ${inputClass}`} />
+        </label>
+        <label className="text-xs text-slate-500">
+          Current rent ($/wk, optional)
+          <input
+            type="number"
+            min={0}
+            value={currentRent}
+            onChange={(e) => setCurrentRent(e.target.value)}
+            placeholder="e.g. 550"
+            className={`mt-1 ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-500">{error}</p>}
+
+      {result && (
+        <div className="mt-5 grid gap-6 lg:grid-cols-2">
+          {/* Cost breakdown */}
+          <div>
+            <p className="text-3xl font-extrabold text-slate-900">{formatDollars(result.lease.total_cost)}</p>
+            <p className="mt-1 text-sm text-slate-500">
+              Rent + moving, {result.lease.start_date} to {result.lease.end_date}
+            </p>
+            <div className="mt-4 space-y-1.5 text-sm">
+              {result.lease.periods.map((p) => (
+                <div key={p.from} className="flex justify-between text-slate-600">
+                  <span>
+                    ${p.weekly_rent}/wk &times; {p.weeks} wks
+                    <span className="ml-1 text-xs text-slate-400">from {p.from}</span>
+                  </span>
+                  <span className="font-medium text-slate-700">{formatDollars(p.cost)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-slate-600">
+                <span>Moving costs (typical)</span>
+                <span className="font-medium text-slate-700">{formatDollars(result.lease.moving_cost)}</span>
+              </div>
+              <div className="flex justify-between border-t border-slate-100 pt-1.5 text-slate-500">
+                <span>Bond (4 weeks, refundable)</span>
+                <span className="font-medium">{formatDollars(result.lease.bond)}</span>
+              </div>
+              <div className="flex justify-between text-slate-500">
+                <span>Upfront: bond + 2 weeks&apos; rent + moving</span>
+                <span className="font-medium">{formatDollars(result.lease.upfront_cost)}</span>
+              </div>
+            </div>
+          </div>
+
+          {/* Move timing */}
+          <div>
+            <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-400">Sign now or wait?</p>
+            <div className="space-y-1.5">
+              {result.timing.options.map((o) => (
+                <div
+                  key={o.wait_months}
+                  className={`flex items-center justify-between rounded-lg px-3 py-2 text-sm ${
+                    o.wait_months === result.timing.best_wait_months ? "bg-emerald-50 text-emerald-700" : "bg-slate-50 text-slate-600"
+                  }`}
+                >
+                  <span>
+                    {o.wait_months === 0 ? "Sign now" : `Wait ${o.wait_months} months`}
+                    <span className="ml-1 text-xs opacity-70">${o.weekly_rent_at_start}/wk</span>
+                  </span>
+                  <span className="font-semibold">
+                    {o.difference_vs_now === 0
+                      ? "—"
+                      : `${o.difference_vs_now > 0 ? "+" : "−"}${formatDollars(Math.abs(o.difference_vs_now))}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="mt-3 text-sm text-slate-600">{result.timing.summary}</p>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
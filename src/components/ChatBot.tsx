@@ -45,12 +45,24 @@ export default function ChatBot() {
     const workplace = searchParams.get("workplace");
     const sharing = searchParams.get("sharing");
     const shareBedroom = searchParams.get("share_bedroom");
-    const ctx: { income?: number; bedrooms?: number; workplace?: string; sharing?: number; shareBedroom?: boolean } = {};
+    const incomeType = searchParams.get("income_type");
+    const help = searchParams.get("help");
+    const ctx: {
+      income?: number;
+      bedrooms?: number;
+      workplace?: string;
+      sharing?: number;
+      shareBedroom?: boolean;
+      incomeType?: "gross" | "takehome";
+      hasHelpDebt?: boolean;
+    } = {};
     if (income) ctx.income = Number(income);
     if (bedrooms) ctx.bedrooms = Number(bedrooms);
     if (workplace) ctx.workplace = workplace;
     if (sharing) ctx.sharing = Number(sharing);
     if (shareBedroom === "1") ctx.shareBedroom = true;
+    if (incomeType === "gross" || incomeType === "takehome") ctx.incomeType = incomeType;
+    if (help === "1") ctx.hasHelpDebt = true;
     return Object.keys(ctx).length > 0 ? ctx : undefined;
   }, [searchParams]);
 
@@ -3,6 +3,7 @@
 import dynamic from "next/dynamic";
 import type { Suburb } from "@/lib/suburbs";
 import type { TrainStation } from "@/lib/commute";
+import type { MapArea, MapRoute } from "./SydneyMap";
 import stationData from "@/data/train_stations.json";
 
 const SydneyMap = dynamic(() => import("./SydneyMap"), {
@@ -27,6 +28,8 @@ interface MapWrapperProps {
   selectedSuburbKey?: string | null;
   workplaceSuburbKey?: string | null;
   workplacePostcode?: string | null;
+  route?: MapRoute | null;
+  area?: MapArea | null;
   onResetView?: () => void;
 }
 
@@ -38,6 +41,8 @@ export default function MapWrapper({
   selectedSuburbKey,
   workplaceSuburbKey,
   workplacePostcode,
+  route,
+  area,
   onResetView,
 }: MapWrapperProps) {
   return (
@@ -50,6 +55,8 @@ export default function MapWrapper({
       selectedSuburbKey={selectedSuburbKey}
       workplaceSuburbKey={workplaceSuburbKey}
       workplacePostcode={workplacePostcode}
+      route={route}
+      area={area}
       onResetView={onResetView}
     />
   );
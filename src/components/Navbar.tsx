@@ -3,6 +3,7 @@
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { Home, Info } from "lucide-react";
+import NotificationsPanel from "@/components/NotificationsPanel";
 
 const NAV_LINKS = [
   { href: "/", label: "Home", icon: Home },
@@ -44,6 +45,7 @@ export default function Navbar() {
               </Link>
             );
           })}
+          <NotificationsPanel />
         </div>
       </div>
     </nav>
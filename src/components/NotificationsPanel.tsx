@@ -0,0 +1,194 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { Bell, X, TrendingUp, TrendingDown, Play } from "lucide-react";
+import { resultsHrefForSearch } from "@/components/SavedPanel";
+
+// ---------------------------------------------------------------------------
+// Types (mirror the /api/alerts payload)
+// ---------------------------------------------------------------------------
+
+interface AffordabilityChange {
+  suburb_key: string;
+  suburb_name: string | null;
+  previous_rent: number | null;
+  rent: number | null;
+}
+
+interface RentMove {
+  suburb_key: string;
+  suburb_name: string | null;
+  previous_rent: number;
+  rent: number;
+  change_pct: number;
+}
+
+interface SearchAlert {
+  id: number;
+  search_name: string;
+  search_params: Record<string, string>;
+  created_at: string;
+  read_at: string | null;
+  diff: {
+    newly_affordable: AffordabilityChange[];
+    no_longer_affordable: AffordabilityChange[];
+    rent_moves: RentMove[];
+  };
+}
+
+const PREVIEW_COUNT = 3;
+
+function suburbLabel(s: { suburb_key: string; suburb_name: string | null }): string {
+  return s.suburb_name ?? s.suburb_key;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/** Navbar bell listing saved-search change alerts for this device. */
+export default function NotificationsPanel() {
+  const [alerts, setAlerts] = useState<SearchAlert[]>([]);
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    fetch("/api/alerts")
+      .then((r) => r.json())
+      .then((d) => { if (d.alerts) setAlerts(d.alerts); })
+      .catch(() => {});
+  }, []);
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return;
+    const onClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", onClick);
+    return () => document.removeEventListener("mousedown", onClick);
+  }, [open]);
+
+  const markRead = useCallback((alert: SearchAlert) => {
+    if (alert.read_at) return;
+    setAlerts((prev) => prev.map((a) => (a.id === alert.id ? { ...a, read_at: new Date().toISOString() } : a)));
+    fetch(`/api/alerts/${alert.id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ read: true }),
+    }).catch(() => {});
+  }, []);
+
+  const dismiss = useCallback((id: number) => {
+    setAlerts((prev) => prev.filter((a) => a.id !== id));
+    fetch(`/api/alerts/${id}`, { method: "DELETE" }).catch(() => {});
+  }, []);
+
+  const unread = alerts.filter((a) => !a.read_at).length;
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="relative inline-flex items-center rounded-lg px-3 py-2 text-slate-500 transition-colors hover:bg-slate-100 hover:text-slate-700"
+        aria-label={unread > 0 ? `${unread} unread alerts` : "Alerts"}
+      >
+        <Bell className="h-4 w-4" />
+        {unread > 0 && (
+          <span className="absolute right-1.5 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-accent px-1 text-[10px] font-bold text-white">
+            {unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-80 overflow-hidden rounded-xl border border-slate-200 bg-white shadow-lg sm:w-96">
+          <div className="border-b border-slate-100 px-4 py-3">
+            <p className="text-sm font-semibold text-primary">Saved search alerts</p>
+            <p className="text-[11px] text-slate-400">What changed when the rent data was refreshed</p>
+          </div>
+
+          {alerts.length === 0 ? (
+            <p className="px-4 py-6 text-center text-xs text-slate-400">
+              No changes yet. Save a search from the results page and we&apos;ll flag suburbs that
+              become affordable (or stop being) when new bond data lands.
+            </p>
+          ) : (
+            <ul className="max-h-[28rem] divide-y divide-slate-100 overflow-y-auto">
+              {alerts.map((alert) => {
+                const { newly_affordable, no_longer_affordable, rent_moves } = alert.diff;
+                return (
+                  <li
+                    key={alert.id}
+                    onMouseEnter={() => markRead(alert)}
+                    className={`px-4 py-3 ${alert.read_at ? "" : "bg-blue-50/50"}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-medium text-slate-700">{alert.search_name}</p>
+                        <p className="text-[11px] text-slate-400">
+                          {new Date(alert.created_at).toLocaleDateString("en-AU")}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => dismiss(alert.id)}
+                        className="rounded p-1 text-slate-300 hover:bg-slate-100 hover:text-slate-500"
+                        title="Dismiss"
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+
+                    {newly_affordable.length > 0 && (
+                      <p className="mt-1.5 text-xs text-emerald-700">
+                        <span className="font-semibold">{newly_affordable.length} newly affordable:</span>{" "}
+                        {newly_affordable.slice(0, PREVIEW_COUNT).map(suburbLabel).join(", ")}
+                        {newly_affordable.length > PREVIEW_COUNT && "…"}
+                      </p>
+                    )}
+                    {no_longer_affordable.length > 0 && (
+                      <p className="mt-1 text-xs text-red-600">
+                        <span className="font-semibold">{no_longer_affordable.length} no longer affordable:</span>{" "}
+                        {no_longer_affordable.slice(0, PREVIEW_COUNT).map(suburbLabel).join(", ")}
+                        {no_longer_affordable.length > PREVIEW_COUNT && "…"}
+                      </p>
+                    )}
+                    {rent_moves.length > 0 && (
+                      <ul className="mt-1.5 space-y-0.5">
+                        {rent_moves.slice(0, PREVIEW_COUNT).map((m) => (
+                          <li key={m.suburb_key} className="flex items-center gap-1.5 text-[11px] text-slate-500">
+                            {m.change_pct > 0 ? (
+                              <TrendingUp className="h-3 w-3 text-red-500" />
+                            ) : (
+                              <TrendingDown className="h-3 w-3 text-emerald-600" />
+                            )}
+                            <Link href={`/suburb/${m.suburb_key}`} className="font-medium hover:text-primary">
+                              {suburbLabel(m)}
+                            </Link>
+                            <span>
+                              ${Math.round(m.previous_rent)} → ${Math.round(m.rent)}/wk ({m.change_pct > 0 ? "+" : ""}
+                              {m.change_pct}%)
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
+                    <Link
+                      href={resultsHrefForSearch(alert.search_params)}
+                      onClick={() => setOpen(false)}
+                      className="mt-2 inline-flex items-center gap-1 text-xs font-semibold text-primary hover:underline"
+                    >
+                      <Play className="h-3 w-3" /> Re-run search
+                    </Link>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
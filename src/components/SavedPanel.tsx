@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { Bookmark, Play, Trash2, History, ListChecks, Columns3 } from "lucide-react";
+
+// ---------------------------------------------------------------------------
+// Types (mirror the /api/saved-searches, /api/shortlists and /api/history payloads)
+// ---------------------------------------------------------------------------
+
+interface SavedSearch {
+  id: number;
+  name: string;
+  params: Record<string, string>;
+  last_run_at: string | null;
+  alert_email: string | null;
+}
+
+interface Shortlist {
+  id: number;
+  name: string;
+  items: { suburb_key: string; suburb_name: string | null; note: string }[];
+}
+
+interface HistoryEntry {
+  suburb_key: string;
+  suburb_name: string | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Results-page URL for a stored /api/recommend param set. */
+export function resultsHrefForSearch(params: Record<string, string>): string {
+  const query = new URLSearchParams(params);
+  // The results page re-derives the API income from `weekly`
+  const weekly = params.income ?? params.budget;
+  query.delete("budget");
+  query.set("income", weekly);
+  query.set("weekly", weekly);
+  query.set("period", "weekly");
+  query.set("_t", String(Date.now()));
+  return `/results?${query}`;
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+/** Saved searches, shortlists and recently viewed suburbs for this device. */
+export default function SavedPanel() {
+  const router = useRouter();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [shortlists, setShortlists] = useState<Shortlist[]>([]);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+
+  useEffect(() => {
+    fetch("/api/saved-searches")
+      .then((r) => r.json())
+      .then((d) => { if (d.searches) setSearches(d.searches); })
+      .catch(() => {});
+    fetch("/api/shortlists")
+      .then((r) => r.json())
+      .then((d) => { if (d.shortlists) setShortlists(d.shortlists); })
+      .catch(() => {});
+    fetch("/api/history?limit=8")
+      .then((r) => r.json())
+      .then((d) => { if (d.history) setHistory(d.history); })
+      .catch(() => {});
+  }, []);
+
+  const runSearch = useCallback(
+    (search: SavedSearch) => {
+      fetch(`/api/saved-searches/${search.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mark_run: true }),
+      }).catch(() => {});
+      router.push(resultsHrefForSearch(search.params));
+    },
+    [router],
+  );
+
+  const deleteSearch = useCallback((id: number) => {
+    setSearches((prev) => prev.filter((s) => s.id !== id));
+    fetch(`/api/saved-searches/${id}`, { method: "DELETE" }).catch(() => {});
+  }, []);
+
+  const saveAlertEmail = useCallback((id: number, email: string) => {
+    fetch(`/api/saved-searches/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ alert_email: email }),
+    })
+      .then((r) => r.json())
+      .then((d) => { if (d.search) setSearches((prev) => prev.map((s) => (s.id === id ? d.search : s))); })
+      .catch(() => {});
+  }, []);
+
+  const deleteShortlist = useCallback((id: number) => {
+    setShortlists((prev) => prev.filter((l) => l.id !== id));
+    fetch(`/api/shortlists/${id}`, { method: "DELETE" }).catch(() => {});
+  }, []);
+
+  const saveNote = useCallback((listId: number, suburbKey: string, note: string) => {
+    fetch(`/api/shortlists/${listId}/items/${suburbKey}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ note }),
+    }).catch(() => {});
+  }, []);
+
+  if (searches.length === 0 && shortlists.length === 0 && history.length === 0) return null;
+
+  return (
+    <section className="mx-auto mt-6 max-w-3xl px-4 sm:px-6">
+      <div className="grid gap-4 rounded-2xl border border-slate-200/80 bg-white p-6 shadow-sm">
+        {/* Saved searches */}
+        {searches.length > 0 && (
+          <div>
+            <p className="mb-2 flex items-center gap-2 text-sm font-semibold text-primary">
+              <Bookmark className="h-4 w-4" />
+              Saved searches
+            </p>
+            <ul className="divide-y divide-slate-100">
+              {searches.map((s) => (
+                <li key={s.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-medium text-slate-700">{s.name}</p>
+                    {s.last_run_at && (
+                      <p className="text-[11px] text-slate-400">
+                        Last run {new Date(s.last_run_at).toLocaleDateString("en-AU")}
+                      </p>
+                    )}
+                    <input
+                      type="email"
+                      defaultValue={s.alert_email ?? ""}
+                      placeholder="Email me when rent data changes…"
+                      onBlur={(e) => {
+                        if (e.target.value.trim() !== (s.alert_email ?? "")) saveAlertEmail(s.id, e.target.value.trim());
+                      }}
+                      className="mt-0.5 w-56 rounded border border-transparent px-1.5 py-0.5 text-[11px] text-slate-500 hover:border-slate-200 focus:border-primary focus:outline-none"
+                    />
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <button
+                      onClick={() => runSearch(s)}
+                      className="inline-flex items-center gap-1 rounded-lg bg-primary px-3 py-1.5 text-xs font-semibold text-white hover:bg-primary-light"
+                    >
+                      <Play className="h-3 w-3" /> Run
+                    </button>
+                    <button
+                      onClick={() => deleteSearch(s.id)}
+                      className="rounded-lg p-1.5 text-slate-400 hover:bg-slate-100 hover:text-red-500"
+                      title="Delete saved search"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Shortlists */}
+        {shortlists.length > 0 && (
+          <div>
+            <p className="mb-2 flex items-center gap-2 text-sm font-semibold text-primary">
+              <ListChecks className="h-4 w-4" />
+              Shortlists
+            </p>
+            <div className="space-y-3">
+              {shortlists.map((list) => (
+                <div key={list.id} className="rounded-lg border border-slate-100 p-3">
+                  <div className="mb-1.5 flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium text-slate-700">{list.name}</p>
+                    <div className="flex items-center gap-1">
+                      {list.items.length >= 2 && (
+                        <Link
+                          href={`/compare?keys=${list.items.slice(0, 4).map((i) => i.suburb_key).join(",")}`}
+                          className="inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-medium text-primary hover:bg-blue-50"
+                        >
+                          <Columns3 className="h-3 w-3" /> Compare
+                        </Link>
+                      )}
+                      <button
+                        onClick={() => deleteShortlist(list.id)}
+                        className="rounded-lg p-1.5 text-slate-400 hover:bg-slate-100 hover:text-red-500"
+                        title="Delete shortlist"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                  <ul className="space-y-1">
+                    {list.items.map((item) => (
+                      <li key={item.suburb_key} className="flex items-center gap-2">
+                        <Link
+                          href={`/suburb/${item.suburb_key}`}
+                          className="w-36 shrink-0 truncate text-xs font-medium text-slate-600 hover:text-primary"
+                        >
+                          {item.suburb_name ?? item.suburb_key}
+                        </Link>
+                        <input
+                          defaultValue={item.note}
+                          placeholder="Add a note…"
+                          maxLength={1000}
+                          onBlur={(e) => {
+                            if (e.target.value !== item.note) saveNote(list.id, item.suburb_key, e.target.value);
+                          }}
+                          className="flex-1 rounded border border-transparent px-1.5 py-0.5 text-xs text-slate-500 hover:border-slate-200 focus:border-primary focus:outline-none"
+                        />
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Recently viewed */}
+        {history.length > 0 && (
+          <div>
+            <p className="mb-2 flex items-center gap-2 text-sm font-semibold text-primary">
+              <History className="h-4 w-4" />
+              Recently viewed
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {history.map((h) => (
+                <Link
+                  key={h.suburb_key}
+                  href={`/suburb/${h.suburb_key}`}
+                  className="rounded-full bg-slate-100 px-3 py-1 text-xs font-medium text-slate-600 hover:bg-blue-50 hover:text-primary"
+                >
+                  {h.suburb_name ?? h.suburb_key}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -10,6 +10,7 @@ import {
   Popup,
   Marker,
   Polyline,
+  GeoJSON,
   useMap,
 } from "react-leaflet";
 import "leaflet/dist/leaflet.css";
@@ -120,10 +121,38 @@ function MapController({
   return null;
 }
 
+// ---------------------------------------------------------------------------
+// Route bounds — fit a drawn commute route once it arrives
+// ---------------------------------------------------------------------------
+
+function RouteBounds({ positions }: { positions: [number, number][] }) {
+  const map = useMap();
+
+  useEffect(() => {
+    map.flyToBounds(L.latLngBounds(positions), { padding: [24, 24], duration: 1.5 });
+  }, [positions, map]);
+
+  return null;
+}
+
 // ---------------------------------------------------------------------------
 // Props
 // ---------------------------------------------------------------------------
 
+/** A routed commute to draw, e.g. /api/directions geometry. */
+export interface MapRoute {
+  positions: [number, number][]; // [lat, lng]
+  color: string;
+  label: string;
+}
+
+/** An area to shade, e.g. the /api/recommend max_commute_min isochrone. */
+export interface MapArea {
+  feature: GeoJSON.Feature;
+  color: string;
+  label: string;
+}
+
 interface SydneyMapProps {
   suburbs: Suburb[];
   highlighted?: Set<string>;
@@ -133,6 +162,8 @@ interface SydneyMapProps {
   selectedSuburbKey?: string | null;
   workplaceSuburbKey?: string | null;
   workplacePostcode?: string | null;
+  route?: MapRoute | null;
+  area?: MapArea | null;
   onResetView?: () => void;
 }
 
@@ -152,6 +183,8 @@ export default function SydneyMap({
   selectedSuburbKey = null,
   workplaceSuburbKey = null,
   workplacePostcode = null,
+  route = null,
+  area = null,
   onResetView,
 }: SydneyMapProps) {
   const markers = useMemo(() => {
@@ -273,6 +306,17 @@ export default function SydneyMap({
           resetKey={resetKey}
         />
 
+        {/* Commute area (results page max_commute_min) — GeoJSON data is
+            immutable, so a new feature remounts via the key */}
+        {area && (
+          <GeoJSON
+            key={area.label}
+            data={area.feature}
+            interactive={false}
+            style={{ color: area.color, weight: 2, opacity: 0.7, fillColor: area.color, fillOpacity: 0.08 }}
+          />
+        )}
+
         {/* Suburb markers */}
         {markers.map((s) => {
           const rent = s.median_rent_overall!;
@@ -404,6 +448,21 @@ export default function SydneyMap({
           </Marker>
         )}
 
+        {/* Routed commute (suburb page mode switcher) */}
+        {route && route.positions.length > 1 && (
+          <>
+            <Polyline
+              positions={route.positions}
+              pathOptions={{ color: route.color, weight: 4, opacity: 0.85 }}
+            >
+              <Tooltip sticky className="commute-tooltip">
+                <span>{route.label}</span>
+              </Tooltip>
+            </Polyline>
+            <RouteBounds positions={route.positions} />
+          </>
+        )}
+
         {/* Commute connection line + endpoint station markers */}
         {commuteLineData && (
           <>
@@ -5,18 +5,21 @@
 export const API_CONFIG = {
   openRouteService: {
     apiKey: process.env.OPENROUTE_API_KEY || "",
-    baseUrl: "https://api.openrouteservice.org",
+    // Overridable to point at a self-hosted or stub ORS instance
+    baseUrl: process.env.OPENROUTE_BASE_URL || "https://api.openrouteservice.org",
     endpoints: {
       matrix: "/v2/matrix/driving-car",
       directionsJson: "/v2/directions/driving-car",
       directionsCycling: "/v2/directions/cycling-regular",
+      directionsWalking: "/v2/directions/foot-walking",
       isochrones: "/v2/isochrones/driving-car",
       poi: "/pois",
     },
     coordOrder: "lng-lat" as const,
   },
   overpass: {
-    baseUrl: "https://overpass-api.de/api/interpreter",
+    // Overridable to use another public or a self-hosted Overpass instance
+    baseUrl: process.env.OVERPASS_URL || "https://overpass-api.de/api/interpreter",
     timeout: 60,
   },
   anthropic: {
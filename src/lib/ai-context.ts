@@ -1,4 +1,5 @@
 import { getAllSuburbs, type Suburb } from "./suburbs";
+import { resolveIncome, type IncomeType } from "./tax";
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -174,11 +175,24 @@ export function buildUserContext(opts: {
   workplace?: string;
   sharing?: number;
   shareBedroom?: boolean;
+  incomeType?: IncomeType;
+  hasHelpDebt?: boolean;
 }): string {
-  const { income, bedrooms, workplace, sharing = 1, shareBedroom = false } = opts;
+  const {
+    income,
+    bedrooms,
+    workplace,
+    sharing = 1,
+    shareBedroom = false,
+    incomeType = "takehome",
+    hasHelpDebt = false,
+  } = opts;
   if (!income) return "";
 
-  const weeklyIncome = Math.round(income / 52);
+  // Affordability is judged on take-home pay; gross is shown for reference
+  const basis = resolveIncome(Math.round(income / 52), incomeType, { hasHelpDebt });
+  const weeklyIncome = basis.net_weekly;
+  const grossWeekly = basis.gross_weekly;
   const isSharing = sharing > 1;
 
   // Determine which bedroom rent to look up
@@ -209,14 +223,17 @@ export function buildUserContext(opts: {
   const lines: string[] = [];
 
   lines.push(`USER'S SITUATION:`);
-  lines.push(`  Annual income: $${income.toLocaleString("en-AU")} ($${weeklyIncome}/wk)`);
+  lines.push(
+    `  Annual income: $${income.toLocaleString("en-AU")} ${incomeType === "gross" ? "before tax" : "take-home"}` +
+      ` (gross $${grossWeekly}/wk, take-home $${weeklyIncome}/wk${hasHelpDebt ? ", after HELP repayments" : ""})`,
+  );
   if (isSharing) {
     lines.push(`  Living arrangement: SHARING with ${sharing} people total (splitting rent ${sharing} ways)`);
     if (sharing === 2 && shareBedroom) lines.push(`  Sharing a bedroom (couple/close friends) — looking at 1-bed rent ÷ 2`);
-    lines.push(`  Max per-person rent (30% rule): $${maxPerPerson}/wk`);
+    lines.push(`  Max per-person rent (30% of take-home): $${maxPerPerson}/wk (30% of gross: $${Math.round(grossWeekly * 0.3)}/wk)`);
     lines.push(`  Max total rent for the group: $${maxTotalRent}/wk`);
   } else {
-    lines.push(`  Max affordable rent (30% rule): $${maxPerPerson}/wk`);
+    lines.push(`  Max affordable rent (30% of take-home): $${maxPerPerson}/wk (30% of gross: $${Math.round(grossWeekly * 0.3)}/wk)`);
   }
   if (bedrooms) lines.push(`  Looking for: ${bedLabel}`);
   if (workplace) {
@@ -233,8 +250,9 @@ export function buildUserContext(opts: {
       const totalRent = s[rentKey] as number;
       const perPerson = Math.round(totalRent / sharing);
       const stress = Math.round((perPerson / weeklyIncome) * 100);
+      const grossStress = Math.round((perPerson / grossWeekly) * 100);
       lines.push(
-        `  ${s.suburb_name} (${s.postcode}): $${totalRent}/wk total → $${perPerson}/pp (${stress}% of income), ${s.total_bonds.toLocaleString("en-AU")} bonds`,
+        `  ${s.suburb_name} (${s.postcode}): $${totalRent}/wk total → $${perPerson}/pp (${stress}% of take-home, ${grossStress}% of gross), ${s.total_bonds.toLocaleString("en-AU")} bonds`,
       );
     }
   } else {
@@ -244,8 +262,9 @@ export function buildUserContext(opts: {
     for (const s of affordable.slice(0, 20)) {
       const rent = s[rentKey] as number;
       const stress = Math.round((rent / weeklyIncome) * 100);
+      const grossStress = Math.round((rent / grossWeekly) * 100);
       lines.push(
-        `  ${s.suburb_name} (${s.postcode}): $${rent}/wk (${stress}% of income), ${s.total_bonds.toLocaleString("en-AU")} bonds`,
+        `  ${s.suburb_name} (${s.postcode}): $${rent}/wk (${stress}% of take-home, ${grossStress}% of gross), ${s.total_bonds.toLocaleString("en-AU")} bonds`,
       );
     }
   }
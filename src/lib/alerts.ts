@@ -0,0 +1,355 @@
+import crypto from "crypto";
+import { getDb } from "@/lib/db";
+import { sendMail } from "@/lib/mail";
+import { recommend } from "@/lib/recommend";
+import { getAllSuburbs, getSuburbByKey } from "@/lib/suburbs";
+import { listSavedSearches, type SavedSearch, type SearchParams } from "@/lib/user-data";
+
+// ---------------------------------------------------------------------------
+// Saved-search change alerts
+//
+// Each saved search keeps a snapshot of its matches for one version of the
+// rent data. When sydney_suburbs.json is regenerated the version changes, the
+// search is re-run through the /api/recommend logic, and the difference is
+// stored as an alert (and emailed, if the search has an alert address).
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface SnapshotEntry {
+  rent: number; // per person, $/wk
+  share_pct: number; // rent stress (income mode) or budget used (budget mode)
+  affordable: boolean;
+}
+
+type Snapshot = Record<string, SnapshotEntry>;
+
+export interface AffordabilityChange {
+  suburb_key: string;
+  suburb_name: string | null;
+  previous_rent: number | null;
+  rent: number | null; // null when the suburb no longer has rent data for this search
+  rent_share_pct: number | null;
+}
+
+export interface RentMove {
+  suburb_key: string;
+  suburb_name: string | null;
+  previous_rent: number;
+  rent: number;
+  change: number;
+  change_pct: number;
+}
+
+export interface SearchDiff {
+  newly_affordable: AffordabilityChange[];
+  no_longer_affordable: AffordabilityChange[];
+  rent_moves: RentMove[]; // largest moves first
+}
+
+export interface SearchAlert {
+  id: number;
+  search_id: number;
+  search_name: string;
+  search_params: SearchParams;
+  from_version: string;
+  to_version: string;
+  created_at: string;
+  read_at: string | null;
+  diff: SearchDiff;
+}
+
+interface AlertRow {
+  id: number;
+  search_id: number;
+  search_name: string;
+  search_params: string;
+  from_version: string;
+  to_version: string;
+  created_at: string;
+  read_at: string | null;
+  diff: string;
+}
+
+/** Rent stress at or under this counts as affordable (the 30% rule). */
+const AFFORDABLE_STRESS_PCT = 30;
+const MAX_RENT_MOVES = 10;
+/** Moves smaller than this are rounding noise between data refreshes. */
+const MIN_RENT_MOVE_PCT = 1;
+export const ALERT_LIST_LIMIT = 20;
+
+// ---------------------------------------------------------------------------
+// Data version
+// ---------------------------------------------------------------------------
+
+let cachedVersion: string | null = null;
+
+/** Short content hash of the loaded suburb dataset. */
+export function dataVersion(): string {
+  if (!cachedVersion) {
+    cachedVersion = crypto
+      .createHash("sha1")
+      .update(JSON.stringify(getAllSuburbs()))
+      .digest("hex")
+      .slice(0, 12);
+  }
+  return cachedVersion;
+}
+
+// ---------------------------------------------------------------------------
+// Snapshots + diffs
+// ---------------------------------------------------------------------------
+
+/**
+ * Every current match for a saved search, or null if its params no longer
+ * validate or it can't be run right now (e.g. ORS is down for a
+ * max_commute_min search).
+ */
+async function takeSnapshot(params: SearchParams): Promise<Snapshot | null> {
+  let outcome: Awaited<ReturnType<typeof recommend>>;
+  try {
+    outcome = await recommend(new URLSearchParams(params), Infinity);
+  } catch (error) {
+    console.warn("Saved search could not be re-run:", error);
+    return null;
+  }
+  if ("error" in outcome) return null;
+
+  // Budget searches only return suburbs within budget, so every match counts
+  const threshold = outcome.result.mode === "budget" ? 100 : AFFORDABLE_STRESS_PCT;
+  const snapshot: Snapshot = {};
+  for (const s of outcome.result.suburbs) {
+    snapshot[s.suburb_key] = {
+      rent: s.per_person_rent,
+      share_pct: s.rent_share_pct,
+      affordable: s.rent_share_pct <= threshold,
+    };
+  }
+  return snapshot;
+}
+
+function suburbName(key: string): string | null {
+  return getSuburbByKey(key)?.suburb_name ?? null;
+}
+
+export function diffSnapshots(before: Snapshot, after: Snapshot): SearchDiff {
+  const newlyAffordable: AffordabilityChange[] = [];
+  const noLongerAffordable: AffordabilityChange[] = [];
+  const rentMoves: RentMove[] = [];
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const prev = before[key];
+    const curr = after[key];
+    const change: AffordabilityChange = {
+      suburb_key: key,
+      suburb_name: suburbName(key),
+      previous_rent: prev?.rent ?? null,
+      rent: curr?.rent ?? null,
+      rent_share_pct: curr?.share_pct ?? null,
+    };
+    if (curr?.affordable && !prev?.affordable) newlyAffordable.push(change);
+    if (prev?.affordable && !curr?.affordable) noLongerAffordable.push(change);
+
+    if (prev && curr && prev.rent > 0) {
+      const changePct = Math.round(((curr.rent - prev.rent) / prev.rent) * 1000) / 10;
+      if (Math.abs(changePct) >= MIN_RENT_MOVE_PCT) {
+        rentMoves.push({
+          suburb_key: key,
+          suburb_name: change.suburb_name,
+          previous_rent: prev.rent,
+          rent: curr.rent,
+          change: Math.round((curr.rent - prev.rent) * 10) / 10,
+          change_pct: changePct,
+        });
+      }
+    }
+  }
+
+  newlyAffordable.sort((a, b) => a.rent_share_pct! - b.rent_share_pct!);
+  noLongerAffordable.sort((a, b) => (a.previous_rent ?? 0) - (b.previous_rent ?? 0));
+  rentMoves.sort((a, b) => Math.abs(b.change_pct) - Math.abs(a.change_pct));
+
+  return {
+    newly_affordable: newlyAffordable,
+    no_longer_affordable: noLongerAffordable,
+    rent_moves: rentMoves.slice(0, MAX_RENT_MOVES),
+  };
+}
+
+function isEmptyDiff(diff: SearchDiff): boolean {
+  return diff.newly_affordable.length === 0 && diff.no_longer_affordable.length === 0 && diff.rent_moves.length === 0;
+}
+
+function saveSnapshot(searchId: number, version: string, snapshot: Snapshot): void {
+  getDb()
+    .prepare(
+      `INSERT INTO search_snapshots (search_id, data_version, matches, taken_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(search_id) DO UPDATE SET
+         data_version = excluded.data_version, matches = excluded.matches, taken_at = excluded.taken_at`,
+    )
+    .run(searchId, version, JSON.stringify(snapshot), new Date().toISOString());
+}
+
+/**
+ * Record a saved search's current matches as the baseline for future alerts.
+ * Called when a search is created or its params change.
+ */
+export async function recordBaseline(search: SavedSearch): Promise<void> {
+  const snapshot = await takeSnapshot(search.params);
+  if (snapshot) saveSnapshot(search.id, dataVersion(), snapshot);
+}
+
+// ---------------------------------------------------------------------------
+// Email
+// ---------------------------------------------------------------------------
+
+function formatRent(rent: number | null): string {
+  return rent == null ? "no data" : `$${Math.round(rent)}/wk`;
+}
+
+function alertEmailText(search: SavedSearch, diff: SearchDiff): string {
+  const lines = [`The rent data behind your saved search "${search.name}" has been updated.`, ""];
+  const list = (title: string, items: AffordabilityChange[]) => {
+    if (items.length === 0) return;
+    lines.push(`${title} (${items.length}):`);
+    for (const c of items.slice(0, 10)) {
+      lines.push(`  - ${c.suburb_name ?? c.suburb_key}: ${formatRent(c.previous_rent)} → ${formatRent(c.rent)}`);
+    }
+    if (items.length > 10) lines.push(`  …and ${items.length - 10} more`);
+    lines.push("");
+  };
+  list("Newly affordable", diff.newly_affordable);
+  list("No longer affordable", diff.no_longer_affordable);
+  if (diff.rent_moves.length > 0) {
+    lines.push("Biggest rent moves:");
+    for (const m of diff.rent_moves) {
+      const sign = m.change_pct > 0 ? "+" : "";
+      lines.push(`  - ${m.suburb_name ?? m.suburb_key}: ${formatRent(m.previous_rent)} → ${formatRent(m.rent)} (${sign}${m.change_pct}%)`);
+    }
+    lines.push("");
+  }
+  lines.push("Open Sydney RentSmart to re-run the search.");
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+/**
+ * Re-run a device's saved searches against the current data. Searches with
+ * no snapshot get a baseline; searches whose snapshot predates the current
+ * data get an alert when anything changed. Returns the IDs of new alerts.
+ */
+export async function evaluateSavedSearches(deviceId: string): Promise<number[]> {
+  const db = getDb();
+  const version = dataVersion();
+  const created: number[] = [];
+
+  for (const search of listSavedSearches(deviceId)) {
+    const row = db
+      .prepare("SELECT data_version, matches FROM search_snapshots WHERE search_id = ?")
+      .get(search.id) as { data_version: string; matches: string } | undefined;
+    if (row?.data_version === version) continue;
+
+    const snapshot = await takeSnapshot(search.params);
+    if (!snapshot) {
+      console.warn(`Saved search ${search.id} could not be re-run; skipping alert check`);
+      continue;
+    }
+    if (!row) {
+      saveSnapshot(search.id, version, snapshot);
+      continue;
+    }
+
+    const diff = diffSnapshots(JSON.parse(row.matches) as Snapshot, snapshot);
+    db.transaction(() => {
+      saveSnapshot(search.id, version, snapshot);
+      if (isEmptyDiff(diff)) return;
+      const result = db
+        .prepare("INSERT INTO search_alerts (search_id, from_version, to_version, diff, created_at) VALUES (?, ?, ?, ?, ?)")
+        .run(search.id, row.data_version, version, JSON.stringify(diff), new Date().toISOString());
+      created.push(Number(result.lastInsertRowid));
+    })();
+
+    if (!isEmptyDiff(diff) && search.alert_email) {
+      sendMail({
+        to: search.alert_email,
+        subject: `Rent update for "${search.name}": ${diff.newly_affordable.length} newly affordable, ${diff.no_longer_affordable.length} no longer affordable`,
+        text: alertEmailText(search, diff),
+      });
+    }
+  }
+  return created;
+}
+
+/** Evaluate every device's saved searches — run after the rent data is regenerated. */
+export async function evaluateAllSavedSearches(): Promise<{ devices: number; alerts: number }> {
+  const deviceIds = getDb()
+    .prepare("SELECT DISTINCT device_id FROM saved_searches")
+    .all() as { device_id: string }[];
+  let alerts = 0;
+  for (const { device_id } of deviceIds) alerts += (await evaluateSavedSearches(device_id)).length;
+  return { devices: deviceIds.length, alerts };
+}
+
+// ---------------------------------------------------------------------------
+// Alert inbox
+// ---------------------------------------------------------------------------
+
+const ALERT_COLUMNS = `a.id, a.search_id, s.name AS search_name, s.params AS search_params,
+  a.from_version, a.to_version, a.created_at, a.read_at, a.diff`;
+
+function toAlert(row: AlertRow): SearchAlert {
+  return {
+    ...row,
+    search_params: JSON.parse(row.search_params) as SearchParams,
+    diff: JSON.parse(row.diff) as SearchDiff,
+  };
+}
+
+/** Newest alerts for a device's saved searches. */
+export function listAlerts(deviceId: string, limit = ALERT_LIST_LIMIT): SearchAlert[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT ${ALERT_COLUMNS} FROM search_alerts a JOIN saved_searches s ON s.id = a.search_id
+       WHERE s.device_id = ? ORDER BY a.created_at DESC, a.id DESC LIMIT ?`,
+    )
+    .all(deviceId, limit) as AlertRow[];
+  return rows.map(toAlert);
+}
+
+export function countUnreadAlerts(deviceId: string): number {
+  const row = getDb()
+    .prepare(
+      `SELECT COUNT(*) AS n FROM search_alerts a JOIN saved_searches s ON s.id = a.search_id
+       WHERE s.device_id = ? AND a.read_at IS NULL`,
+    )
+    .get(deviceId) as { n: number };
+  return row.n;
+}
+
+export function getAlert(deviceId: string, id: number): SearchAlert | null {
+  const row = getDb()
+    .prepare(
+      `SELECT ${ALERT_COLUMNS} FROM search_alerts a JOIN saved_searches s ON s.id = a.search_id
+       WHERE s.device_id = ? AND a.id = ?`,
+    )
+    .get(deviceId, id) as AlertRow | undefined;
+  return row ? toAlert(row) : null;
+}
+
+export function setAlertRead(deviceId: string, id: number, read: boolean): SearchAlert | null {
+  if (!getAlert(deviceId, id)) return null;
+  getDb()
+    .prepare("UPDATE search_alerts SET read_at = ? WHERE id = ?")
+    .run(read ? new Date().toISOString() : null, id);
+  return getAlert(deviceId, id);
+}
+
+export function deleteAlert(deviceId: string, id: number): boolean {
+  if (!getAlert(deviceId, id)) return false;
+  return getDb().prepare("DELETE FROM search_alerts WHERE id = ?").run(id).changes > 0;
+}
@@ -1,4 +1,17 @@
-import amenityData from "@/data/suburb_amenities.json";
+import legacyAmenityData from "@/data/suburb_amenities.json";
+import { pointsWithin, type PointCategory } from "@/lib/amenity-points";
+import { AMENITY_PROFILES, scoreAmenities, type AmenityProfile, type AmenityScore } from "@/lib/amenity-profiles";
+import { getPoiSummaries } from "@/lib/poi";
+import { getSuburbByKey, type Suburb } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Amenities around each suburb, keyed by suburb_key. Hospitals, schools,
+// universities, fire stations and medical centres come from the point
+// datasets in src/data, measured from the suburb's centroid, so every suburb
+// with a lat/lng has them. Police and childcare have no point dataset yet and
+// still come from the postcode-keyed suburb_amenities.json, which covers
+// 186 postcodes.
+// ---------------------------------------------------------------------------
 
 // ---------------------------------------------------------------------------
 // Types
@@ -16,6 +29,7 @@ export interface SuburbAmenities {
   schools: AmenityItem[];
   universities: AmenityItem[];
   fire_stations: AmenityItem[];
+  medical_centers: AmenityItem[];
   police: AmenityItem[];
   childcare: AmenityItem[];
 }
@@ -25,64 +39,107 @@ export interface AmenitySummary {
   school_count: number;
   university_count: number;
   fire_station_count: number;
+  medical_center_count: number;
   police_count: number;
   childcare_count: number;
 }
 
+type LegacyCategory = "police" | "childcare";
+
 // ---------------------------------------------------------------------------
 // Data access
 // ---------------------------------------------------------------------------
 
-const data = amenityData as Record<string, SuburbAmenities>;
+/** Places this far from a centroid count as nearby — as far as the old postcode lists reached. */
+export const AMENITY_RADIUS_KM = 8;
+/** Nearest places listed per category; counts and scores use every place within the radius. */
+const MAX_PER_CATEGORY = 10;
+
+const POINT_FIELDS: PointCategory[] = ["hospitals", "schools", "universities", "fire_stations", "medical_centers"];
+
+const legacyData = legacyAmenityData as Record<string, Record<LegacyCategory, AmenityItem[]>>;
 
 const EMPTY: SuburbAmenities = {
   hospitals: [],
   schools: [],
   universities: [],
   fire_stations: [],
+  medical_centers: [],
   police: [],
   childcare: [],
 };
 
-/** Get full amenity lists for a postcode. */
-export function getAmenities(postcode: string): SuburbAmenities {
-  return data[postcode] ?? EMPTY;
+// Every place within the radius, computed on first request per suburb; the
+// datasets don't change at runtime
+const cache = new Map<string, SuburbAmenities>();
+
+function computeAmenities(suburb: Suburb): SuburbAmenities {
+  const legacy = legacyData[suburb.postcode];
+  const amenities: SuburbAmenities = {
+    ...EMPTY,
+    police: legacy?.police ?? [],
+    childcare: legacy?.childcare ?? [],
+  };
+  if (suburb.lat == null || suburb.lng == null) return amenities;
+
+  for (const category of POINT_FIELDS) {
+    amenities[category] = pointsWithin(category, suburb.lat, suburb.lng, AMENITY_RADIUS_KM).map(({ item, distance_km }) => ({
+        name: item.name,
+        distance_km: Math.round(distance_km * 10) / 10,
+        lat: item.lat,
+        lng: item.lng,
+      }));
+  }
+  return amenities;
+}
+
+function allAmenities(suburbKey: string): SuburbAmenities {
+  const cached = cache.get(suburbKey);
+  if (cached) return cached;
+
+  const suburb = getSuburbByKey(suburbKey);
+  if (!suburb) return EMPTY;
+  const amenities = computeAmenities(suburb);
+  cache.set(suburbKey, amenities);
+  return amenities;
 }
 
-/** Get counts per category for a postcode. */
-export function getAmenitySummary(postcode: string): AmenitySummary {
-  const a = getAmenities(postcode);
+/** Get amenity lists for a suburb, nearest first; empty lists for an unknown key. */
+export function getAmenities(suburbKey: string): SuburbAmenities {
+  const amenities = { ...allAmenities(suburbKey) };
+  for (const category of POINT_FIELDS) {
+    amenities[category] = amenities[category].slice(0, MAX_PER_CATEGORY);
+  }
+  return amenities;
+}
+
+/** Get counts per category for a suburb — every place within AMENITY_RADIUS_KM. */
+export function getAmenitySummary(suburbKey: string): AmenitySummary {
+  const a = allAmenities(suburbKey);
   return {
     hospital_count: a.hospitals.length,
     school_count: a.schools.length,
     university_count: a.universities.length,
     fire_station_count: a.fire_stations.length,
+    medical_center_count: a.medical_centers.length,
     police_count: a.police.length,
     childcare_count: a.childcare.length,
   };
 }
 
 /**
- * Calculate an amenity score (0–100) for a postcode.
- *
- * Scoring:
- * - Hospital within 2 km:      +25
- * - 3+ schools within 5 km:    +25
- * - University within 5 km:    +15
- * - Fire station within 5 km:  +10
- * - Police within 5 km:        +10
- * - Childcare within 3 km:     +15
+ * A suburb's amenity score (0–100) under a scoring profile, with the outcome
+ * of each rule; walk rules use the suburb's cached POIs, if any. Defaults to
+ * the balanced profile.
  */
-export function getAmenityScore(postcode: string): number {
-  const a = getAmenities(postcode);
-  let score = 0;
-
-  if (a.hospitals.some((h) => h.distance_km <= 2)) score += 25;
-  if (a.schools.filter((s) => s.distance_km <= 5).length >= 3) score += 25;
-  if (a.universities.some((u) => u.distance_km <= 5)) score += 15;
-  if (a.fire_stations.some((f) => f.distance_km <= 5)) score += 10;
-  if (a.police.some((p) => p.distance_km <= 5)) score += 10;
-  if (a.childcare.some((c) => c.distance_km <= 3)) score += 15;
-
-  return score;
+export function explainAmenityScore(
+  suburbKey: string,
+  profile: AmenityProfile = AMENITY_PROFILES.balanced,
+): AmenityScore {
+  return scoreAmenities(allAmenities(suburbKey), profile, getPoiSummaries().get(suburbKey)?.scores ?? null);
+}
+
+/** Just the 0–100 score from explainAmenityScore. */
+export function getAmenityScore(suburbKey: string, profile?: AmenityProfile): number {
+  return explainAmenityScore(suburbKey, profile).score;
 }
@@ -0,0 +1,110 @@
+import hospitalData from "@/data/hospitals.json";
+import schoolData from "@/data/schools.json";
+import universityData from "@/data/universities.json";
+import fireStationData from "@/data/fire_stations.json";
+import medicalCentreData from "@/data/medical_centers.json";
+import { createSpatialIndex, type Neighbour, type SpatialIndex } from "@/lib/spatial-index";
+
+// ---------------------------------------------------------------------------
+// Point datasets in src/data — hospitals, schools, universities, fire
+// stations and medical centres — each behind a spatial index for nearest
+// and within-radius lookups. Stations have theirs in commute.ts.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface PlaceBase {
+  name: string;
+  lat: number;
+  lng: number;
+  suburb: string;
+}
+
+export interface Hospital extends PlaceBase {
+  type: "public" | "private";
+  emergency: boolean;
+}
+
+export interface School extends PlaceBase {
+  type: "public" | "selective" | "catholic" | "private";
+  level: "primary" | "secondary" | "k-12";
+}
+
+export interface University extends PlaceBase {
+  type: "public" | "private";
+}
+
+export type FireStation = PlaceBase;
+
+export interface MedicalCentre extends PlaceBase {
+  bulk_billing: boolean;
+}
+
+/** Place type per dataset. */
+export interface AmenityPoints {
+  hospitals: Hospital;
+  schools: School;
+  universities: University;
+  fire_stations: FireStation;
+  medical_centers: MedicalCentre;
+}
+
+export type PointCategory = keyof AmenityPoints;
+
+export const POINT_CATEGORIES: PointCategory[] = [
+  "hospitals",
+  "schools",
+  "universities",
+  "fire_stations",
+  "medical_centers",
+];
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+const datasets: { [C in PointCategory]: AmenityPoints[C][] } = {
+  hospitals: hospitalData as Hospital[],
+  schools: schoolData as School[],
+  universities: universityData as University[],
+  fire_stations: fireStationData as FireStation[],
+  medical_centers: medicalCentreData as MedicalCentre[],
+};
+
+// Built on first use of each category
+const indexes = new Map<PointCategory, SpatialIndex<PlaceBase>>();
+
+export function getAllPoints<C extends PointCategory>(category: C): AmenityPoints[C][] {
+  return datasets[category];
+}
+
+export function getPointIndex<C extends PointCategory>(category: C): SpatialIndex<AmenityPoints[C]> {
+  let index = indexes.get(category);
+  if (!index) {
+    index = createSpatialIndex<PlaceBase>(datasets[category]);
+    indexes.set(category, index);
+  }
+  return index as SpatialIndex<AmenityPoints[C]>;
+}
+
+/** Up to `k` places of a category nearest a point, nearest first. */
+export function nearestPoints<C extends PointCategory>(
+  category: C,
+  lat: number,
+  lng: number,
+  k = 1,
+): Neighbour<AmenityPoints[C]>[] {
+  return getPointIndex(category).nearest(lat, lng, k);
+}
+
+/** Every place of a category within `radiusKm` of a point, nearest first. */
+export function pointsWithin<C extends PointCategory>(
+  category: C,
+  lat: number,
+  lng: number,
+  radiusKm: number,
+): Neighbour<AmenityPoints[C]>[] {
+  return getPointIndex(category).within(lat, lng, radiusKm);
+}
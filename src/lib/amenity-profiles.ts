@@ -0,0 +1,282 @@
+import type { SuburbAmenities } from "@/lib/amenities";
+import type { WalkScores } from "@/lib/poi";
+
+// ---------------------------------------------------------------------------
+// Amenity scoring profiles — who the amenity score is for. Each profile is a
+// list of rules over amenity categories ("a hospital within 2 km: 25 points");
+// a suburb earns a rule's points when it has enough of that category within
+// the distance, and its score is the share of the profile's points earned,
+// 0–100. "balanced" is the original fixed scoring.
+//
+// Walk rules add the walkability sub-scores from the POI cache (poi.ts) to
+// the same pool, with partial credit: a daily-needs score of 60 earns 60% of
+// its rule's points. A suburb whose POIs aren't cached yet is scored on its
+// count rules alone.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AmenityCategory = keyof SuburbAmenities;
+
+export const AMENITY_CATEGORIES: AmenityCategory[] = [
+  "hospitals",
+  "schools",
+  "universities",
+  "fire_stations",
+  "medical_centers",
+  "police",
+  "childcare",
+];
+
+export interface AmenityRule {
+  category: AmenityCategory;
+  within_km: number;
+  min_count: number;
+  points: number;
+}
+
+export type AmenityProfileId = "balanced" | "family" | "student" | "professional" | "retiree";
+
+export const AMENITY_PROFILE_IDS: AmenityProfileId[] = ["balanced", "family", "student", "professional", "retiree"];
+
+export function isAmenityProfileId(value: string): value is AmenityProfileId {
+  return (AMENITY_PROFILE_IDS as string[]).includes(value);
+}
+
+export type WalkAspect = keyof WalkScores;
+
+export const WALK_ASPECTS: WalkAspect[] = ["daily_needs", "green_space", "fitness"];
+
+export interface WalkRule {
+  aspect: WalkAspect;
+  points: number; // earned in proportion to the 0–100 sub-score
+}
+
+/** A named profile, or "custom" built from caller weights. */
+export interface AmenityProfile {
+  id: AmenityProfileId | "custom";
+  label: string;
+  rules: AmenityRule[];
+  walk_rules: WalkRule[];
+}
+
+/** How one suburb did on one rule. */
+export interface RuleOutcome extends AmenityRule {
+  description: string; // "3+ schools within 5 km"
+  found: number; // places of the category within the distance
+  earned: number; // points, 0 or the rule's points
+}
+
+/** How one suburb did on one walk rule. */
+export interface WalkOutcome extends WalkRule {
+  description: string; // "Parks within walking distance"
+  walk_score: number | null; // the sub-score; null until the suburb's POIs are cached
+  earned: number;
+}
+
+export interface AmenityScore {
+  profile: AmenityProfile["id"];
+  score: number; // 0–100
+  rules: RuleOutcome[];
+  walk_rules: WalkOutcome[];
+}
+
+// ---------------------------------------------------------------------------
+// Profiles
+// ---------------------------------------------------------------------------
+
+const rule = (category: AmenityCategory, within_km: number, points: number, min_count = 1): AmenityRule => ({
+  category,
+  within_km,
+  min_count,
+  points,
+});
+
+const walk = (aspect: WalkAspect, points: number): WalkRule => ({ aspect, points });
+
+export const AMENITY_PROFILES: Record<AmenityProfileId, AmenityProfile> = {
+  balanced: {
+    id: "balanced",
+    label: "Balanced",
+    rules: [
+      rule("hospitals", 2, 25),
+      rule("schools", 5, 25, 3),
+      rule("universities", 5, 15),
+      rule("fire_stations", 5, 10),
+      rule("police", 5, 10),
+      rule("childcare", 3, 15),
+    ],
+    walk_rules: [walk("daily_needs", 15), walk("green_space", 10), walk("fitness", 5)],
+  },
+  family: {
+    id: "family",
+    label: "Family",
+    rules: [
+      rule("schools", 3, 25, 2),
+      rule("schools", 5, 10, 4),
+      rule("childcare", 2, 20),
+      rule("medical_centers", 3, 15),
+      rule("hospitals", 5, 15),
+      rule("police", 5, 10),
+      rule("fire_stations", 5, 5),
+    ],
+    walk_rules: [walk("green_space", 15), walk("daily_needs", 10)],
+  },
+  student: {
+    id: "student",
+    label: "Student",
+    rules: [
+      rule("universities", 3, 35),
+      rule("universities", 8, 15),
+      rule("medical_centers", 3, 20),
+      rule("medical_centers", 5, 10, 2),
+      rule("hospitals", 8, 10),
+      rule("police", 5, 10),
+    ],
+    walk_rules: [walk("daily_needs", 15), walk("fitness", 10)],
+  },
+  professional: {
+    id: "professional",
+    label: "Professional",
+    rules: [
+      rule("medical_centers", 2, 30),
+      rule("hospitals", 5, 20),
+      rule("childcare", 3, 15),
+      rule("police", 5, 15),
+      rule("fire_stations", 5, 10),
+      rule("universities", 5, 10),
+    ],
+    walk_rules: [walk("fitness", 15), walk("daily_needs", 10)],
+  },
+  retiree: {
+    id: "retiree",
+    label: "Retiree",
+    rules: [
+      rule("hospitals", 3, 30),
+      rule("hospitals", 8, 10, 2),
+      rule("medical_centers", 2, 30, 2),
+      rule("police", 3, 15),
+      rule("fire_stations", 3, 15),
+    ],
+    walk_rules: [walk("daily_needs", 20), walk("green_space", 10)],
+  },
+};
+
+/** Distance and count a custom weight applies at, per category. */
+const CUSTOM_RULES: Record<AmenityCategory, { within_km: number; min_count: number }> = {
+  hospitals: { within_km: 5, min_count: 1 },
+  schools: { within_km: 3, min_count: 2 },
+  universities: { within_km: 5, min_count: 1 },
+  fire_stations: { within_km: 5, min_count: 1 },
+  medical_centers: { within_km: 2, min_count: 1 },
+  police: { within_km: 5, min_count: 1 },
+  childcare: { within_km: 3, min_count: 1 },
+};
+
+// ---------------------------------------------------------------------------
+// Params
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve the profile from `amenity_profile` (default "balanced") or, when
+ * any `aw_<category>` or `aw_<walk aspect>` weight is given (e.g.
+ * aw_schools=3, aw_green_space=2), a custom profile with one rule per
+ * weighted category or aspect. Returns an error string for an unknown
+ * profile or a weight that isn't a non-negative number.
+ */
+export function parseAmenityProfile(params: URLSearchParams): { profile: AmenityProfile } | { error: string } {
+  const weights: Partial<Record<AmenityCategory | WalkAspect, number>> = {};
+  for (const key of [...AMENITY_CATEGORIES, ...WALK_ASPECTS]) {
+    const raw = params.get(`aw_${key}`);
+    if (raw == null) continue;
+    const weight = Number(raw);
+    if (raw.trim() === "" || isNaN(weight) || weight < 0) {
+      return { error: `aw_${key} must be a non-negative number` };
+    }
+    if (weight > 0) weights[key] = weight;
+  }
+  const rules: AmenityRule[] = AMENITY_CATEGORIES.flatMap((category) => {
+    const points = weights[category];
+    return points ? [{ category, ...CUSTOM_RULES[category], points }] : [];
+  });
+  const walkRules: WalkRule[] = WALK_ASPECTS.flatMap((aspect) => {
+    const points = weights[aspect];
+    return points ? [walk(aspect, points)] : [];
+  });
+  if (rules.length > 0 || walkRules.length > 0) {
+    return { profile: { id: "custom", label: "Custom", rules, walk_rules: walkRules } };
+  }
+
+  const id = params.get("amenity_profile") || "balanced";
+  if (!isAmenityProfileId(id)) {
+    return { error: `amenity_profile must be one of: ${AMENITY_PROFILE_IDS.join(", ")}` };
+  }
+  return { profile: AMENITY_PROFILES[id] };
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+const CATEGORY_NOUNS: Record<AmenityCategory, [string, string]> = {
+  hospitals: ["hospital", "hospitals"],
+  schools: ["school", "schools"],
+  universities: ["university", "universities"],
+  fire_stations: ["fire station", "fire stations"],
+  medical_centers: ["medical centre", "medical centres"],
+  police: ["police station", "police stations"],
+  childcare: ["childcare centre", "childcare centres"],
+};
+
+/** "Hospital within 2 km", "3+ schools within 5 km". */
+export function describeRule(r: AmenityRule): string {
+  const [one, many] = CATEGORY_NOUNS[r.category];
+  const what = r.min_count > 1 ? `${r.min_count}+ ${many}` : one[0].toUpperCase() + one.slice(1);
+  return `${what} within ${r.within_km} km`;
+}
+
+const WALK_DESCRIPTIONS: Record<WalkAspect, string> = {
+  daily_needs: "Shops and a pharmacy within walking distance",
+  green_space: "Parks within walking distance",
+  fitness: "A gym within walking distance",
+};
+
+export function describeWalkRule(r: WalkRule): string {
+  return WALK_DESCRIPTIONS[r.aspect];
+}
+
+/**
+ * Score a suburb's amenities against a profile, rule by rule. `walk` is the
+ * suburb's walkability from the POI cache; without it the walk rules earn
+ * nothing and drop out of the points available.
+ */
+export function scoreAmenities(
+  amenities: SuburbAmenities,
+  profile: AmenityProfile,
+  walk: WalkScores | null = null,
+): AmenityScore {
+  let earned = 0;
+  let possible = 0;
+  const rules = profile.rules.map((r) => {
+    const found = amenities[r.category].filter((a) => a.distance_km <= r.within_km).length;
+    const points = found >= r.min_count ? r.points : 0;
+    earned += points;
+    possible += r.points;
+    return { ...r, description: describeRule(r), found, earned: points };
+  });
+  const walkRules = profile.walk_rules.map((r) => {
+    const walkScore = walk?.[r.aspect] ?? null;
+    const points = walkScore === null ? 0 : Math.round(r.points * walkScore) / 100;
+    earned += points;
+    if (walkScore !== null) possible += r.points;
+    return { ...r, description: describeWalkRule(r), walk_score: walkScore, earned: points };
+  });
+  return {
+    profile: profile.id,
+    score: possible > 0 ? Math.round((earned / possible) * 100) : 0,
+    rules,
+    walk_rules: walkRules,
+  };
+}
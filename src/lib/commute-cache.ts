@@ -0,0 +1,112 @@
+import { defaultTripTime, type TripTime } from "@/lib/trip-time";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TransitResult {
+  duration_min: number;
+  transfers: number;
+  modes: string[];
+  summary: string;
+  departure: string;
+  arrival: string;
+}
+
+export interface DrivingResult {
+  duration_min: number;
+  distance_km: number;
+  traffic_note: string;
+}
+
+/** Cycling or walking — ORS, or a straight-line estimate when it's unavailable. */
+export interface ActiveTravelResult {
+  duration_min: number;
+  distance_km: number;
+  estimated: boolean;
+}
+
+/** One direction of a commute at one time. */
+export interface CommuteLeg {
+  transit: TransitResult | null;
+  transit_error?: string;
+  driving: DrivingResult | null;
+  driving_error?: string;
+  cycling: ActiveTravelResult | null;
+  cycling_error?: string;
+  walking: ActiveTravelResult | null;
+  walking_error?: string;
+}
+
+export interface WeeklyCommute {
+  office_days: number;
+  /** Round trips × office days; null when a leg has no time for the mode */
+  transit_min: number | null;
+  driving_min: number | null;
+  cycling_min: number | null;
+  walking_min: number | null;
+  /** No return leg was asked for, so the trip home is taken to match the trip in */
+  return_assumed: boolean;
+}
+
+/** The outbound (home → work) leg at the top level, as before, plus the rest. */
+export interface CommuteResponse extends CommuteLeg {
+  straight_line_km: number;
+  trip: TripTime;
+  return_leg: (CommuteLeg & { trip: TripTime }) | null;
+  weekly: WeeklyCommute;
+}
+
+interface CachedResult {
+  data: CommuteLeg;
+  timestamp: number;
+}
+
+// ---------------------------------------------------------------------------
+// In-memory cache (24-hour TTL)
+//
+// Shared between /api/commute (which fills it) and /api/recommend (which
+// reads it to prefer real commute times over estimates).
+// ---------------------------------------------------------------------------
+
+const cache = new Map<string, CachedResult>();
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export function cacheKey(
+  fromLat: number,
+  fromLng: number,
+  toLat: number,
+  toLng: number,
+  trip: TripTime,
+): string {
+  const coords = `${fromLat.toFixed(2)}_${fromLng.toFixed(2)}_${toLat.toFixed(2)}_${toLng.toFixed(2)}`;
+  return `${coords}_${trip.date}_${trip.mode}${trip.time}`;
+}
+
+export function getCached(key: string): CommuteLeg | null {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (Date.now() - entry.timestamp > CACHE_TTL_MS) {
+    cache.delete(key);
+    return null;
+  }
+  return entry.data;
+}
+
+export function setCached(key: string, data: CommuteLeg): void {
+  cache.set(key, { data, timestamp: Date.now() });
+}
+
+/**
+ * Look up a cached commute between two points, if one was fetched recently —
+ * by default the next-weekday 8am departure /api/commute quotes unprompted.
+ */
+export function getCachedCommute(
+  fromLat: number,
+  fromLng: number,
+  toLat: number,
+  toLng: number,
+  trip: TripTime = defaultTripTime(),
+): CommuteLeg | null {
+  return getCached(cacheKey(fromLat, fromLng, toLat, toLng, trip));
+}
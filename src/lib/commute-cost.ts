@@ -0,0 +1,307 @@
+import { haversineKm } from "@/lib/commute";
+import { EMPLOYMENT_HUBS, HUB_IDS, type HubId } from "@/lib/hubs";
+
+// ---------------------------------------------------------------------------
+// Weekly commute cost — Opal fares for public transport; fuel, tolls and
+// workplace parking for driving. Figures are 2025–26 adult peak rates,
+// rounded; distances are straight-line unless the caller has a road distance.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CostMode = "transit" | "driving";
+
+export const COST_MODES: CostMode[] = ["transit", "driving"];
+
+export function isCostMode(value: string): value is CostMode {
+  return (COST_MODES as string[]).includes(value);
+}
+
+export interface CostOptions {
+  office_days: number; // round trips a week
+  concession: boolean; // transit only
+}
+
+export interface TransitCost {
+  mode: "transit";
+  fare: number; // one way
+  daily: number; // after the daily cap
+  weekly: number; // after the weekly cap
+  capped: "daily" | "weekly" | null;
+}
+
+export interface DrivingCost {
+  mode: "driving";
+  // Weekly $ per component
+  fuel: number;
+  tolls: number;
+  parking: number;
+  weekly: number;
+  toll_roads: string[];
+}
+
+export type CommuteCost = TransitCost | DrivingCost;
+
+// ---------------------------------------------------------------------------
+// Opal fares
+// ---------------------------------------------------------------------------
+
+/** Train/metro peak fare by trip distance: [up to km, adult $]. */
+const OPAL_BANDS: [number, number][] = [
+  [10, 4.2],
+  [20, 5.22],
+  [35, 6.01],
+  [65, 8.03],
+  [Infinity, 10.33],
+];
+const OPAL_DAILY_CAP = 19.3;
+const OPAL_WEEKLY_CAP = 51.6;
+/** Concession (student, jobseeker, apprentice) fares and caps are half the adult ones. */
+const CONCESSION_FACTOR = 0.5;
+
+/** Opal measures track distance; lines run ~1.3× the straight line. */
+const TRACK_DETOUR = 1.3;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Weekly Opal spend for `office_days` return trips over a straight-line distance. */
+export function transitCost(straightLineKm: number, options: CostOptions): TransitCost {
+  const factor = options.concession ? CONCESSION_FACTOR : 1;
+  const km = straightLineKm * TRACK_DETOUR;
+  const fare = OPAL_BANDS.find(([upTo]) => km <= upTo)![1] * factor;
+
+  const dailyCap = OPAL_DAILY_CAP * factor;
+  const weeklyCap = OPAL_WEEKLY_CAP * factor;
+  const daily = Math.min(fare * 2, dailyCap);
+  const weekly = Math.min(daily * options.office_days, weeklyCap);
+
+  return {
+    mode: "transit",
+    fare: round2(fare),
+    daily: round2(daily),
+    weekly: round2(weekly),
+    capped: weekly < daily * options.office_days ? "weekly" : daily < fare * 2 ? "daily" : null,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Driving
+// ---------------------------------------------------------------------------
+
+const FUEL_L_PER_100KM = 9;
+const FUEL_PRICE_PER_L = 2.05;
+/** Road distance ≈ straight line × 1.3 when no routed distance is known. */
+const ROAD_DETOUR = 1.3;
+
+/** Daily parking near each employment hub (early-bird rates); elsewhere assumed free. */
+const HUB_PARKING_PER_DAY: Record<HubId, number> = {
+  cbd: 35,
+  north_sydney: 28,
+  parramatta: 18,
+  chatswood: 18,
+  macquarie_park: 12,
+};
+/** Workplaces this close to a hub pay its parking rate. */
+const PARKING_RADIUS_KM = 1.5;
+
+/**
+ * Sydney's toll roads, simplified to a few points along each. A corridor road
+ * is on the route when the home→work line runs alongside most of it (or for
+ * 5+ km); a crossing is on it when the line crosses it. Tolls are one-way
+ * peak car tolls — distance-based roads charge for the share of road used,
+ * and `one_way` roads only charge in one direction.
+ */
+interface TollRoad {
+  name: string;
+  kind: "corridor" | "crossing";
+  path: [number, number][]; // [lat, lng]
+  toll: number;
+  distance_based?: boolean;
+  one_way?: boolean;
+}
+
+const TOLL_ROADS: TollRoad[] = [
+  {
+    name: "Harbour Bridge/Tunnel",
+    kind: "crossing",
+    // Balls Head to Bradleys Head — west of it, Gladesville Bridge is free
+    path: [[-33.845, 151.195], [-33.853, 151.247]],
+    toll: 4.41,
+    one_way: true,
+  },
+  {
+    name: "Eastern Distributor",
+    kind: "corridor",
+    path: [[-33.869, 151.214], [-33.895, 151.207], [-33.922, 151.195]],
+    toll: 9.45,
+    one_way: true,
+  },
+  {
+    name: "M2 Hills Motorway",
+    kind: "corridor",
+    path: [[-33.792, 151.133], [-33.773, 151.087], [-33.752, 151.06], [-33.745, 150.995], [-33.762, 150.937]],
+    toll: 9.06,
+  },
+  {
+    name: "Lane Cove Tunnel",
+    kind: "corridor",
+    path: [[-33.797, 151.14], [-33.82, 151.175]],
+    toll: 4.07,
+  },
+  {
+    name: "NorthConnex",
+    kind: "corridor",
+    path: [[-33.716, 151.113], [-33.738, 151.077], [-33.76, 151.04]],
+    toll: 9.19,
+  },
+  {
+    name: "WestConnex M4",
+    kind: "corridor",
+    path: [[-33.822, 151.0], [-33.848, 151.05], [-33.866, 151.09], [-33.88, 151.14]],
+    toll: 10.15,
+    distance_based: true,
+  },
+  {
+    name: "WestConnex M8",
+    kind: "corridor",
+    path: [[-33.941, 151.1], [-33.928, 151.14], [-33.915, 151.18]],
+    toll: 8.46,
+    distance_based: true,
+  },
+  {
+    name: "M5 South-West Motorway",
+    kind: "corridor",
+    path: [[-33.935, 151.03], [-33.945, 150.95], [-33.947, 150.87]],
+    toll: 5.58,
+  },
+  {
+    name: "Westlink M7",
+    kind: "corridor",
+    path: [[-33.947, 150.87], [-33.85, 150.86], [-33.8, 150.85], [-33.73, 150.89], [-33.762, 150.937]],
+    toll: 9.62,
+    distance_based: true,
+  },
+];
+
+/** How far either side of the home→work line a road can run: 10% of the trip, at least 1.5 km. */
+const CORRIDOR_SHARE = 0.1;
+const MIN_CORRIDOR_KM = 1.5;
+/**
+ * A road run alongside for this far is on the route, however long it is —
+ * and for longer than a perpendicular crossing of the corridor would cover.
+ */
+const MIN_ALONGSIDE_KM = 5;
+const MIN_ALONGSIDE_CORRIDORS = 2.5;
+
+/** Degrees → local km on a flat projection around Sydney; fine at city scale. */
+function toXY([lat, lng]: [number, number]): [number, number] {
+  return [lng * 111.32 * Math.cos((-33.87 * Math.PI) / 180), lat * 110.57];
+}
+
+/** Distance (km) from p to segment ab, or Infinity if p projects outside it. */
+function distanceAlongside(p: [number, number], a: [number, number], b: [number, number]): number {
+  const [px, py] = toXY(p);
+  const [ax, ay] = toXY(a);
+  const [bx, by] = toXY(b);
+  const dx = bx - ax;
+  const dy = by - ay;
+  const len2 = dx * dx + dy * dy;
+  const t = len2 > 0 ? ((px - ax) * dx + (py - ay) * dy) / len2 : 0;
+  if (t < 0 || t > 1) return Infinity;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
+
+function segmentsCross(a: [number, number], b: [number, number], c: [number, number], d: [number, number]): boolean {
+  const [p, q, r, s] = [a, b, c, d].map(toXY);
+  const orient = (o: number[], x: number[], y: number[]) => (x[0] - o[0]) * (y[1] - o[1]) - (x[1] - o[1]) * (y[0] - o[0]);
+  return orient(p, q, r) * orient(p, q, s) < 0 && orient(r, s, p) * orient(r, s, q) < 0;
+}
+
+/** Share (0–1) of a toll road the home→work line runs alongside, by sampled length. */
+function corridorShare(
+  road: TollRoad,
+  from: [number, number],
+  to: [number, number],
+): { share: number; km: number; corridor_km: number } {
+  const corridorKm = Math.max(MIN_CORRIDOR_KM, haversineKm(from[0], from[1], to[0], to[1]) * CORRIDOR_SHARE);
+  let total = 0;
+  let covered = 0;
+  for (let i = 1; i < road.path.length; i++) {
+    const [a, b] = [road.path[i - 1], road.path[i]];
+    const segKm = haversineKm(a[0], a[1], b[0], b[1]);
+    const steps = Math.max(1, Math.ceil(segKm / 0.5));
+    for (let k = 0; k < steps; k++) {
+      const t = (k + 0.5) / steps;
+      const point: [number, number] = [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+      total += segKm / steps;
+      if (distanceAlongside(point, from, to) <= corridorKm) covered += segKm / steps;
+    }
+  }
+  return { share: total > 0 ? covered / total : 0, km: covered, corridor_km: corridorKm };
+}
+
+/** Toll roads on a home→work trip and the tolls for one round trip. */
+export function routeTolls(from: [number, number], to: [number, number]): { roads: string[]; round_trip: number } {
+  const roads: string[] = [];
+  let roundTrip = 0;
+  for (const road of TOLL_ROADS) {
+    let charge = 0;
+    if (road.kind === "crossing") {
+      if (segmentsCross(from, to, road.path[0], road.path[road.path.length - 1])) charge = road.toll;
+    } else {
+      const { share, km, corridor_km } = corridorShare(road, from, to);
+      const alongside = share >= 0.5 || km >= Math.max(MIN_ALONGSIDE_KM, corridor_km * MIN_ALONGSIDE_CORRIDORS);
+      if (alongside) charge = road.distance_based ? road.toll * Math.min(1, share) : road.toll;
+    }
+    if (charge > 0) {
+      roads.push(road.name);
+      roundTrip += road.one_way ? charge : charge * 2;
+    }
+  }
+  return { roads, round_trip: round2(roundTrip) };
+}
+
+/** Daily parking at a workplace: the nearest hub's rate within PARKING_RADIUS_KM, else 0. */
+export function workplaceParking(lat: number, lng: number): number {
+  let rate = 0;
+  let nearestKm = PARKING_RADIUS_KM;
+  for (const id of HUB_IDS) {
+    const hub = EMPLOYMENT_HUBS[id];
+    const km = haversineKm(lat, lng, hub.lat, hub.lng);
+    if (km <= nearestKm) {
+      nearestKm = km;
+      rate = HUB_PARKING_PER_DAY[id];
+    }
+  }
+  return rate;
+}
+
+/**
+ * Weekly cost of driving `office_days` return trips. `roadKm` is the one-way
+ * road distance if known (e.g. from the hub matrix).
+ */
+export function drivingCost(
+  from: [number, number],
+  to: [number, number],
+  options: CostOptions,
+  roadKm?: number | null,
+): DrivingCost {
+  const km = roadKm ?? haversineKm(from[0], from[1], to[0], to[1]) * ROAD_DETOUR;
+  const fuel = ((km * 2 * FUEL_L_PER_100KM) / 100) * FUEL_PRICE_PER_L * options.office_days;
+  const { roads, round_trip } = routeTolls(from, to);
+  const tolls = round_trip * options.office_days;
+  const parking = workplaceParking(to[0], to[1]) * options.office_days;
+
+  return {
+    mode: "driving",
+    fuel: round2(fuel),
+    tolls: round2(tolls),
+    parking: round2(parking),
+    weekly: round2(fuel + tolls + parking),
+    toll_roads: roads,
+  };
+}
@@ -1,5 +1,6 @@
 import stationData from "@/data/train_stations.json";
 import { getSuburbByPostcode } from "@/lib/suburbs";
+import { createSpatialIndex, type SpatialIndex } from "@/lib/spatial-index";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -34,6 +35,14 @@ export function getAllStations(): TrainStation[] {
   return stations;
 }
 
+let stationIndex: SpatialIndex<TrainStation> | null = null;
+
+/** Stations indexed for nearest/radius lookups, built on first use. */
+export function getStationIndex(): SpatialIndex<TrainStation> {
+  if (!stationIndex) stationIndex = createSpatialIndex(stations);
+  return stationIndex;
+}
+
 // ---------------------------------------------------------------------------
 // Haversine distance
 // ---------------------------------------------------------------------------
@@ -66,22 +75,12 @@ export function getNearestStation(
   lat: number,
   lng: number,
 ): NearestStationResult | null {
-  if (stations.length === 0) return null;
-
-  let best: TrainStation = stations[0];
-  let bestDist = Infinity;
-
-  for (const s of stations) {
-    const d = haversineKm(lat, lng, s.lat, s.lng);
-    if (d < bestDist) {
-      bestDist = d;
-      best = s;
-    }
-  }
+  const [nearest] = getStationIndex().nearest(lat, lng, 1);
+  if (!nearest) return null;
 
   return {
-    station: best,
-    distanceKm: Math.round(bestDist * 10) / 10, // 1 decimal
+    station: nearest.item,
+    distanceKm: Math.round(nearest.distance_km * 10) / 10, // 1 decimal
   };
 }
 
@@ -94,17 +93,9 @@ export function getNearbyStations(
   lng: number,
   radiusKm = 0.5,
 ): NearestStationResult[] {
-  const results: NearestStationResult[] = [];
-
-  for (const s of stations) {
-    const d = haversineKm(lat, lng, s.lat, s.lng);
-    if (d <= radiusKm) {
-      results.push({ station: s, distanceKm: Math.round(d * 100) / 100 });
-    }
-  }
-
-  results.sort((a, b) => a.distanceKm - b.distanceKm);
-  return results;
+  return getStationIndex()
+    .within(lat, lng, radiusKm)
+    .map((n) => ({ station: n.item, distanceKm: Math.round(n.distance_km * 100) / 100 }));
 }
 
 // ---------------------------------------------------------------------------
@@ -139,6 +130,21 @@ export function estimateCommuteTime(
   };
 }
 
+/** Street distance ≈ straight line × 1.3 */
+const ROUTE_DETOUR = 1.3;
+const CYCLING_KMH = 16;
+const WALKING_KMH = 4.8;
+
+/** Cycling time over a straight-line distance, at an easy commuting pace. */
+export function estimateCyclingMinutes(distKm: number): number {
+  return Math.round(((distKm * ROUTE_DETOUR) / CYCLING_KMH) * 60);
+}
+
+/** Walking time over a straight-line distance. */
+export function estimateWalkingMinutes(distKm: number): number {
+  return Math.round(((distKm * ROUTE_DETOUR) / WALKING_KMH) * 60);
+}
+
 /**
  * Estimate commute time from a lat/lng to a postcode.
  * Uses distance_km * 2.5 min as a rough Sydney average.
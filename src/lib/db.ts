@@ -0,0 +1,119 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+// ---------------------------------------------------------------------------
+// Local SQLite store for per-device data (saved searches, shortlists, history,
+// saved-search alerts) and the per-suburb Overpass POI cache
+//
+// Server-only: better-sqlite3 is a native module, so never import this from
+// client components or edge routes.
+// ---------------------------------------------------------------------------
+
+const DB_PATH = process.env.RENTSMART_DB_PATH ?? path.join(process.cwd(), ".data", "rentsmart.db");
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS devices (
+    id            TEXT PRIMARY KEY,
+    created_at    TEXT NOT NULL,
+    last_seen_at  TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS saved_searches (
+    id           INTEGER PRIMARY KEY AUTOINCREMENT,
+    device_id    TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+    name         TEXT NOT NULL,
+    params       TEXT NOT NULL,
+    created_at   TEXT NOT NULL,
+    updated_at   TEXT NOT NULL,
+    last_run_at  TEXT,
+    alert_email  TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_saved_searches_device ON saved_searches(device_id);
+
+  -- Matches for a saved search as of one version of the rent data
+  CREATE TABLE IF NOT EXISTS search_snapshots (
+    search_id     INTEGER PRIMARY KEY REFERENCES saved_searches(id) ON DELETE CASCADE,
+    data_version  TEXT NOT NULL,
+    matches       TEXT NOT NULL,
+    taken_at      TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS search_alerts (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    search_id     INTEGER NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+    from_version  TEXT NOT NULL,
+    to_version    TEXT NOT NULL,
+    diff          TEXT NOT NULL,
+    created_at    TEXT NOT NULL,
+    read_at       TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_search_alerts_search ON search_alerts(search_id);
+
+  CREATE TABLE IF NOT EXISTS shortlists (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    device_id   TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+    name        TEXT NOT NULL,
+    created_at  TEXT NOT NULL,
+    updated_at  TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_shortlists_device ON shortlists(device_id);
+
+  CREATE TABLE IF NOT EXISTS shortlist_items (
+    shortlist_id  INTEGER NOT NULL REFERENCES shortlists(id) ON DELETE CASCADE,
+    suburb_key    TEXT NOT NULL,
+    note          TEXT NOT NULL DEFAULT '',
+    added_at      TEXT NOT NULL,
+    PRIMARY KEY (shortlist_id, suburb_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS view_history (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    device_id   TEXT NOT NULL REFERENCES devices(id) ON DELETE CASCADE,
+    suburb_key  TEXT NOT NULL,
+    viewed_at   TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_view_history_device ON view_history(device_id, viewed_at);
+
+  -- Overpass POIs around each suburb's centroid, with the summary recommend reads
+  CREATE TABLE IF NOT EXISTS poi_cache (
+    suburb_key  TEXT PRIMARY KEY,
+    radius_m    INTEGER NOT NULL,
+    pois        TEXT NOT NULL,
+    summary     TEXT NOT NULL,
+    fetched_at  TEXT NOT NULL
+  );
+`;
+
+// Columns added after their table first shipped — CREATE TABLE IF NOT EXISTS
+// leaves existing databases without them
+const ADDED_COLUMNS: [table: string, column: string, type: string][] = [
+  ["saved_searches", "alert_email", "TEXT"],
+];
+
+function migrate(db: Database.Database): void {
+  for (const [table, column, type] of ADDED_COLUMNS) {
+    const columns = db.pragma(`table_info(${table})`) as { name: string }[];
+    if (!columns.some((c) => c.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+    }
+  }
+}
+
+function open(): Database.Database {
+  if (DB_PATH !== ":memory:") fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const db = new Database(DB_PATH);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(SCHEMA);
+  migrate(db);
+  return db;
+}
+
+// Reuse one connection across hot reloads in dev
+const globalForDb = globalThis as unknown as { rentsmartDb?: Database.Database };
+
+export function getDb(): Database.Database {
+  if (!globalForDb.rentsmartDb) globalForDb.rentsmartDb = open();
+  return globalForDb.rentsmartDb;
+}
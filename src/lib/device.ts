@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { touchDevice } from "@/lib/user-data";
+
+// ---------------------------------------------------------------------------
+// Anonymous device IDs
+//
+// No accounts: each browser gets a random ID in an httpOnly cookie, and all
+// saved data is keyed by it. Clearing cookies starts a fresh device.
+// ---------------------------------------------------------------------------
+
+export const DEVICE_COOKIE = "rentsmart_device";
+const COOKIE_MAX_AGE_S = 365 * 24 * 60 * 60;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface Device {
+  id: string;
+  isNew: boolean;
+}
+
+/** The request's device, minting a new ID if it has none (or a malformed one). */
+export function resolveDevice(request: NextRequest): Device {
+  const existing = request.cookies.get(DEVICE_COOKIE)?.value;
+  const device = existing && UUID_RE.test(existing)
+    ? { id: existing, isNew: false }
+    : { id: crypto.randomUUID(), isNew: true };
+  touchDevice(device.id);
+  return device;
+}
+
+/** JSON response that also sets the device cookie when the device is new. */
+export function deviceJson(device: Device, body: unknown, init?: ResponseInit): NextResponse {
+  const response = NextResponse.json(body, init);
+  if (device.isNew) {
+    response.cookies.set(DEVICE_COOKIE, device.id, {
+      httpOnly: true,
+      sameSite: "lax",
+      path: "/",
+      maxAge: COOKIE_MAX_AGE_S,
+    });
+  }
+  return response;
+}
@@ -0,0 +1,235 @@
+import { getAllSuburbs, medianRentKey, type Suburb } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Rent forecasting from each suburb's rent_trend history
+//
+// Fits a log-linear trend to the yearly medians, shrinks the growth rate
+// toward the Sydney-wide rate in proportion to how thin the bond market is,
+// and widens the band for thin markets too. Bedroom medians are pooled over
+// 2021–2025, so forecasts rebase them onto the trend before projecting.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export const MAX_FORECAST_YEARS = 3;
+
+export interface ForecastPoint {
+  year: string;
+  median: number;
+  /** 80% confidence band */
+  low: number;
+  high: number;
+}
+
+export interface RentForecast {
+  suburb_key: string;
+  bedrooms: number | null;
+  base_year: string;
+  /** Trend-fitted rent for the base year — the starting point of the projection. */
+  base_rent: number;
+  annual_growth_pct: number;
+  sydney_growth_pct: number;
+  /** 0–1: how much the suburb's own history counts vs the Sydney-wide rate. */
+  credibility: number;
+  volatility_pct: number;
+  points: ForecastPoint[];
+}
+
+interface TrendFit {
+  growth: number; // log growth per year
+  sigma: number; // annual log volatility
+  credibility: number;
+  lastYear: number;
+  meanYear: number;
+  meanLog: number;
+}
+
+// ---------------------------------------------------------------------------
+// Model constants
+// ---------------------------------------------------------------------------
+
+/** Bond count at which a suburb's own history and the Sydney rate count equally. */
+const CREDIBILITY_BONDS = 2000;
+/** Suburbs used to estimate the Sydney-wide growth and volatility. */
+const REFERENCE_MIN_BONDS = 1000;
+/** z-score for an 80% two-sided band. */
+const BAND_Z = 1.2816;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+}
+
+// ---------------------------------------------------------------------------
+// Trend fitting
+// ---------------------------------------------------------------------------
+
+/** Ordinary least squares of ln(rent) on year. */
+function fitLogTrend(trend: Record<string, number>): {
+  slope: number;
+  residualSd: number | null;
+  meanYear: number;
+  meanLog: number;
+  lastYear: number;
+} | null {
+  const pts = Object.entries(trend)
+    .map(([y, r]) => ({ x: Number(y), y: Math.log(r) }))
+    .filter((p) => !isNaN(p.x) && isFinite(p.y))
+    .sort((a, b) => a.x - b.x);
+  if (pts.length === 0) return null;
+
+  const n = pts.length;
+  const meanYear = pts.reduce((s, p) => s + p.x, 0) / n;
+  const meanLog = pts.reduce((s, p) => s + p.y, 0) / n;
+  const lastYear = pts[n - 1].x;
+  if (n < 2) return { slope: 0, residualSd: null, meanYear, meanLog, lastYear };
+
+  let sxy = 0;
+  let sxx = 0;
+  for (const p of pts) {
+    sxy += (p.x - meanYear) * (p.y - meanLog);
+    sxx += (p.x - meanYear) ** 2;
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+
+  // Needs at least one degree of freedom left over
+  let residualSd: number | null = null;
+  if (n > 2) {
+    const sse = pts.reduce((s, p) => s + (p.y - (meanLog + slope * (p.x - meanYear))) ** 2, 0);
+    residualSd = Math.sqrt(sse / (n - 2));
+  }
+  return { slope, residualSd, meanYear, meanLog, lastYear };
+}
+
+let sydneyRef: { growth: number; sigma: number } | null = null;
+
+/** Sydney-wide median growth and volatility across well-supplied suburbs (computed once). */
+function sydneyReference(): { growth: number; sigma: number } {
+  if (sydneyRef) return sydneyRef;
+
+  const growths: number[] = [];
+  const sigmas: number[] = [];
+  for (const s of getAllSuburbs()) {
+    if (s.total_bonds < REFERENCE_MIN_BONDS) continue;
+    const fit = fitLogTrend(s.rent_trend);
+    if (!fit || fit.residualSd == null) continue;
+    growths.push(fit.slope);
+    sigmas.push(fit.residualSd);
+  }
+
+  sydneyRef = { growth: median(growths), sigma: median(sigmas) };
+  return sydneyRef;
+}
+
+/**
+ * Fit a suburb's trend, weighted by supply. Credibility is
+ * bonds / (bonds + CREDIBILITY_BONDS): thin markets lean on the Sydney rate,
+ * and their volatility is inflated by up to 2× to reflect noisier medians.
+ */
+function fitSuburb(suburb: Suburb): TrendFit | null {
+  const fit = fitLogTrend(suburb.rent_trend);
+  if (!fit) return null;
+
+  const ref = sydneyReference();
+  const credibility = suburb.total_bonds / (suburb.total_bonds + CREDIBILITY_BONDS);
+  const localSigma = fit.residualSd ?? ref.sigma;
+
+  const growth = credibility * fit.slope + (1 - credibility) * ref.growth;
+  const blendedVar = credibility * localSigma ** 2 + (1 - credibility) * ref.sigma ** 2;
+  const sigma = Math.sqrt(blendedVar) * (2 - credibility);
+
+  return {
+    growth,
+    sigma,
+    credibility,
+    lastYear: fit.lastYear,
+    meanYear: fit.meanYear,
+    meanLog: fit.meanLog,
+  };
+}
+
+/** Trend-fitted log rent for a given year, using the shrunk growth rate. */
+function fittedLog(fit: TrendFit, year: number): number {
+  return fit.meanLog + fit.growth * (year - fit.meanYear);
+}
+
+// ---------------------------------------------------------------------------
+// Forecasts
+// ---------------------------------------------------------------------------
+
+/** Forecast annual growth rate as a fraction (0.05 = 5%/yr), or null without a trend. */
+export function forecastGrowthRate(suburb: Suburb): number | null {
+  const fit = fitSuburb(suburb);
+  if (!fit) return null;
+  return Math.exp(fit.growth) - 1;
+}
+
+/**
+ * Level multiplier onto the fitted trend: 1 for the overall trend, else the
+ * pooled bedroom median's premium over it. Null without a bedroom median.
+ */
+function levelScale(suburb: Suburb, fit: TrendFit, bedrooms: number | null): number | null {
+  if (bedrooms == null) return 1;
+  const pooled = suburb[medianRentKey(bedrooms)] as number | null;
+  return pooled == null ? null : pooled / Math.exp(fit.meanLog);
+}
+
+/**
+ * Trend-fitted rent for the base year — the bedroom median (or, with null
+ * `bedrooms`, the overall trend) rebased onto the suburb's trend. The level
+ * forecasts and lease projections start from; null without a trend or a
+ * bedroom median.
+ */
+export function currentTrendRent(suburb: Suburb, bedrooms: number | null): number | null {
+  const fit = fitSuburb(suburb);
+  const scale = fit && levelScale(suburb, fit, bedrooms);
+  if (!fit || scale == null) return null;
+  return Math.round(scale * Math.exp(fittedLog(fit, fit.lastYear)));
+}
+
+/**
+ * Forecast a suburb's rent 1–`years` years ahead with an 80% band. With
+ * `bedrooms` set, the bedroom median is projected along the suburb's trend;
+ * otherwise the overall trend itself is.
+ */
+export function forecastSuburb(
+  suburb: Suburb,
+  bedrooms: number | null,
+  years: number = MAX_FORECAST_YEARS,
+): RentForecast | null {
+  const fit = fitSuburb(suburb);
+  if (!fit) return null;
+
+  const scale = levelScale(suburb, fit, bedrooms);
+  if (scale == null) return null;
+
+  const level = (year: number, z: number, h: number) =>
+    Math.round(scale * Math.exp(fittedLog(fit, year) + z * fit.sigma * Math.sqrt(h)));
+
+  const points: ForecastPoint[] = [];
+  for (let h = 1; h <= Math.min(years, MAX_FORECAST_YEARS); h++) {
+    const year = fit.lastYear + h;
+    points.push({
+      year: String(year),
+      median: level(year, 0, h),
+      low: level(year, -BAND_Z, h),
+      high: level(year, BAND_Z, h),
+    });
+  }
+
+  const pct = (g: number) => Math.round((Math.exp(g) - 1) * 1000) / 10;
+
+  return {
+    suburb_key: suburb.suburb_key,
+    bedrooms,
+    base_year: String(fit.lastYear),
+    base_rent: level(fit.lastYear, 0, 0),
+    annual_growth_pct: pct(fit.growth),
+    sydney_growth_pct: pct(sydneyReference().growth),
+    credibility: Math.round(fit.credibility * 100) / 100,
+    volatility_pct: Math.round(fit.sigma * 1000) / 10,
+    points,
+  };
+}
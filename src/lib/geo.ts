@@ -0,0 +1,57 @@
+// ---------------------------------------------------------------------------
+// GeoJSON geometry tests — pure, so safe on the client as well as the server
+// ---------------------------------------------------------------------------
+
+/** Ray casting over one ring of [lng, lat] positions. */
+function inRing(lat: number, lng: number, ring: GeoJSON.Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Inside the outer ring and outside every hole. */
+function inPolygon(lat: number, lng: number, rings: GeoJSON.Position[][]): boolean {
+  if (rings.length === 0 || !inRing(lat, lng, rings[0])) return false;
+  return !rings.slice(1).some((hole) => inRing(lat, lng, hole));
+}
+
+/**
+ * Whether a point falls inside a Polygon or MultiPolygon (holes respected).
+ * Any other geometry type contains nothing.
+ */
+export function pointInGeometry(lat: number, lng: number, geometry: GeoJSON.Geometry): boolean {
+  switch (geometry.type) {
+    case "Polygon":
+      return inPolygon(lat, lng, geometry.coordinates);
+    case "MultiPolygon":
+      return geometry.coordinates.some((rings) => inPolygon(lat, lng, rings));
+    default:
+      return false;
+  }
+}
+
+/** [minLng, minLat, maxLng, maxLat] of a Polygon or MultiPolygon; null for anything else. */
+export function geometryBbox(geometry: GeoJSON.Geometry): GeoJSON.BBox | null {
+  let polygons: GeoJSON.Position[][][];
+  if (geometry.type === "Polygon") polygons = [geometry.coordinates];
+  else if (geometry.type === "MultiPolygon") polygons = geometry.coordinates;
+  else return null;
+
+  let [minLng, minLat, maxLng, maxLat] = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const rings of polygons) {
+    // Holes sit inside the outer ring, so it alone bounds the polygon
+    for (const [lng, lat] of rings[0] ?? []) {
+      minLng = Math.min(minLng, lng);
+      minLat = Math.min(minLat, lat);
+      maxLng = Math.max(maxLng, lng);
+      maxLat = Math.max(maxLat, lat);
+    }
+  }
+  return minLng <= maxLng ? [minLng, minLat, maxLng, maxLat] : null;
+}
@@ -0,0 +1,309 @@
+import fs from "fs";
+import readline from "readline";
+import zlib from "zlib";
+import { Readable } from "stream";
+
+// ---------------------------------------------------------------------------
+// GTFS feed loading — reads a static GTFS zip (e.g. TfNSW's complete feed)
+// into stops and timetabled connections for one service day, ready for the
+// connection-scan router in transit-router.ts.
+//
+// Server-only (fs/zlib). The zip is read with a small built-in reader:
+// stored and deflated entries, no zip64. Only the central directory is held
+// in memory; each table is streamed from the file, so loading the full
+// Sydney feed holds only the kept trips' stop times, never the archive.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A stop, with platforms merged into their parent station. */
+export interface GtfsStop {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+}
+
+/** One timetabled hop between consecutive stops of a trip; times in seconds after midnight. */
+export interface Connection {
+  trip: number;
+  from: number; // index into GtfsFeed.stops
+  to: number;
+  dep: number;
+  arr: number;
+}
+
+export interface GtfsFeed {
+  service_date: string; // YYYYMMDD
+  stops: GtfsStop[];
+  /** Sorted by departure time. */
+  connections: Connection[];
+  trips: number;
+}
+
+export interface FeedOptions {
+  /** Service day, YYYYMMDD. */
+  date: string;
+  /** Keep connections departing in [from, to] seconds after midnight. */
+  from: number;
+  to: number;
+  /** Include bus and coach routes (off by default — rail, metro, light rail and ferry only). */
+  includeBuses?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Zip
+// ---------------------------------------------------------------------------
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  offset: number;
+}
+
+interface ZipFile {
+  file: string;
+  fd: number;
+  entries: Map<string, ZipEntry>;
+}
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buf = Buffer.alloc(length);
+  const read = fs.readSync(fd, buf, 0, length, position);
+  return buf.subarray(0, read);
+}
+
+function openZip(file: string): ZipFile {
+  const fd = fs.openSync(file, "r");
+  try {
+    return { file, fd, entries: readZipEntries(fd, file) };
+  } catch (error) {
+    fs.closeSync(fd);
+    throw error;
+  }
+}
+
+function readZipEntries(fd: number, file: string): Map<string, ZipEntry> {
+  // End-of-central-directory record sits in the last 64 KB (+ its own 22 bytes)
+  const size = fs.fstatSync(fd).size;
+  const tailStart = Math.max(0, size - 65_557);
+  const tail = readAt(fd, tailStart, size - tailStart);
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error(`${file}: not a zip file`);
+
+  const count = tail.readUInt16LE(eocd + 10);
+  const buf = readAt(fd, tail.readUInt32LE(eocd + 16), tail.readUInt32LE(eocd + 12));
+  let p = 0;
+  const entries = new Map<string, ZipEntry>();
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > buf.length || buf.readUInt32LE(p) !== 0x02014b50) throw new Error(`${file}: corrupt central directory`);
+    const compressedSize = buf.readUInt32LE(p + 20);
+    const offset = buf.readUInt32LE(p + 42);
+    if (compressedSize === 0xffffffff || offset === 0xffffffff) {
+      throw new Error(`${file}: zip64 archives are not supported — re-zip the feed`);
+    }
+    const nameLength = buf.readUInt16LE(p + 28);
+    const name = buf.toString("utf8", p + 46, p + 46 + nameLength);
+    // Feeds are sometimes zipped with a top-level folder; key by base name
+    entries.set(name.split("/").pop()!, { method: buf.readUInt16LE(p + 10), compressedSize, offset });
+    p += 46 + nameLength + buf.readUInt16LE(p + 30) + buf.readUInt16LE(p + 32);
+  }
+  return entries;
+}
+
+function entryStream(zip: ZipFile, entry: ZipEntry): Readable {
+  const header = readAt(zip.fd, entry.offset, 30);
+  if (header.length < 30 || header.readUInt32LE(0) !== 0x04034b50) throw new Error(`${zip.file}: corrupt local header`);
+  const start = entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+  const data =
+    entry.compressedSize === 0
+      ? Readable.from([])
+      : fs.createReadStream(zip.file, { start, end: start + entry.compressedSize - 1 });
+  if (entry.method === 0) return data;
+  if (entry.method === 8) return data.pipe(zlib.createInflateRaw());
+  throw new Error(`Unsupported zip compression method ${entry.method}`);
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** Split one CSV line (quoted fields, doubled quotes). */
+function splitCsvLine(line: string): string[] {
+  if (!line.includes('"')) return line.split(",");
+  const out: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      out.push(field);
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  out.push(field);
+  return out;
+}
+
+/** Rows of one GTFS table as column → value objects; empty for an absent optional table. */
+async function* tableRows(zip: ZipFile, name: string, required = true): AsyncGenerator<Record<string, string>> {
+  const entry = zip.entries.get(name);
+  if (!entry) {
+    if (required) throw new Error(`GTFS feed has no ${name}`);
+    return;
+  }
+  let header: string[] | null = null;
+  for await (const raw of readline.createInterface({ input: entryStream(zip, entry), crlfDelay: Infinity })) {
+    const line = header ? raw : raw.replace(/^\uFEFF/, "");
+    if (line.trim() === "") continue;
+    const cells = splitCsvLine(line);
+    if (!header) {
+      header = cells.map((c) => c.trim());
+      continue;
+    }
+    const row: Record<string, string> = {};
+    header.forEach((col, i) => { row[col] = (cells[i] ?? "").trim(); });
+    yield row;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** "08:15:00" → 29700. GTFS times can run past 24:00 for after-midnight trips. */
+export function parseGtfsTime(value: string): number | null {
+  const m = value.match(/^(\d{1,2}):(\d{2}):(\d{2})$/);
+  return m ? Number(m[1]) * 3600 + Number(m[2]) * 60 + Number(m[3]) : null;
+}
+
+const WEEKDAY_COLUMNS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/** Day-of-week column for a YYYYMMDD date. */
+function weekdayColumn(date: string): string {
+  const d = new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8))));
+  return WEEKDAY_COLUMNS[d.getUTCDay()];
+}
+
+/** Extended GTFS types: 200–299 coach, 700–799 bus. */
+function isBusRouteType(type: number): boolean {
+  return type === 3 || (type >= 200 && type < 300) || (type >= 700 && type < 800);
+}
+
+// ---------------------------------------------------------------------------
+// Feed
+// ---------------------------------------------------------------------------
+
+/** Service ids running on a date, from calendar.txt adjusted by calendar_dates.txt. */
+async function activeServices(zip: ZipFile, date: string): Promise<Set<string>> {
+  const day = weekdayColumn(date);
+  const active = new Set<string>();
+  for await (const row of tableRows(zip, "calendar.txt", false)) {
+    if (row[day] === "1" && row.start_date <= date && date <= row.end_date) active.add(row.service_id);
+  }
+  for await (const row of tableRows(zip, "calendar_dates.txt", false)) {
+    if (row.date !== date) continue;
+    if (row.exception_type === "1") active.add(row.service_id);
+    if (row.exception_type === "2") active.delete(row.service_id);
+  }
+  return active;
+}
+
+/**
+ * Load the stops and connections of one service day from a GTFS zip.
+ * Platforms collapse into their parent station so a change of platform is
+ * a change at the same stop.
+ */
+export async function loadGtfsFeed(file: string, options: FeedOptions): Promise<GtfsFeed> {
+  const zip = openZip(file);
+  try {
+    return await readFeed(zip, options);
+  } finally {
+    fs.closeSync(zip.fd);
+  }
+}
+
+async function readFeed(zip: ZipFile, options: FeedOptions): Promise<GtfsFeed> {
+  const services = await activeServices(zip, options.date);
+  if (services.size === 0) throw new Error(`No services run on ${options.date} in ${zip.file}`);
+
+  const keptRoutes = new Set<string>();
+  for await (const row of tableRows(zip, "routes.txt")) {
+    if (options.includeBuses || !isBusRouteType(Number(row.route_type))) keptRoutes.add(row.route_id);
+  }
+
+  const tripIndex = new Map<string, number>();
+  for await (const row of tableRows(zip, "trips.txt")) {
+    if (keptRoutes.has(row.route_id) && services.has(row.service_id)) tripIndex.set(row.trip_id, tripIndex.size);
+  }
+
+  // stop_id → station id; stations keep their own name and position
+  const parentOf = new Map<string, string>();
+  const places = new Map<string, GtfsStop>();
+  for await (const row of tableRows(zip, "stops.txt")) {
+    const station = row.parent_station || row.stop_id;
+    parentOf.set(row.stop_id, station);
+    if (station === row.stop_id || !places.has(station)) {
+      places.set(station, { id: station, name: row.stop_name, lat: Number(row.stop_lat), lng: Number(row.stop_lon) });
+    }
+  }
+
+  // Per trip: [sequence, stop, arrival, departure] in file order
+  const tripStops = new Map<number, [number, string, number, number][]>();
+  for await (const row of tableRows(zip, "stop_times.txt")) {
+    const trip = tripIndex.get(row.trip_id);
+    if (trip === undefined) continue;
+    const arr = parseGtfsTime(row.arrival_time || row.departure_time);
+    const dep = parseGtfsTime(row.departure_time || row.arrival_time);
+    if (arr === null || dep === null) continue; // untimed intermediate stops
+    if (!tripStops.has(trip)) tripStops.set(trip, []);
+    tripStops.get(trip)!.push([Number(row.stop_sequence), parentOf.get(row.stop_id) ?? row.stop_id, arr, dep]);
+  }
+
+  const stops: GtfsStop[] = [];
+  const stopIndex = new Map<string, number>();
+  const indexOf = (id: string): number => {
+    let i = stopIndex.get(id);
+    if (i === undefined) {
+      i = stops.length;
+      stopIndex.set(id, i);
+      stops.push(places.get(id) ?? { id, name: id, lat: NaN, lng: NaN });
+    }
+    return i;
+  };
+
+  const connections: Connection[] = [];
+  for (const [trip, calls] of tripStops) {
+    calls.sort((a, b) => a[0] - b[0]);
+    for (let i = 1; i < calls.length; i++) {
+      const [, fromId, , dep] = calls[i - 1];
+      const [, toId, arr] = calls[i];
+      if (fromId === toId || dep < options.from || dep > options.to) continue;
+      connections.push({ trip, from: indexOf(fromId), to: indexOf(toId), dep, arr: Math.max(arr, dep) });
+    }
+  }
+  connections.sort((a, b) => a.dep - b.dep || a.arr - b.arr);
+
+  return { service_date: options.date, stops, connections, trips: tripStops.size };
+}
@@ -0,0 +1,120 @@
+import { getAllPoints, pointsWithin, type Hospital, type MedicalCentre } from "@/lib/amenity-points";
+import { createSpatialIndex, type GeoPoint, type SpatialIndex } from "@/lib/spatial-index";
+import { getSuburbByKey, type Suburb } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Healthcare access per suburb — how far the centroid is from a bulk-billing
+// GP and an emergency department, and how many medical centres are close —
+// rolled into a 0–100 score that /api/recommend weighs as its own component.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface NearestFacility {
+  name: string;
+  distance_km: number;
+  lat: number;
+  lng: number;
+}
+
+export interface HealthcareAccess {
+  nearest_bulk_billing_gp: NearestFacility | null;
+  nearest_emergency_hospital: NearestFacility | null;
+  clinics_within_3km: number; // medical centres, bulk-billing or not
+  score: number; // 0–100, see healthcareScore
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+export const CLINIC_RADIUS_KM = 3;
+
+const EMPTY: HealthcareAccess = {
+  nearest_bulk_billing_gp: null,
+  nearest_emergency_hospital: null,
+  clinics_within_3km: 0,
+  score: 0,
+};
+
+// Subsets of the point datasets, indexed on first use
+let bulkBillingIndex: SpatialIndex<MedicalCentre> | null = null;
+let emergencyIndex: SpatialIndex<Hospital> | null = null;
+
+function getBulkBillingIndex(): SpatialIndex<MedicalCentre> {
+  if (!bulkBillingIndex) {
+    bulkBillingIndex = createSpatialIndex(getAllPoints("medical_centers").filter((m) => m.bulk_billing));
+  }
+  return bulkBillingIndex;
+}
+
+function getEmergencyIndex(): SpatialIndex<Hospital> {
+  if (!emergencyIndex) {
+    emergencyIndex = createSpatialIndex(getAllPoints("hospitals").filter((h) => h.emergency));
+  }
+  return emergencyIndex;
+}
+
+function nearest<T extends GeoPoint & { name: string }>(index: SpatialIndex<T>, lat: number, lng: number): NearestFacility | null {
+  const [hit] = index.nearest(lat, lng);
+  if (!hit) return null;
+  return {
+    name: hit.item.name,
+    distance_km: Math.round(hit.distance_km * 10) / 10,
+    lat: hit.item.lat,
+    lng: hit.item.lng,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+/** Full marks at or under `best` km, falling linearly to none at `worst`. */
+function byDistance(distanceKm: number | undefined, best: number, worst: number): number {
+  if (distanceKm == null) return 0;
+  return Math.max(0, Math.min(1, (worst - distanceKm) / (worst - best)));
+}
+
+/**
+ * 0–100: up to 40 for a bulk-billing GP (full within 1 km, none past 5 km),
+ * 35 for an emergency department (full within 5 km, none past 20 km) and
+ * 5 per medical centre within 3 km, up to 25.
+ */
+function healthcareScore(access: Omit<HealthcareAccess, "score">): number {
+  const gp = 40 * byDistance(access.nearest_bulk_billing_gp?.distance_km, 1, 5);
+  const emergency = 35 * byDistance(access.nearest_emergency_hospital?.distance_km, 5, 20);
+  const clinics = Math.min(25, access.clinics_within_3km * 5);
+  return Math.round(gp + emergency + clinics);
+}
+
+// ---------------------------------------------------------------------------
+// Per suburb
+// ---------------------------------------------------------------------------
+
+// Computed on first request per suburb; the datasets don't change at runtime
+const cache = new Map<string, HealthcareAccess>();
+
+function computeAccess(suburb: Suburb): HealthcareAccess {
+  if (suburb.lat == null || suburb.lng == null) return EMPTY;
+  const access = {
+    nearest_bulk_billing_gp: nearest(getBulkBillingIndex(), suburb.lat, suburb.lng),
+    nearest_emergency_hospital: nearest(getEmergencyIndex(), suburb.lat, suburb.lng),
+    clinics_within_3km: pointsWithin("medical_centers", suburb.lat, suburb.lng, CLINIC_RADIUS_KM).length,
+  };
+  return { ...access, score: healthcareScore(access) };
+}
+
+/** Healthcare access for a suburb; empty (score 0) for an unknown key. */
+export function getHealthcareAccess(suburbKey: string): HealthcareAccess {
+  const cached = cache.get(suburbKey);
+  if (cached) return cached;
+
+  const suburb = getSuburbByKey(suburbKey);
+  if (!suburb) return EMPTY;
+  const access = computeAccess(suburb);
+  cache.set(suburbKey, access);
+  return access;
+}
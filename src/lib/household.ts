@@ -0,0 +1,180 @@
+import { resolveSuburbQuery, type Suburb } from "@/lib/suburbs";
+import { estimateCommuteTime, haversineKm } from "@/lib/commute";
+import { getCachedCommute } from "@/lib/commute-cache";
+import { hubDrive, matrixHubFor } from "@/lib/hub-matrix";
+import { estimateCommuteMinutes } from "@/lib/scoring";
+import { transitTime } from "@/lib/transit";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CommuteObjective = "total" | "worst_case";
+
+export const COMMUTE_OBJECTIVES: CommuteObjective[] = ["total", "worst_case"];
+
+export const MAX_WORKPLACES = 4;
+
+export interface Workplace {
+  query: string;
+  suburb: Suburb;
+  weight: number;
+}
+
+export interface PersonCommute {
+  workplace: string;
+  workplace_suburb_key: string;
+  weight: number;
+  minutes: number;
+  source: "cached_transit" | "cached_driving" | "transit_matrix" | "hub_matrix" | "estimate";
+  /** Transit minutes, or the transit-scale estimate when only a drive is known — what scoring uses. */
+  scoring_minutes: number;
+}
+
+export interface HouseholdCommute {
+  objective: CommuteObjective;
+  /** Value the objective minimises, on scoring minutes: weighted sum, or the longest single commute. */
+  combined_minutes: number;
+  /** The objective per person on scoring minutes (weighted average, or worst) — what the commute score uses. */
+  scoring_minutes: number;
+  /** Weighted average minutes per person — comparable with single-workplace commute times. */
+  average_minutes: number;
+  worst_minutes: number;
+  commutes: PersonCommute[];
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a `workplaces` param: comma-separated suburb names or postcodes, each
+ * with an optional `:weight`, e.g. "Parramatta:2,North Sydney,2065:0.5".
+ * Weights default to 1.
+ */
+export function parseWorkplaces(
+  raw: string,
+): { workplaces: Workplace[] } | { error: string } {
+  const parts = raw.split(",").map((p) => p.trim()).filter(Boolean);
+  if (parts.length === 0) return { error: "workplaces must list at least one suburb" };
+  if (parts.length > MAX_WORKPLACES) {
+    return { error: `workplaces accepts at most ${MAX_WORKPLACES} entries` };
+  }
+
+  const workplaces: Workplace[] = [];
+  for (const part of parts) {
+    const sep = part.lastIndexOf(":");
+    const query = sep >= 0 ? part.slice(0, sep).trim() : part;
+    let weight = 1;
+    if (sep >= 0) {
+      weight = Number(part.slice(sep + 1));
+      if (isNaN(weight) || weight <= 0) {
+        return { error: `Invalid weight for workplace "${query}": must be a positive number` };
+      }
+    }
+
+    const suburb = resolveSuburbQuery(query);
+    if (!suburb) return { error: `Workplace "${query}" not found in Sydney data` };
+    workplaces.push({ query, suburb, weight });
+  }
+
+  return { workplaces };
+}
+
+export function isCommuteObjective(value: string | null): value is CommuteObjective {
+  return value != null && (COMMUTE_OBJECTIVES as string[]).includes(value);
+}
+
+// ---------------------------------------------------------------------------
+// Commute per person
+// ---------------------------------------------------------------------------
+
+/**
+ * One person's commute from a suburb to their workplace. Prefers a real
+ * /api/commute result if one is cached (transit, then driving), then the
+ * offline GTFS transit time, then the precomputed hub drive when the
+ * workplace is a hub, otherwise falls back to the straight-line estimate.
+ *
+ * Drive minutes are shown but never scored: the commute score is calibrated
+ * on transit times, so without one the scoring minutes come from the same
+ * distance estimate a single-workplace search uses.
+ */
+function personCommute(from: Suburb, wp: Workplace): PersonCommute | null {
+  const base = {
+    workplace: wp.suburb.suburb_name ?? wp.query,
+    workplace_suburb_key: wp.suburb.suburb_key,
+    weight: wp.weight,
+  };
+  const hasCentroids = from.lat != null && from.lng != null && wp.suburb.lat != null && wp.suburb.lng != null;
+  const cached = hasCentroids ? getCachedCommute(from.lat!, from.lng!, wp.suburb.lat!, wp.suburb.lng!) : null;
+  const transit = transitTime(from, wp.suburb);
+  const est = estimateCommuteTime(from.postcode, wp.suburb.postcode);
+
+  const scoring =
+    cached?.transit?.duration_min ??
+    transit?.minutes ??
+    (hasCentroids
+      ? estimateCommuteMinutes(haversineKm(from.lat!, from.lng!, wp.suburb.lat!, wp.suburb.lng!))
+      : est?.estimatedMinutes);
+  if (scoring == null) return null;
+  const scored = { ...base, scoring_minutes: scoring };
+
+  if (cached?.transit) {
+    return { ...scored, minutes: cached.transit.duration_min, source: "cached_transit" };
+  }
+  if (cached?.driving) {
+    return { ...scored, minutes: cached.driving.duration_min, source: "cached_driving" };
+  }
+  if (transit) {
+    return { ...scored, minutes: transit.minutes, source: "transit_matrix" };
+  }
+
+  const hub = matrixHubFor(wp.suburb);
+  const drive = hub ? hubDrive(from.suburb_key, hub) : null;
+  if (drive) {
+    return { ...scored, minutes: drive.duration_min, source: "hub_matrix" };
+  }
+
+  if (!est) return null;
+  return { ...scored, minutes: est.estimatedMinutes, source: "estimate" };
+}
+
+// ---------------------------------------------------------------------------
+// Household commute
+// ---------------------------------------------------------------------------
+
+/**
+ * Combine every household member's commute from one suburb.
+ *
+ * - "total":      minimise Σ weight × minutes (weights default to 1)
+ * - "worst_case": minimise the longest single commute
+ *
+ * Returns null if any member's commute can't be estimated.
+ */
+export function householdCommute(
+  from: Suburb,
+  workplaces: Workplace[],
+  objective: CommuteObjective,
+): HouseholdCommute | null {
+  const commutes: PersonCommute[] = [];
+  for (const wp of workplaces) {
+    const c = personCommute(from, wp);
+    if (!c) return null;
+    commutes.push(c);
+  }
+
+  const weightSum = commutes.reduce((sum, c) => sum + c.weight, 0);
+  const total = commutes.reduce((sum, c) => sum + c.weight * c.minutes, 0);
+  const worst = Math.max(...commutes.map((c) => c.minutes));
+  const scoringTotal = commutes.reduce((sum, c) => sum + c.weight * c.scoring_minutes, 0);
+  const scoringWorst = Math.max(...commutes.map((c) => c.scoring_minutes));
+
+  return {
+    objective,
+    combined_minutes: Math.round(objective === "total" ? scoringTotal : scoringWorst),
+    scoring_minutes: Math.round(objective === "total" ? scoringTotal / weightSum : scoringWorst),
+    average_minutes: Math.round(total / weightSum),
+    worst_minutes: worst,
+    commutes,
+  };
+}
@@ -0,0 +1,71 @@
+import matrixData from "@/data/hub_matrix.json";
+import { haversineKm } from "@/lib/commute";
+import type { MatrixHub } from "@/lib/hubs";
+import type { Suburb } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Precomputed driving times from every suburb to each matrix hub, generated
+// by `npm run hub-matrix` from the ORS Matrix API. Lets /api/recommend use
+// real drive times for hub workplaces without a request per suburb.
+//
+// Server-only: the matrix is too large for client bundles.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** [minutes, km] by road; null where ORS found no route. */
+export type HubRoute = [duration_min: number, distance_km: number] | null;
+
+export interface HubMatrix {
+  generated_at: string | null;
+  profile: string;
+  hubs: MatrixHub[];
+  /** suburb_key → hub id → route */
+  routes: Record<string, Record<string, HubRoute>>;
+}
+
+export interface HubDrive {
+  hub: MatrixHub;
+  duration_min: number;
+  distance_km: number;
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+const matrix = matrixData as HubMatrix;
+
+/** A workplace this close to a hub's point counts as that hub. */
+export const HUB_MATCH_RADIUS_KM = 1.5;
+
+/**
+ * The matrix hub a workplace suburb stands for: the hub's own suburb, or
+ * the nearest hub within HUB_MATCH_RADIUS_KM. Null when the matrix hasn't
+ * been generated or the workplace isn't a hub.
+ */
+export function matrixHubFor(workplace: Suburb): MatrixHub | null {
+  const exact = matrix.hubs.find((h) => h.suburb_key === workplace.suburb_key);
+  if (exact) return exact;
+  if (workplace.lat == null || workplace.lng == null) return null;
+
+  let best: MatrixHub | null = null;
+  let bestKm = HUB_MATCH_RADIUS_KM;
+  for (const hub of matrix.hubs) {
+    const km = haversineKm(workplace.lat, workplace.lng, hub.lat, hub.lng);
+    if (km <= bestKm) {
+      best = hub;
+      bestKm = km;
+    }
+  }
+  return best;
+}
+
+/** Precomputed drive from a suburb to a hub, or null if none was stored. */
+export function hubDrive(suburbKey: string, hub: MatrixHub): HubDrive | null {
+  const route = matrix.routes[suburbKey]?.[hub.id];
+  if (!route) return null;
+  return { hub, duration_min: route[0], distance_km: route[1] };
+}
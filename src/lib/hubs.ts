@@ -0,0 +1,71 @@
+import type { Suburb } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Employment hubs — the fixed points every suburb record carries a
+// straight-line `distance_to_<hub>_km` for, plus the wider list the driving
+// time matrix (`npm run hub-matrix`) is computed against.
+//
+// Kept free of data imports so it can be bundled into client components.
+// ---------------------------------------------------------------------------
+
+export type HubId = "cbd" | "parramatta" | "north_sydney" | "macquarie_park" | "chatswood";
+
+export type HubDistanceField = `distance_to_${HubId}_km`;
+
+/** A hub: where it is, and the suburb a workplace search resolves to for it. */
+export interface Hub {
+  label: string;
+  suburb_key: string;
+  lat: number;
+  lng: number;
+}
+
+export const EMPLOYMENT_HUBS: Record<HubId, Hub> = {
+  cbd: { label: "Sydney CBD", suburb_key: "Sydney_2000", lat: -33.8688, lng: 151.2093 },
+  parramatta: { label: "Parramatta", suburb_key: "Parramatta_2150", lat: -33.815, lng: 151.0011 },
+  north_sydney: { label: "North Sydney", suburb_key: "North_Sydney_2060", lat: -33.8389, lng: 151.2075 },
+  macquarie_park: { label: "Macquarie Park", suburb_key: "Macquarie_Park_2113", lat: -33.774, lng: 151.1235 },
+  chatswood: { label: "Chatswood", suburb_key: "Chatswood_2067", lat: -33.7969, lng: 151.1833 },
+};
+
+export const HUB_IDS = Object.keys(EMPLOYMENT_HUBS) as HubId[];
+
+export function isHubId(value: string): value is HubId {
+  return (HUB_IDS as string[]).includes(value);
+}
+
+export function hubDistanceField(hub: HubId): HubDistanceField {
+  return `distance_to_${hub}_km`;
+}
+
+export type HubDistances = Pick<Suburb, HubDistanceField>;
+
+/** A suburb's `distance_to_<hub>_km` fields, null where it has no centroid. */
+export function hubDistances(suburb: HubDistances): HubDistances {
+  const distances = {} as HubDistances;
+  for (const hub of HUB_IDS) distances[hubDistanceField(hub)] = suburb[hubDistanceField(hub)];
+  return distances;
+}
+
+// ---------------------------------------------------------------------------
+// Commute matrix hubs
+// ---------------------------------------------------------------------------
+
+export interface MatrixHub extends Hub {
+  id: string;
+}
+
+/**
+ * Default destinations for the driving time matrix: the five distance hubs
+ * plus other large employment centres. `npm run hub-matrix -- --hubs <file>`
+ * swaps in a different list.
+ */
+export const MATRIX_HUBS: MatrixHub[] = [
+  ...HUB_IDS.map((id) => ({ id, ...EMPLOYMENT_HUBS[id] })),
+  { id: "sydney_airport", label: "Sydney Airport", suburb_key: "Mascot_2020", lat: -33.9329, lng: 151.1799 },
+  { id: "olympic_park", label: "Sydney Olympic Park", suburb_key: "Sydney_Olympic_Park_2127", lat: -33.8465, lng: 151.072 },
+  { id: "norwest", label: "Norwest", suburb_key: "Norwest_2153", lat: -33.7619, lng: 150.9929 },
+  { id: "liverpool", label: "Liverpool", suburb_key: "Liverpool_2170", lat: -33.9286, lng: 150.918 },
+  { id: "penrith", label: "Penrith", suburb_key: "Penrith_2750", lat: -33.7507, lng: 150.6877 },
+  { id: "bondi_junction", label: "Bondi Junction", suburb_key: "Bondi_Junction_2022", lat: -33.8915, lng: 151.2497 },
+];
@@ -0,0 +1,66 @@
+import { fetchOrsIsochrones, type IsochroneResult } from "@/lib/ors-isochrones";
+
+// ---------------------------------------------------------------------------
+// In-memory cache (24-hour TTL)
+//
+// Shared between /api/isochrone and /api/recommend (which filters suburbs to
+// those inside the workplace's max_commute_min isochrone).
+// ---------------------------------------------------------------------------
+
+interface CachedResult {
+  data: IsochroneResult;
+  timestamp: number;
+}
+
+const cache = new Map<string, CachedResult>();
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+function coordsKey(lat: number, lng: number): string {
+  return `${lat.toFixed(3)}_${lng.toFixed(3)}`;
+}
+
+export function cacheKey(lat: number, lng: number, rangesMinutes: number[]): string {
+  return `${coordsKey(lat, lng)}_${[...rangesMinutes].sort((a, b) => a - b).join(",")}`;
+}
+
+export function getCached(key: string): IsochroneResult | null {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (Date.now() - entry.timestamp > CACHE_TTL_MS) {
+    cache.delete(key);
+    return null;
+  }
+  return entry.data;
+}
+
+export function setCached(key: string, data: IsochroneResult): void {
+  cache.set(key, { data, timestamp: Date.now() });
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/** The polygon for one range out of an ORS response (feature values are seconds). */
+export function isochroneFeature(result: IsochroneResult, minutes: number): GeoJSON.Feature | null {
+  return result.geojson.features.find((f) => f.properties?.value === minutes * 60) ?? null;
+}
+
+/**
+ * The `minutes` isochrone around a point — from any cached request that
+ * included that range (e.g. /api/isochrone's default 30,45), else fetched
+ * from ORS on its own and cached.
+ */
+export async function getIsochrone(lat: number, lng: number, minutes: number): Promise<GeoJSON.Feature | null> {
+  const prefix = `${coordsKey(lat, lng)}_`;
+  for (const key of cache.keys()) {
+    if (!key.startsWith(prefix)) continue;
+    const cached = getCached(key);
+    const feature = cached && isochroneFeature(cached, minutes);
+    if (feature) return feature;
+  }
+
+  const result = await fetchOrsIsochrones(lat, lng, [minutes]);
+  setCached(cacheKey(lat, lng, [minutes]), result);
+  return isochroneFeature(result, minutes);
+}
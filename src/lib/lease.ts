@@ -0,0 +1,268 @@
+import type { Suburb } from "@/lib/suburbs";
+import { currentTrendRent, forecastGrowthRate } from "@/lib/forecast";
+
+// ---------------------------------------------------------------------------
+// Lease-cost projection and move timing
+//
+// Rents start from the suburb's trend-fitted median, as its forecast does,
+// and grow at its forecast rate. NSW allows one increase per 12 months, so a
+// tenancy's rent is fixed for each year from its start date and steps up on
+// the anniversary.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface LeaseInput {
+  bedrooms: number | null;
+  leaseMonths: number;
+  start: Date;
+  /** Overrides the typical moving cost for the bedroom count. */
+  movingCost?: number | null;
+  /** What the renter pays now — costs the months spent waiting. */
+  currentRent?: number | null;
+  waitMonths: number[];
+}
+
+export interface LeasePeriod {
+  from: string;
+  to: string;
+  weekly_rent: number;
+  weeks: number;
+  cost: number;
+}
+
+export interface LeaseProjection {
+  start_date: string;
+  end_date: string;
+  lease_months: number;
+  weekly_rent_at_start: number;
+  periods: LeasePeriod[];
+  rent_total: number;
+  /** Four weeks' rent, refundable at the end of the tenancy. */
+  bond: number;
+  moving_cost: number;
+  /** Bond + two weeks' rent in advance + moving, due before moving in. */
+  upfront_cost: number;
+  /** Rent + moving. The bond is excluded as it comes back. */
+  total_cost: number;
+}
+
+export interface WaitOption {
+  wait_months: number;
+  start_date: string;
+  weekly_rent_at_start: number;
+  bond: number;
+  /** Rent over the lease itself. */
+  lease_cost: number;
+  /** Rent at current_rent while waiting — null when current_rent wasn't given. */
+  interim_cost: number | null;
+  /** Interim + new-tenancy rent over the common horizon — null without current_rent. */
+  horizon_cost: number | null;
+  difference_vs_now: number;
+}
+
+export interface MoveTiming {
+  horizon_months: number;
+  compared_on: "horizon_cost" | "lease_cost";
+  options: WaitOption[];
+  best_wait_months: number;
+  summary: string;
+}
+
+export interface LeaseCostResult {
+  suburb_key: string;
+  bedrooms: number | null;
+  annual_growth_pct: number;
+  current_weekly_rent: number;
+  lease: LeaseProjection;
+  timing: MoveTiming;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const MAX_LEASE_MONTHS = 36;
+export const MAX_WAIT_MONTHS = 24;
+export const DEFAULT_WAIT_MONTHS = [3, 6, 12];
+
+const BOND_WEEKS = 4;
+const RENT_IN_ADVANCE_WEEKS = 2;
+const WEEKS_PER_MONTH = 52 / 12;
+
+/** Typical Sydney removalist + connection costs by bedroom count. */
+const MOVING_COST_BY_BEDROOMS: Record<number, number> = {
+  0: 1200, // overall / unknown
+  1: 900,
+  2: 1400,
+  3: 2000,
+  4: 2600,
+  5: 3200,
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function addMonths(date: Date, months: number): Date {
+  const d = new Date(date);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d;
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Months from `from` to `to` (fractional, may be negative). */
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24 * (365.25 / 12));
+}
+
+export function typicalMovingCost(bedrooms: number | null): number {
+  return MOVING_COST_BY_BEDROOMS[Math.min(bedrooms ?? 0, 5)];
+}
+
+/**
+ * Rent paid across [fromMonth, toMonth) of a tenancy that began at
+ * `tenancyStart` with `startRent`, stepping up by `rate` on each anniversary.
+ * Months are whole months after `origin`.
+ */
+function tenancyRent(
+  startRent: number,
+  rate: number,
+  tenancyStart: number,
+  fromMonth: number,
+  toMonth: number,
+  origin: Date,
+): LeasePeriod[] {
+  const periods: LeasePeriod[] = [];
+  for (let year = 0; tenancyStart + year * 12 < toMonth; year++) {
+    const a = Math.max(fromMonth, tenancyStart + year * 12);
+    const b = Math.min(toMonth, tenancyStart + (year + 1) * 12);
+    if (b <= a) continue;
+    const weekly = Math.round(startRent * (1 + rate) ** year);
+    const weeks = Math.round((b - a) * WEEKS_PER_MONTH * 10) / 10;
+    periods.push({
+      from: isoDate(addMonths(origin, a)),
+      to: isoDate(addMonths(origin, b)),
+      weekly_rent: weekly,
+      weeks,
+      cost: Math.round(weekly * weeks),
+    });
+  }
+  return periods;
+}
+
+const sumCost = (periods: LeasePeriod[]) => periods.reduce((s, p) => s + p.cost, 0);
+
+// ---------------------------------------------------------------------------
+// Projection
+// ---------------------------------------------------------------------------
+
+/**
+ * Project the cost of a lease in `suburb` and compare signing at `start`
+ * against waiting each of `waitMonths`. Returns null if the suburb has no
+ * rent for the bedroom count or no usable trend.
+ */
+export function projectLease(
+  suburb: Suburb,
+  input: LeaseInput,
+  today: Date = new Date(),
+): LeaseCostResult | null {
+  const currentWeekly = currentTrendRent(suburb, input.bedrooms || null);
+  const rate = forecastGrowthRate(suburb);
+  if (currentWeekly == null || rate == null) return null;
+
+  // Months below are counted from the requested start date
+  const L = input.leaseMonths;
+  const start = input.start;
+  const monthsAhead = Math.max(0, monthsBetween(today, start));
+  const rentAt = (month: number) =>
+    Math.round(currentWeekly * (1 + rate) ** ((monthsAhead + month) / 12));
+  const movingCost = input.movingCost ?? typicalMovingCost(input.bedrooms);
+
+  // --- The lease as requested ---
+  const startRent = rentAt(0);
+  const periods = tenancyRent(startRent, rate, 0, 0, L, start);
+  const rentTotal = sumCost(periods);
+  const bond = startRent * BOND_WEEKS;
+
+  const lease: LeaseProjection = {
+    start_date: isoDate(start),
+    end_date: isoDate(addMonths(start, L)),
+    lease_months: L,
+    weekly_rent_at_start: startRent,
+    periods,
+    rent_total: rentTotal,
+    bond,
+    moving_cost: movingCost,
+    upfront_cost: bond + startRent * RENT_IN_ADVANCE_WEEKS + movingCost,
+    total_cost: rentTotal + movingCost,
+  };
+
+  // --- Sign now vs wait ---
+  // Every option is costed to the same horizon: the latest lease end
+  const waits = [0, ...input.waitMonths.filter((w) => w > 0)];
+  const horizon = Math.max(...waits) + L;
+  const hasCurrent = input.currentRent != null;
+
+  const options: WaitOption[] = waits.map((w) => {
+    const rent0 = rentAt(w);
+    const leaseCost = sumCost(tenancyRent(rent0, rate, w, w, w + L, start));
+    let interim: number | null = null;
+    let horizonCost: number | null = null;
+    if (hasCurrent) {
+      interim = Math.round(input.currentRent! * w * WEEKS_PER_MONTH);
+      horizonCost = interim + sumCost(tenancyRent(rent0, rate, w, w, horizon, start));
+    }
+    return {
+      wait_months: w,
+      start_date: isoDate(addMonths(start, w)),
+      weekly_rent_at_start: rent0,
+      bond: rent0 * BOND_WEEKS,
+      lease_cost: leaseCost,
+      interim_cost: interim,
+      horizon_cost: horizonCost,
+      difference_vs_now: 0,
+    };
+  });
+
+  const costOf = (o: WaitOption) => (hasCurrent ? o.horizon_cost! : o.lease_cost);
+  const nowCost = costOf(options[0]);
+  for (const o of options) o.difference_vs_now = costOf(o) - nowCost;
+
+  const best = options.reduce((a, b) => (costOf(b) < costOf(a) ? b : a));
+  const worst = options.reduce((a, b) => (costOf(b) > costOf(a) ? b : a));
+  const fmt = (n: number) => `$${Math.abs(n).toLocaleString("en-AU")}`;
+
+  let summary: string;
+  if (best.wait_months === 0) {
+    summary = worst.wait_months === 0
+      ? "Timing makes little difference here — rents are forecast to stay flat."
+      : `Signing now is cheapest: waiting ${worst.wait_months} months would cost ${fmt(worst.difference_vs_now)} more.`;
+  } else {
+    summary = `Waiting ${best.wait_months} months saves ${fmt(best.difference_vs_now)}` +
+      (hasCurrent ? " over the same period." : " on the lease.");
+  }
+  if (!hasCurrent && best.wait_months !== 0) {
+    summary += " Add your current rent to include what you pay while waiting.";
+  }
+
+  return {
+    suburb_key: suburb.suburb_key,
+    bedrooms: input.bedrooms,
+    annual_growth_pct: Math.round(rate * 1000) / 10,
+    current_weekly_rent: currentWeekly,
+    lease,
+    timing: {
+      horizon_months: horizon,
+      compared_on: hasCurrent ? "horizon_cost" : "lease_cost",
+      options,
+      best_wait_months: best.wait_months,
+      summary,
+    },
+  };
+}
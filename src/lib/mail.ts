@@ -0,0 +1,71 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+// ---------------------------------------------------------------------------
+// Outgoing mail — local file sink
+//
+// No mail provider is wired up: each message is written to MAIL_DIR as an
+// .eml file, which any mail client can open. Replace the body of sendMail
+// with a real transport when one is chosen.
+// ---------------------------------------------------------------------------
+
+const MAIL_DIR = process.env.RENTSMART_MAIL_DIR ?? path.join(process.cwd(), ".data", "mail");
+const MAIL_FROM = process.env.RENTSMART_MAIL_FROM ?? "Sydney RentSmart <alerts@rentsmart.local>";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/** A header value on one line, so user text can't start a header of its own. */
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+/** UTF-8 bytes per RFC 2047 encoded word, keeping each word within 75 characters. */
+const ENCODED_WORD_BYTES = 45;
+
+/**
+ * Free-text header value (the Subject) on one line, with non-ASCII text as
+ * RFC 2047 base64 encoded words, folded so no word passes 75 characters.
+ */
+function textHeaderValue(value: string): string {
+  const line = headerValue(value);
+  if (/^[ -~]*$/.test(line)) return line;
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of line) {
+    if (Buffer.byteLength(chunk + char) > ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${Buffer.from(w).toString("base64")}?=`).join("\r\n ");
+}
+
+/** Deliver a plain-text message. Returns the path of the written .eml file. */
+export function sendMail(message: MailMessage): string {
+  fs.mkdirSync(MAIL_DIR, { recursive: true });
+  const sentAt = new Date();
+  const file = path.join(
+    MAIL_DIR,
+    `${sentAt.toISOString().replace(/[:.]/g, "-")}-${crypto.randomBytes(3).toString("hex")}.eml`,
+  );
+  const eml = [
+    `From: ${MAIL_FROM}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${textHeaderValue(message.subject)}`,
+    `Date: ${sentAt.toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+    "",
+    message.text,
+  ].join("\r\n");
+  fs.writeFileSync(file, eml);
+  return file;
+}
@@ -4,6 +4,14 @@ import { API_CONFIG, getOrsHeaders, toOrsCoords } from "@/config/apis";
 // Types
 // ---------------------------------------------------------------------------
 
+export type DirectionsMode = "driving" | "cycling" | "walking";
+
+export const DIRECTIONS_MODES: DirectionsMode[] = ["driving", "cycling", "walking"];
+
+export function isDirectionsMode(value: string): value is DirectionsMode {
+  return (DIRECTIONS_MODES as string[]).includes(value);
+}
+
 export interface DirectionsResult {
   duration_minutes: number;
   distance_km: number;
@@ -54,7 +62,7 @@ function decodePolyline(encoded: string): [number, number][] {
 /**
  * Fetch turn-by-turn route geometry + summary from ORS.
  *
- * @param mode - "driving" uses driving-car, "cycling" uses cycling-regular
+ * @param mode - "driving" uses driving-car, "cycling" cycling-regular, "walking" foot-walking
  * @returns Decoded geometry as [lat, lng] pairs, duration in minutes, distance in km
  */
 export async function fetchOrsDirections(
@@ -62,11 +70,14 @@ export async function fetchOrsDirections(
   fromLng: number,
   toLat: number,
   toLng: number,
-  mode: "driving" | "cycling" = "driving",
+  mode: DirectionsMode = "driving",
 ): Promise<DirectionsResult> {
   const { baseUrl, endpoints } = API_CONFIG.openRouteService;
-  const endpoint =
-    mode === "cycling" ? endpoints.directionsCycling : endpoints.directionsJson;
+  const endpoint = {
+    driving: endpoints.directionsJson,
+    cycling: endpoints.directionsCycling,
+    walking: endpoints.directionsWalking,
+  }[mode];
   const url = `${baseUrl}${endpoint}`;
 
   const body = {
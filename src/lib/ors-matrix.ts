@@ -12,11 +12,15 @@ interface MatrixRequest {
   units: "km";
 }
 
+/** Rows are sources, columns destinations; null where ORS found no route. */
 export interface MatrixResult {
-  durations_min: number[][];
-  distances_km: number[][];
+  durations_min: (number | null)[][];
+  distances_km: (number | null)[][];
 }
 
+/** ORS rejects matrix requests with more locations than this. */
+export const ORS_MATRIX_MAX_LOCATIONS = 50;
+
 // ---------------------------------------------------------------------------
 // ORS Matrix API client
 // ---------------------------------------------------------------------------
@@ -35,6 +39,9 @@ export async function fetchOrsMatrix(
   suburbs: { lat: number; lng: number }[],
   hubs: { lat: number; lng: number }[],
 ): Promise<MatrixResult> {
+  if (suburbs.length + hubs.length > ORS_MATRIX_MAX_LOCATIONS) {
+    throw new Error(`ORS Matrix API accepts at most ${ORS_MATRIX_MAX_LOCATIONS} locations per request`);
+  }
   const { baseUrl, endpoints } = API_CONFIG.openRouteService;
   const url = `${baseUrl}${endpoints.matrix}`;
 
@@ -74,13 +81,13 @@ export async function fetchOrsMatrix(
     const data = await resp.json();
 
     // Convert durations from seconds → rounded minutes
-    const durations_min: number[][] = (data.durations as number[][]).map(
-      (row) => row.map((sec) => Math.round(sec / 60)),
+    const durations_min = (data.durations as (number | null)[][]).map(
+      (row) => row.map((sec) => (sec == null ? null : Math.round(sec / 60))),
     );
 
     // Distances are already in km (we passed units: "km"), round to 1 decimal
-    const distances_km: number[][] = (data.distances as number[][]).map(
-      (row) => row.map((km) => Math.round(km * 10) / 10),
+    const distances_km = (data.distances as (number | null)[][]).map(
+      (row) => row.map((km) => (km == null ? null : Math.round(km * 10) / 10)),
     );
 
     return { durations_min, distances_km };
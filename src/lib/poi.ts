@@ -0,0 +1,191 @@
+import { getDb } from "@/lib/db";
+import { fetchOverpassAmenities, type AmenityItem, type CategorizedAmenities } from "@/lib/overpass";
+import { getSuburbByKey, type Suburb } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Overpass points of interest per suburb, cached on disk in the local SQLite
+// store. Each cached suburb also keeps a small summary — the nearest POI of
+// each category and walkability-style sub-scores — so /api/recommend can
+// filter on every cached suburb without parsing their POI lists.
+//
+// The cache fills as suburb pages are viewed; `npm run poi-cache` fills it
+// for every suburb up front.
+//
+// Server-only: reads and writes the SQLite store.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Everyday POI categories the summary and the recommend filters cover. */
+export type PoiCategory = "supermarkets" | "pharmacies" | "parks" | "gyms" | "libraries";
+
+export const POI_CATEGORIES: PoiCategory[] = ["supermarkets", "pharmacies", "parks", "gyms", "libraries"];
+
+/** 0–100 each; higher is more within walking distance. */
+export interface WalkScores {
+  daily_needs: number; // supermarkets, pharmacies
+  green_space: number; // parks
+  fitness: number; // gyms
+}
+
+export interface PoiSummary {
+  nearest_m: Record<PoiCategory, number | null>; // metres to the nearest, null if none within POI_RADIUS_M
+  scores: WalkScores;
+}
+
+export interface SuburbPois {
+  pois: CategorizedAmenities;
+  summary: PoiSummary;
+  fetched_at: string;
+}
+
+interface PoiCacheRow {
+  pois: string;
+  summary: string;
+  fetched_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Walkability
+// ---------------------------------------------------------------------------
+
+/** Radius fetched around each centroid — as far as the suburb page lists. */
+export const POI_RADIUS_M = 3000;
+/** Cached POIs older than this are re-fetched when a suburb page asks. */
+const MAX_AGE_DAYS = 30;
+/** In-memory summaries are re-read after this, to pick up `npm run poi-cache` runs. */
+const SUMMARIES_TTL_MS = 10 * 60 * 1000;
+
+// Each POI counts fully within a 5-minute walk, fading to nothing at 20 minutes
+const FULL_CREDIT_KM = 0.4;
+const NO_CREDIT_KM = 1.6;
+
+/**
+ * The POIs each sub-score counts: the nearest in a category earns the first
+ * weight, the next nearest the second, and so on, so a choice of several
+ * nearby scores higher than a single one.
+ */
+const WALK_SCORE_WEIGHTS: Record<keyof WalkScores, [PoiCategory, number[]][]> = {
+  daily_needs: [
+    ["supermarkets", [3, 1, 1]],
+    ["pharmacies", [1.5, 0.5]],
+  ],
+  green_space: [["parks", [3, 1.5, 1, 0.5]]],
+  fitness: [["gyms", [3, 1.5, 0.5]]],
+};
+
+function distanceCredit(distanceKm: number): number {
+  return Math.max(0, Math.min(1, (NO_CREDIT_KM - distanceKm) / (NO_CREDIT_KM - FULL_CREDIT_KM)));
+}
+
+function walkScore(pois: CategorizedAmenities, weighted: [PoiCategory, number[]][]): number {
+  let earned = 0;
+  let possible = 0;
+  for (const [category, weights] of weighted) {
+    weights.forEach((weight, i) => {
+      const poi: AmenityItem | undefined = pois[category][i];
+      if (poi) earned += weight * distanceCredit(poi.distance_km);
+      possible += weight;
+    });
+  }
+  return Math.round((earned / possible) * 100);
+}
+
+/** Nearest POI per category and the walkability sub-scores. Lists must be sorted by distance. */
+export function summarisePois(pois: CategorizedAmenities): PoiSummary {
+  const nearest = {} as PoiSummary["nearest_m"];
+  for (const category of POI_CATEGORIES) {
+    const first = pois[category][0];
+    nearest[category] = first ? Math.round(first.distance_km * 1000) : null;
+  }
+  return {
+    nearest_m: nearest,
+    scores: {
+      daily_needs: walkScore(pois, WALK_SCORE_WEIGHTS.daily_needs),
+      green_space: walkScore(pois, WALK_SCORE_WEIGHTS.green_space),
+      fitness: walkScore(pois, WALK_SCORE_WEIGHTS.fitness),
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Cache
+// ---------------------------------------------------------------------------
+
+// Summaries of every cached suburb, read on first use; refreshes in this
+// process update it in place
+let summaries: { byKey: Map<string, PoiSummary>; loadedAt: number } | null = null;
+
+function readCached(suburbKey: string): SuburbPois | null {
+  const row = getDb()
+    .prepare("SELECT pois, summary, fetched_at FROM poi_cache WHERE suburb_key = ?")
+    .get(suburbKey) as PoiCacheRow | undefined;
+  if (!row) return null;
+  return {
+    pois: JSON.parse(row.pois) as CategorizedAmenities,
+    summary: JSON.parse(row.summary) as PoiSummary,
+    fetched_at: row.fetched_at,
+  };
+}
+
+export function isStale(fetchedAt: string): boolean {
+  return Date.now() - Date.parse(fetchedAt) > MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/** Fetch a suburb's POIs from Overpass and cache them. Throws on Overpass errors. */
+export async function refreshSuburbPois(suburb: Suburb & { lat: number; lng: number }): Promise<SuburbPois> {
+  const pois = await fetchOverpassAmenities(suburb.lat, suburb.lng, POI_RADIUS_M);
+  const entry: SuburbPois = { pois, summary: summarisePois(pois), fetched_at: new Date().toISOString() };
+  getDb()
+    .prepare(
+      `INSERT INTO poi_cache (suburb_key, radius_m, pois, summary, fetched_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(suburb_key) DO UPDATE SET
+         radius_m = excluded.radius_m, pois = excluded.pois, summary = excluded.summary, fetched_at = excluded.fetched_at`,
+    )
+    .run(suburb.suburb_key, POI_RADIUS_M, JSON.stringify(pois), JSON.stringify(entry.summary), entry.fetched_at);
+  summaries?.byKey.set(suburb.suburb_key, entry.summary);
+  return entry;
+}
+
+/**
+ * A suburb's POIs — from the cache, or fetched when missing or stale. A
+ * stale entry is still returned if Overpass fails. Null for an unknown
+ * suburb or one without a centroid.
+ */
+export async function getSuburbPois(suburbKey: string): Promise<SuburbPois | null> {
+  const suburb = getSuburbByKey(suburbKey);
+  if (!suburb || suburb.lat == null || suburb.lng == null) return null;
+
+  const cached = readCached(suburbKey);
+  if (cached && !isStale(cached.fetched_at)) return cached;
+  try {
+    return await refreshSuburbPois({ ...suburb, lat: suburb.lat, lng: suburb.lng });
+  } catch (error) {
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+/** Summaries for every cached suburb, stale or not, by suburb_key. Held in memory. */
+export function getPoiSummaries(): Map<string, PoiSummary> {
+  if (!summaries || Date.now() - summaries.loadedAt > SUMMARIES_TTL_MS) {
+    const rows = getDb()
+      .prepare("SELECT suburb_key, summary FROM poi_cache")
+      .all() as { suburb_key: string; summary: string }[];
+    summaries = {
+      byKey: new Map(rows.map((r) => [r.suburb_key, JSON.parse(r.summary) as PoiSummary])),
+      loadedAt: Date.now(),
+    };
+  }
+  return summaries.byKey;
+}
+
+/** When each cached suburb was fetched, by suburb_key. */
+export function getPoiFetchTimes(): Map<string, string> {
+  const rows = getDb()
+    .prepare("SELECT suburb_key, fetched_at FROM poi_cache")
+    .all() as { suburb_key: string; fetched_at: string }[];
+  return new Map(rows.map((r) => [r.suburb_key, r.fetched_at]));
+}
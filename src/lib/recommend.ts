@@ -0,0 +1,787 @@
+import {
+  getAllSuburbs,
+  calculateRentStress,
+  dwellingMedianRent,
+  DWELLING_KINDS,
+  isDwellingKind,
+  medianRentKey,
+  resolveSuburbQuery,
+  type DwellingKind,
+  type DwellingRentBasis,
+  type RentStressResult,
+  type Suburb,
+} from "@/lib/suburbs";
+import { getNearestStation, estimateCommuteTime, estimateCyclingMinutes, haversineKm } from "@/lib/commute";
+import { getCachedCommute } from "@/lib/commute-cache";
+import {
+  COST_MODES,
+  drivingCost,
+  isCostMode,
+  transitCost,
+  type CommuteCost,
+  type CostMode,
+} from "@/lib/commute-cost";
+import { explainAmenityScore } from "@/lib/amenities";
+import { getHealthcareAccess } from "@/lib/healthcare";
+import {
+  describeRule,
+  describeWalkRule,
+  parseAmenityProfile,
+  type AmenityProfile,
+  type RuleOutcome,
+  type WalkOutcome,
+} from "@/lib/amenity-profiles";
+import { API_CONFIG } from "@/config/apis";
+import { pointInGeometry } from "@/lib/geo";
+import { getIsochrone } from "@/lib/isochrone-cache";
+import { hasCatchmentData, secondaryCatchments } from "@/lib/schools";
+import { getPoiSummaries, POI_CATEGORIES, POI_RADIUS_M, type PoiCategory, type WalkScores } from "@/lib/poi";
+import { hubDrive, matrixHubFor } from "@/lib/hub-matrix";
+import { transitTime } from "@/lib/transit";
+import { hubDistanceField, hubDistances, HUB_IDS, type HubDistances, type HubId } from "@/lib/hubs";
+import { forecastSuburb } from "@/lib/forecast";
+import { isIncomeType, resolveIncome, type IncomeBasis } from "@/lib/tax";
+import {
+  computeOverallScore,
+  compareForSort,
+  estimateCommuteMinutes,
+  isSortMode,
+  resolveWeights,
+  SORT_MODES,
+  type ScoreBreakdown,
+  type ScoreWeights,
+  type SortMode,
+} from "@/lib/scoring";
+import {
+  COMMUTE_OBJECTIVES,
+  householdCommute,
+  isCommuteObjective,
+  parseWorkplaces,
+  type CommuteObjective,
+  type HouseholdCommute,
+  type Workplace,
+} from "@/lib/household";
+
+// ---------------------------------------------------------------------------
+// Suburb recommendations — the /api/recommend search, callable server-side
+// (the route and saved-search alerts both run it)
+// ---------------------------------------------------------------------------
+
+/** Cap on returned suburbs — enough for all client-side sort modes. */
+export const MAX_RESULTS = 1000;
+
+export type SearchMode = "income" | "budget";
+
+export interface ScoredSuburb extends HubDistances {
+  suburb_key: string;
+  postcode: string;
+  suburb_name: string | null;
+  lat: number | null;
+  lng: number | null;
+  median_rent: number;
+  rent_stress_pct: number | null; // income mode only, vs take-home
+  rent_stress_pct_gross: number | null; // income mode only
+  budget_used_pct: number | null; // budget mode only
+  headroom: number | null; // budget mode only: $/wk left under budget
+  rent_share_pct: number; // stress or budget used — whichever applies
+  affordability_score: number;
+  rating: string | null;
+  total_bonds: number;
+  rent_trend: Record<string, number>;
+  rent_in_12_months: number | null; // per person, from the suburb's rent forecast
+  dwelling_types: Record<string, number>;
+  nearest_station: { name: string; distance_km: number; type: string; lines: string[] } | null;
+  commute_minutes: number | null;
+  commute_label: string | null;
+  // transit_matrix = offline GTFS weekday peak; hub_matrix = precomputed ORS drive
+  commute_source: "transit_matrix" | "hub_matrix" | "estimate" | null;
+  distance_km: number | null;
+  estimated_commute_min: number | null;
+  cycling_minutes: number | null; // ORS if /api/commute fetched it recently, else estimated
+  commute_cost: CommuteCost | null; // weekly, to the primary workplace
+  true_weekly_cost: number | null; // per-person rent + commute cost; null when a workplace's commute cost is unknown
+  household_commute: HouseholdCommute | null;
+  // Composite score
+  overall_score: number;
+  score_breakdown: ScoreBreakdown;
+  amenity_score: number;
+  healthcare_score: number;
+  amenity_rules: Pick<RuleOutcome, "found" | "earned">[]; // in amenity_profile.rules order
+  amenity_walk_rules: Pick<WalkOutcome, "walk_score" | "earned">[]; // in amenity_profile.walk_rules order
+  secondary_catchment: string[]; // public secondary schools whose intake zone holds the centroid
+  walkability: WalkScores | null; // null until the suburb's POIs have been cached
+  // Sharing fields
+  sharing_mode: number;
+  total_rent: number;
+  per_person_rent: number;
+  solo_rent: number | null;
+  savings_vs_solo: number | null;
+  rent_estimated: boolean;
+  /** With a dwelling filter: whether the rent is that type's median or the suburb-wide one it fell back to. */
+  dwelling_rent_basis: DwellingRentBasis | null;
+}
+
+export interface RecommendResult {
+  mode: SearchMode;
+  income_weekly: number | null;
+  income: IncomeBasis | null;
+  budget_weekly: number | null;
+  bedrooms: number | "overall";
+  dwelling: DwellingKind | null;
+  max_hub_km: Partial<Record<HubId, number>>;
+  max_cycle_min: number | null;
+  max_commute_min: number | null;
+  commute_isochrone: GeoJSON.Feature | null; // the max_commute_min drive-time area, for the map
+  secondary_catchment: boolean;
+  max_poi_m: Partial<Record<PoiCategory, number>>;
+  poi_coverage: number; // suburbs with cached POIs; POI filters only pass these
+  cost_mode: CostMode;
+  concession: boolean;
+  office_days: number;
+  sharing_mode: number;
+  sort: SortMode | null;
+  weights: ScoreWeights;
+  amenity_profile: AmenityProfile & { rules: { description: string }[]; walk_rules: { description: string }[] };
+  workplace: string | null;
+  workplace_postcode: string | null;
+  workplace_suburb_key: string | null;
+  workplace_hub: string | null; // matrix hub the workplace resolves to, if any
+  workplace_lat: number | null;
+  workplace_lng: number | null;
+  workplaces: {
+    query: string;
+    suburb_key: string;
+    suburb_name: string | null;
+    postcode: string;
+    lat: number | null;
+    lng: number | null;
+    weight: number;
+  }[];
+  commute_objective: CommuteObjective | null;
+  total_matching: number;
+  showing: number;
+  suburbs: ScoredSuburb[];
+}
+
+
+/**
+ * Resolve the rent field + per-person divisor for sharing mode.
+ *
+ * sharing=1 (solo): use user-selected bedroom count as-is
+ * sharing=2: use 2-bed rent ÷ 2  (or 1-bed ÷ 2 if share_bedroom)
+ * sharing=3: use 3-bed rent ÷ 3
+ * sharing=4: use 4-bed rent ÷ 4
+ *
+ * Fallback: if the preferred bedroom data is null, try the next lower
+ * bedroom count and flag rent_estimated=true.
+ *
+ * With a dwelling type, rents come from that type's medians (see
+ * dwellingMedianRent); falling back to the suburb-wide median also sets
+ * rent_estimated, and dwellingBasis says which one was used.
+ */
+function resolveSharedRent(
+  suburb: Suburb,
+  userBedrooms: number | null,
+  sharingCount: number,
+  shareBedroom: boolean,
+  dwelling: DwellingKind | null,
+): {
+  totalRent: number | null;
+  perPersonRent: number;
+  rentEstimated: boolean;
+  bedsUsed: number;
+  dwellingBasis: DwellingRentBasis | null;
+} | null {
+  const basisOf = (found: { estimated: boolean }): DwellingRentBasis | null =>
+    dwelling ? (found.estimated ? "all_dwellings" : "dwelling") : null;
+  const rentFor = (beds: number | null): { rent: number; estimated: boolean } | null => {
+    if (dwelling) return dwellingMedianRent(suburb, dwelling, beds);
+    const rent = suburb[beds ? medianRentKey(beds) : "median_rent_overall"] as number | null;
+    return rent === null ? null : { rent, estimated: false };
+  };
+
+  if (sharingCount <= 1) {
+    // Solo mode — original behaviour
+    const found = rentFor(userBedrooms);
+    if (found === null) return null;
+    return {
+      totalRent: found.rent,
+      perPersonRent: found.rent,
+      rentEstimated: found.estimated,
+      bedsUsed: userBedrooms ?? 0,
+      dwellingBasis: basisOf(found),
+    };
+  }
+
+  // Shared mode — determine which bedroom count to look up
+  let targetBeds: number;
+  if (sharingCount === 2 && shareBedroom) {
+    targetBeds = 1; // couples sharing a bedroom
+  } else {
+    targetBeds = Math.min(sharingCount, 4);
+  }
+
+  // Minimum bedroom guardrails
+  const minBeds = sharingCount === 2 && shareBedroom ? 1 : sharingCount >= 4 ? 3 : sharingCount >= 3 ? 2 : 1;
+
+  // Try target beds, then fall back downward
+  let rent: number | null = null;
+  let bedsUsed = targetBeds;
+  let estimated = false;
+  let dwellingBasis: DwellingRentBasis | null = null;
+
+  for (let beds = targetBeds; beds >= minBeds; beds--) {
+    const found = rentFor(beds);
+    if (found !== null) {
+      rent = found.rent;
+      bedsUsed = beds;
+      estimated = beds !== targetBeds || found.estimated;
+      dwellingBasis = basisOf(found);
+      break;
+    }
+  }
+
+  if (rent === null) return null;
+
+  const perPerson = Math.round((rent / sharingCount) * 10) / 10;
+  return { totalRent: rent, perPersonRent: perPerson, rentEstimated: estimated, bedsUsed, dwellingBasis };
+}
+
+/**
+ * Per-person rent a year out: the first point of the suburb's forecast for
+ * `bedsUsed` (the pooled median rebased onto its trend), scaled by the
+ * search's rent over that median so sharing splits and dwelling premiums
+ * carry over. Null without a forecast.
+ */
+function rentIn12Months(suburb: Suburb, bedsUsed: number, perPersonRent: number): number | null {
+  const pooled = suburb[bedsUsed ? medianRentKey(bedsUsed) : "median_rent_overall"] as number | null;
+  const next = forecastSuburb(suburb, bedsUsed || null, 1)?.points[0];
+  if (!next || !pooled) return null;
+  return Math.round(next.median * (perPersonRent / pooled));
+}
+
+/**
+ * Parse caller-supplied score weights (w_affordability, w_commute, w_amenity,
+ * w_healthcare, w_supply). Returns null when none are given, or an error string when any
+ * supplied weight is not a non-negative number.
+ */
+function parseWeights(
+  params: URLSearchParams,
+): { weights: Partial<ScoreWeights> | null } | { error: string } {
+  const weights: Partial<ScoreWeights> = {};
+  for (const key of ["affordability", "commute", "amenity", "healthcare", "supply"] as const) {
+    const raw = params.get(`w_${key}`);
+    if (raw == null) continue;
+    const value = Number(raw);
+    if (raw.trim() === "" || isNaN(value) || value < 0) {
+      return { error: `w_${key} must be a non-negative number` };
+    }
+    weights[key] = value;
+  }
+  return { weights: Object.keys(weights).length > 0 ? weights : null };
+}
+
+/**
+ * Parse hub distance caps (max_cbd_km, max_parramatta_km, ...). Returns an
+ * error string when any supplied cap is not a positive number.
+ */
+function parseHubCaps(
+  params: URLSearchParams,
+): { caps: Partial<Record<HubId, number>> } | { error: string } {
+  const caps: Partial<Record<HubId, number>> = {};
+  for (const hub of HUB_IDS) {
+    const raw = params.get(`max_${hub}_km`);
+    if (raw == null || raw === "") continue;
+    const value = Number(raw);
+    if (isNaN(value) || value <= 0) {
+      return { error: `max_${hub}_km must be a positive number (km)` };
+    }
+    caps[hub] = value;
+  }
+  return { caps };
+}
+
+/** Walking-distance params per POI category, e.g. max_park_m=500. */
+const POI_CAP_PARAMS: Record<PoiCategory, string> = {
+  supermarkets: "max_supermarket_m",
+  pharmacies: "max_pharmacy_m",
+  parks: "max_park_m",
+  gyms: "max_gym_m",
+  libraries: "max_library_m",
+};
+
+/**
+ * Parse POI distance caps (max_supermarket_m, max_park_m, ...). Returns an
+ * error string when a cap isn't a positive number of metres within the
+ * radius POIs are cached for.
+ */
+function parsePoiCaps(
+  params: URLSearchParams,
+): { caps: Partial<Record<PoiCategory, number>> } | { error: string } {
+  const caps: Partial<Record<PoiCategory, number>> = {};
+  for (const category of POI_CATEGORIES) {
+    const name = POI_CAP_PARAMS[category];
+    const raw = params.get(name);
+    if (raw == null || raw === "") continue;
+    const value = Number(raw);
+    if (isNaN(value) || value <= 0 || value > POI_RADIUS_M) {
+      return { error: `${name} must be a positive number of metres up to ${POI_RADIUS_M}` };
+    }
+    caps[category] = value;
+  }
+  return { caps };
+}
+
+/** ORS caps driving isochrones at an hour. */
+const MAX_ISOCHRONE_MIN = 60;
+
+/**
+ * Run a recommendation search from `/api/recommend` query params. Returns
+ * the response body, or an error message with its HTTP status — 400 for
+ * invalid params unless `status` says otherwise (502 when ORS fails for a
+ * max_commute_min search). `limit` caps the returned suburbs;
+ * `total_matching` always counts every match.
+ */
+export async function recommend(
+  params: URLSearchParams,
+  limit = MAX_RESULTS,
+): Promise<{ result: RecommendResult } | { error: string; status?: number }> {
+  const bedroomsStr = params.get("bedrooms");
+
+  // --- Search mode ---
+  // income: value is weekly income, rank by 30%-rule rent stress
+  // budget: value is the weekly rent budget, rank by headroom under it
+  const modeStr = params.get("mode") ?? "income";
+  if (modeStr !== "income" && modeStr !== "budget") {
+    return { error: 'mode must be "income" or "budget"' };
+  }
+  const mode: SearchMode = modeStr;
+  const isBudgetMode = mode === "budget";
+
+  // --- Validation ---
+  const incomeStr = isBudgetMode ? params.get("budget") ?? params.get("income") : params.get("income");
+  if (!incomeStr) {
+    return {
+      error: isBudgetMode
+        ? "Missing required param: budget (weekly $)"
+        : "Missing required param: income (weekly $)",
+    };
+  }
+
+  const income = Number(incomeStr);
+  if (isNaN(income) || income <= 0) {
+    return { error: `${isBudgetMode ? "budget" : "income"} must be a positive number (weekly $)` };
+  }
+
+  // --- Gross vs take-home (income mode) ---
+  const incomeTypeStr = params.get("income_type") ?? "takehome";
+  if (!isIncomeType(incomeTypeStr)) {
+    return { error: 'income_type must be "gross" or "takehome"' };
+  }
+  const incomeBasis = isBudgetMode
+    ? null
+    : resolveIncome(income, incomeTypeStr, { hasHelpDebt: params.get("help") === "1" });
+  // Stress is measured against take-home pay; gross is reported alongside
+  const netIncome = incomeBasis?.net_weekly ?? income;
+
+  const bedrooms = bedroomsStr ? Number(bedroomsStr) : null;
+  if (bedrooms !== null && (isNaN(bedrooms) || bedrooms < 1 || bedrooms > 5)) {
+    return { error: "bedrooms must be between 1 and 5" };
+  }
+
+  // --- Dwelling type (house / flat / townhouse) ---
+  const dwellingStr = params.get("dwelling") || null;
+  if (dwellingStr !== null && !isDwellingKind(dwellingStr)) {
+    return { error: `dwelling must be one of: ${DWELLING_KINDS.join(", ")}` };
+  }
+  const dwelling: DwellingKind | null = dwellingStr;
+
+  // --- Straight-line distance caps to employment hubs ---
+  const parsedCaps = parseHubCaps(params);
+  if ("error" in parsedCaps) {
+    return { error: parsedCaps.error };
+  }
+  const hubCaps = Object.entries(parsedCaps.caps) as [HubId, number][];
+
+  // --- Bike-friendly commute: cycling time to the workplace ---
+  const maxCycleStr = params.get("max_cycle_min") || null;
+  const maxCycleMin = maxCycleStr !== null ? Number(maxCycleStr) : null;
+  if (maxCycleMin !== null && (isNaN(maxCycleMin) || maxCycleMin <= 0)) {
+    return { error: "max_cycle_min must be a positive number (minutes)" };
+  }
+
+  // --- Drive-time area: suburbs inside the workplace's isochrone ---
+  const maxCommuteStr = params.get("max_commute_min") || null;
+  const maxCommuteMin = maxCommuteStr !== null ? Number(maxCommuteStr) : null;
+  if (maxCommuteMin !== null && (!Number.isInteger(maxCommuteMin) || maxCommuteMin <= 0 || maxCommuteMin > MAX_ISOCHRONE_MIN)) {
+    return { error: `max_commute_min must be a whole number of minutes from 1 to ${MAX_ISOCHRONE_MIN}` };
+  }
+
+  // --- Family search: inside a public secondary school's intake zone ---
+  const inSecondaryCatchment = params.get("secondary_catchment") === "1";
+  if (inSecondaryCatchment && !hasCatchmentData()) {
+    return { error: "secondary_catchment needs school intake zones; run npm run school-catchments" };
+  }
+
+  // --- Walking distance to everyday POIs, from the Overpass cache ---
+  const parsedPoiCaps = parsePoiCaps(params);
+  if ("error" in parsedPoiCaps) {
+    return { error: parsedPoiCaps.error };
+  }
+  const poiCaps = Object.entries(parsedPoiCaps.caps) as [PoiCategory, number][];
+  const poiSummaries = getPoiSummaries(); // in memory after the first search
+  if (poiCaps.length > 0 && poiSummaries.size === 0) {
+    return { error: "POI filters need cached POIs; run npm run poi-cache" };
+  }
+
+  // --- Commute cost: how and how often the trip to work is made ---
+  const costModeStr = params.get("cost_mode") || "transit";
+  if (!isCostMode(costModeStr)) {
+    return { error: `cost_mode must be one of: ${COST_MODES.join(", ")}` };
+  }
+  const costMode: CostMode = costModeStr;
+  const concession = params.get("concession") === "1";
+  const officeDaysStr = params.get("office_days");
+  const officeDays = officeDaysStr ? Number(officeDaysStr) : 5;
+  if (!Number.isInteger(officeDays) || officeDays < 1 || officeDays > 7) {
+    return { error: "office_days must be a whole number from 1 to 7" };
+  }
+
+  // --- Sharing mode ---
+  const sharingStr = params.get("sharing");
+  const sharingCount = sharingStr ? Math.min(4, Math.max(1, Number(sharingStr) || 1)) : 1;
+  const shareBedroom = params.get("share_bedroom") === "1";
+
+  // --- Sort + scoring weights ---
+  const sortStr = params.get("sort");
+  if (sortStr !== null && !isSortMode(sortStr)) {
+    return { error: `sort must be one of: ${SORT_MODES.join(", ")}` };
+  }
+  const sortMode: SortMode | null = sortStr;
+
+  const parsedWeights = parseWeights(params);
+  if ("error" in parsedWeights) {
+    return { error: parsedWeights.error };
+  }
+
+  // --- Amenity scoring profile (amenity_profile, or custom aw_* weights) ---
+  const parsedProfile = parseAmenityProfile(params);
+  if ("error" in parsedProfile) {
+    return { error: parsedProfile.error };
+  }
+  const amenityProfile = parsedProfile.profile;
+
+  // --- Household workplaces (2–4 people commuting to different places) ---
+  const workplacesStr = params.get("workplaces");
+  let workplaces: Workplace[] = [];
+  if (workplacesStr) {
+    const parsed = parseWorkplaces(workplacesStr);
+    if ("error" in parsed) {
+      return { error: parsed.error };
+    }
+    workplaces = parsed.workplaces;
+  }
+
+  const objectiveStr = params.get("commute_objective");
+  if (objectiveStr !== null && !isCommuteObjective(objectiveStr)) {
+    return { error: `commute_objective must be one of: ${COMMUTE_OBJECTIVES.join(", ")}` };
+  }
+  const objective: CommuteObjective = objectiveStr ?? "total";
+  const isHousehold = workplaces.length > 1;
+
+  // Resolve workplace to a specific suburb (name-first, postcode-fallback).
+  // With several workplaces, the first one is the primary for map/distance.
+  const workplaceStr = params.get("workplace");
+  const workplaceMatch = workplaces[0]?.suburb ?? (workplaceStr ? resolveSuburbQuery(workplaceStr) : null);
+  const workplacePostcode = workplaceMatch?.postcode ?? null;
+  const workplaceName = workplaceMatch?.suburb_name ?? null;
+  const workplaceLat = workplaceMatch?.lat ?? null;
+  const workplaceLng = workplaceMatch?.lng ?? null;
+  const workplaceSuburbKey = workplaceMatch?.suburb_key ?? null;
+  // Hub workplaces get real drive times from the precomputed matrix
+  const workplaceHub = workplaceMatch ? matrixHubFor(workplaceMatch) : null;
+
+  const hasWorkplace = workplaceLat != null && workplaceLng != null;
+  if (maxCycleMin !== null && !hasWorkplace) {
+    return { error: "max_cycle_min needs a workplace" };
+  }
+  if (maxCommuteMin !== null && !hasWorkplace) {
+    return { error: "max_commute_min needs a workplace" };
+  }
+  if (maxCommuteMin !== null && !API_CONFIG.openRouteService.apiKey) {
+    return { error: "max_commute_min needs OPENROUTE_API_KEY" };
+  }
+  // Centroids are tested against the area around the workplace
+  let commuteArea: GeoJSON.Feature | null = null;
+  if (maxCommuteMin !== null) {
+    try {
+      commuteArea = await getIsochrone(workplaceLat!, workplaceLng!, maxCommuteMin);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error), status: 502 };
+    }
+    if (!commuteArea) return { error: `ORS returned no ${maxCommuteMin}-minute isochrone`, status: 502 };
+  }
+  const weights = resolveWeights(parsedWeights.weights, hasWorkplace);
+
+  // --- Build scored list ---
+  const scored: ScoredSuburb[] = [];
+
+  for (const suburb of getAllSuburbs()) {
+    // Suburbs without a centroid have no distance, so can't satisfy a cap
+    if (hubCaps.some(([hub, max]) => (suburb[hubDistanceField(hub)] ?? Infinity) > max)) continue;
+    if (commuteArea && (suburb.lat == null || suburb.lng == null || !pointInGeometry(suburb.lat, suburb.lng, commuteArea.geometry))) {
+      continue;
+    }
+    const secondaryCatchment = secondaryCatchments(suburb.suburb_key);
+    if (inSecondaryCatchment && secondaryCatchment.length === 0) continue;
+    // Suburbs without cached POIs can't be shown to meet a cap
+    const poiSummary = poiSummaries.get(suburb.suburb_key) ?? null;
+    if (poiCaps.some(([category, max]) => (poiSummary?.nearest_m[category] ?? Infinity) > max)) continue;
+
+    const resolved = resolveSharedRent(suburb, bedrooms, sharingCount, shareBedroom, dwelling);
+    if (!resolved) continue;
+
+    const { totalRent, perPersonRent, rentEstimated, bedsUsed, dwellingBasis } = resolved;
+
+    // Budget mode filters on the budget directly and skips the 30% rule
+    let stress: RentStressResult | null = null;
+    let grossStressPct: number | null = null;
+    let budgetUsedPct: number | null = null;
+    let headroom: number | null = null;
+    if (isBudgetMode) {
+      if (perPersonRent > income) continue;
+      budgetUsedPct = Math.round((perPersonRent / income) * 1000) / 10;
+      headroom = Math.round((income - perPersonRent) * 10) / 10;
+    } else {
+      stress = calculateRentStress(netIncome, perPersonRent);
+      if (stress.percentage > 100) continue;
+      grossStressPct = calculateRentStress(incomeBasis!.gross_weekly, perPersonRent).percentage;
+    }
+    const rentSharePct = stress?.percentage ?? budgetUsedPct!;
+
+    // Solo rent for savings comparison (1-bed as baseline)
+    let soloRent: number | null = null;
+    let savingsVsSolo: number | null = null;
+    if (sharingCount > 1) {
+      soloRent = (suburb.median_rent_1bed as number | null) ?? (suburb.median_rent_overall as number | null);
+      if (soloRent !== null) {
+        savingsVsSolo = Math.round(soloRent - perPersonRent);
+      }
+    }
+
+    // Nearest station
+    let nearestStation: ScoredSuburb["nearest_station"] = null;
+    if (suburb.lat != null && suburb.lng != null) {
+      const ns = getNearestStation(suburb.lat, suburb.lng);
+      if (ns) {
+        nearestStation = {
+          name: ns.station.name,
+          distance_km: ns.distanceKm,
+          type: ns.station.type,
+          lines: ns.station.lines,
+        };
+      }
+    }
+
+    // Commute — offline transit time, then a precomputed drive to a hub
+    // workplace, else the rough estimate
+    let commuteMinutes: number | null = null;
+    let commuteLabel: string | null = null;
+    let commuteSource: ScoredSuburb["commute_source"] = null;
+    const transit = workplaceMatch ? transitTime(suburb, workplaceMatch) : null;
+    const drive = workplaceHub ? hubDrive(suburb.suburb_key, workplaceHub) : null;
+    if (transit) {
+      commuteMinutes = transit.minutes;
+      commuteLabel = `${transit.minutes} min by transit`;
+      commuteSource = "transit_matrix";
+    } else if (drive) {
+      commuteMinutes = drive.duration_min;
+      commuteLabel = `${drive.duration_min} min drive`;
+      commuteSource = "hub_matrix";
+    } else if (workplacePostcode) {
+      const est = estimateCommuteTime(suburb.postcode, workplacePostcode);
+      if (est) {
+        commuteMinutes = est.estimatedMinutes;
+        commuteLabel = est.label;
+        commuteSource = "estimate";
+      }
+    }
+
+    // Composite affordability score
+    const supplyBonus = Math.min(5, suburb.total_bonds / 500);
+    const trendYears = Object.keys(suburb.rent_trend).sort();
+    let trendPenalty = 0;
+    if (trendYears.length >= 2) {
+      const oldest = suburb.rent_trend[trendYears[0]];
+      const newest = suburb.rent_trend[trendYears[trendYears.length - 1]];
+      if (oldest > 0) {
+        const increase = (newest - oldest) / oldest;
+        if (increase > 0.1) {
+          trendPenalty = Math.min(5, increase * 10);
+        }
+      }
+    }
+    const affordabilityScore =
+      Math.round((rentSharePct - supplyBonus + trendPenalty) * 10) / 10;
+
+    // Overall score — the results page shows these values as returned
+    let distanceKm: number | null = null;
+    let scoringCommute: number | null = null;
+    let cyclingMinutes: number | null = null;
+    let commuteCost: CommuteCost | null = null;
+    if (hasWorkplace && suburb.lat != null && suburb.lng != null) {
+      distanceKm = Math.round(haversineKm(suburb.lat, suburb.lng, workplaceLat!, workplaceLng!) * 10) / 10;
+      // The commute component is calibrated on transit times, so hub drive
+      // minutes stay out of it; the transit-scale estimate stands in instead
+      scoringCommute = transit?.minutes ?? estimateCommuteMinutes(distanceKm);
+      cyclingMinutes =
+        getCachedCommute(suburb.lat, suburb.lng, workplaceLat!, workplaceLng!)?.cycling?.duration_min ??
+        estimateCyclingMinutes(distanceKm);
+      const costOptions = { office_days: officeDays, concession };
+      commuteCost =
+        costMode === "transit"
+          ? transitCost(distanceKm, costOptions)
+          : drivingCost([suburb.lat, suburb.lng], [workplaceLat!, workplaceLng!], costOptions, drive?.distance_km);
+    }
+    if (maxCycleMin !== null && (cyclingMinutes === null || cyclingMinutes > maxCycleMin)) continue;
+
+    // Household: score + rank on the combined commute of every member
+    let household: HouseholdCommute | null = null;
+    if (isHousehold) {
+      household = householdCommute(suburb, workplaces, objective);
+      if (!household) continue;
+      scoringCommute = household.scoring_minutes;
+    }
+    const amenity = explainAmenityScore(suburb.suburb_key, amenityProfile);
+    const amenityScore = amenity.score;
+    const healthcareScore = getHealthcareAccess(suburb.suburb_key).score;
+    const overall = computeOverallScore(
+      {
+        rent_share_pct: rentSharePct,
+        commute_minutes: scoringCommute,
+        amenity_score: amenityScore,
+        healthcare_score: healthcareScore,
+        total_bonds: suburb.total_bonds,
+      },
+      weights,
+    );
+
+    scored.push({
+      suburb_key: suburb.suburb_key,
+      postcode: suburb.postcode,
+      suburb_name: suburb.suburb_name,
+      lat: suburb.lat,
+      lng: suburb.lng,
+      median_rent: perPersonRent,
+      rent_stress_pct: stress?.percentage ?? null,
+      rent_stress_pct_gross: grossStressPct,
+      budget_used_pct: budgetUsedPct,
+      headroom,
+      rent_share_pct: rentSharePct,
+      affordability_score: affordabilityScore,
+      rating: stress?.rating ?? null,
+      total_bonds: suburb.total_bonds,
+      rent_trend: suburb.rent_trend,
+      rent_in_12_months: rentIn12Months(suburb, bedsUsed, perPersonRent),
+      dwelling_types: suburb.dwelling_types,
+      ...hubDistances(suburb),
+      nearest_station: nearestStation,
+      commute_minutes: commuteMinutes,
+      commute_label: commuteLabel,
+      commute_source: commuteSource,
+      distance_km: distanceKm,
+      estimated_commute_min: scoringCommute,
+      cycling_minutes: cyclingMinutes,
+      commute_cost: commuteCost,
+      // No centroid means no commute cost — rent alone would undercut every suburb that has one
+      true_weekly_cost:
+        hasWorkplace && !commuteCost ? null : Math.round((perPersonRent + (commuteCost?.weekly ?? 0)) * 100) / 100,
+      household_commute: household,
+      overall_score: overall.overall_score,
+      score_breakdown: overall.breakdown,
+      amenity_score: amenityScore,
+      healthcare_score: healthcareScore,
+      amenity_rules: amenity.rules.map(({ found, earned }) => ({ found, earned })),
+      amenity_walk_rules: amenity.walk_rules.map(({ walk_score, earned }) => ({ walk_score, earned })),
+      secondary_catchment: secondaryCatchment,
+      walkability: poiSummary?.scores ?? null,
+      // Sharing fields
+      sharing_mode: sharingCount,
+      total_rent: totalRent!,
+      per_person_rent: perPersonRent,
+      solo_rent: soloRent,
+      savings_vs_solo: savingsVsSolo,
+      rent_estimated: rentEstimated,
+      dwelling_rent_basis: dwellingBasis,
+    });
+  }
+
+  if (sortMode) {
+    scored.sort((a, b) =>
+      compareForSort(
+        sortMode,
+        { ...a, commute_minutes: a.household_commute?.combined_minutes ?? a.estimated_commute_min },
+        { ...b, commute_minutes: b.household_commute?.combined_minutes ?? b.estimated_commute_min },
+      ),
+    );
+  } else if (isHousehold) {
+    // Household searches rank by the combined commute objective by default
+    scored.sort((a, b) => a.household_commute!.combined_minutes - b.household_commute!.combined_minutes);
+  } else if (isBudgetMode) {
+    // Most headroom under budget first
+    scored.sort((a, b) => b.headroom! - a.headroom!);
+  } else {
+    // Sort by rent stress (lowest first) as default API ordering
+    scored.sort((a, b) => a.rent_share_pct - b.rent_share_pct);
+  }
+
+  const top = scored.slice(0, limit);
+
+  return {
+    result: {
+      mode,
+      income_weekly: isBudgetMode ? null : income,
+      income: incomeBasis,
+      budget_weekly: isBudgetMode ? income : null,
+      bedrooms: bedrooms ?? "overall",
+      dwelling,
+      max_hub_km: parsedCaps.caps,
+      max_cycle_min: maxCycleMin,
+      max_commute_min: maxCommuteMin,
+      commute_isochrone: commuteArea,
+      secondary_catchment: inSecondaryCatchment,
+      max_poi_m: parsedPoiCaps.caps,
+      poi_coverage: poiSummaries.size,
+      cost_mode: costMode,
+      concession,
+      office_days: officeDays,
+      sharing_mode: sharingCount,
+      sort: sortMode,
+      weights,
+      amenity_profile: {
+        ...amenityProfile,
+        rules: amenityProfile.rules.map((r) => ({ ...r, description: describeRule(r) })),
+        walk_rules: amenityProfile.walk_rules.map((r) => ({ ...r, description: describeWalkRule(r) })),
+      },
+      workplace: workplaceName ?? workplaceStr ?? null,
+      workplace_postcode: workplacePostcode,
+      workplace_suburb_key: workplaceSuburbKey,
+      workplace_hub: workplaceHub?.label ?? null,
+      workplace_lat: workplaceLat,
+      workplace_lng: workplaceLng,
+      workplaces: workplaces.map((wp) => ({
+        query: wp.query,
+        suburb_key: wp.suburb.suburb_key,
+        suburb_name: wp.suburb.suburb_name,
+        postcode: wp.suburb.postcode,
+        lat: wp.suburb.lat,
+        lng: wp.suburb.lng,
+        weight: wp.weight,
+      })),
+      commute_objective: isHousehold ? objective : null,
+      total_matching: scored.length,
+      showing: top.length,
+      suburbs: top,
+    },
+  };
+}
@@ -0,0 +1,153 @@
+import seriesData from "@/data/rent_timeseries.json";
+import type { Suburb } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Rent time series — yearly, quarterly and monthly medians per bedroom count
+// and dwelling type, with bond counts. Generated by `npm run ingest` and
+// keyed by postcode (bond data is only published per postcode).
+//
+// Kept out of suburbs.ts so the series never ships in client bundles.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type Granularity = "year" | "quarter" | "month";
+
+export const GRANULARITIES: Granularity[] = ["year", "quarter", "month"];
+
+export const DWELLING_SERIES = ["Flat", "House", "Townhouse", "Other", "Unknown"] as const;
+
+export type DwellingSeries = (typeof DWELLING_SERIES)[number];
+
+/** "all" lodgements, one bedroom group, or one dwelling type. */
+export type SeriesKey = "all" | "1bed" | "2bed" | "3bed" | "4bed" | "5+bed" | DwellingSeries;
+
+/** [median $/wk, bonds lodged] for one period. */
+export type PeriodStat = [median: number, bonds: number];
+
+/**
+ * One postcode's series: granularity → series → period → stat. Period labels
+ * are "2024", "2024-Q1" or "2024-01".
+ */
+export type PostcodeSeries = Partial<Record<Granularity, Partial<Record<SeriesKey, Record<string, PeriodStat>>>>>;
+
+export interface RentPeriod {
+  period: string;
+  median: number;
+  bonds: number | null; // null for the yearly fallback, which has no counts
+}
+
+export interface RentSeries {
+  granularity: Granularity;
+  series: SeriesKey;
+  /** "bonds" = generated series; "rent_trend" = yearly overall medians only */
+  source: "bonds" | "rent_trend";
+  points: RentPeriod[];
+}
+
+// ---------------------------------------------------------------------------
+// Data access
+// ---------------------------------------------------------------------------
+
+const data = seriesData as Record<string, PostcodeSeries>;
+
+export function isGranularity(value: string): value is Granularity {
+  return (GRANULARITIES as string[]).includes(value);
+}
+
+/**
+ * Series key for a `dwelling` param, matched case-insensitively so the
+ * lowercase values /api/recommend takes ("flat") work here too. Null if
+ * it names no series.
+ */
+export function dwellingSeriesKey(value: string): DwellingSeries | null {
+  return DWELLING_SERIES.find((d) => d.toLowerCase() === value.toLowerCase()) ?? null;
+}
+
+/** Series key for a bedroom count; 5 and above share "5+bed". */
+export function bedroomSeriesKey(bedrooms: number): SeriesKey {
+  return bedrooms >= 5 ? "5+bed" : (`${bedrooms}bed` as SeriesKey);
+}
+
+/** Granularities getRentSeries can answer for a suburb's overall series. */
+export function availableGranularities(suburb: Suburb): Granularity[] {
+  const entry = data[suburb.postcode];
+  return GRANULARITIES.filter(
+    (g) =>
+      Object.keys(entry?.[g]?.all ?? {}).length > 0 ||
+      (g === "year" && Object.keys(suburb.rent_trend).length > 0),
+  );
+}
+
+/**
+ * Rent medians over time for a suburb. Falls back to the yearly `rent_trend`
+ * (overall only) when no generated series exists; null when neither has data.
+ */
+export function getRentSeries(
+  suburb: Suburb,
+  granularity: Granularity,
+  series: SeriesKey = "all",
+): RentSeries | null {
+  const periods = data[suburb.postcode]?.[granularity]?.[series];
+  if (periods && Object.keys(periods).length > 0) {
+    return {
+      granularity,
+      series,
+      source: "bonds",
+      points: Object.entries(periods)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([period, [median, bonds]]) => ({ period, median, bonds })),
+    };
+  }
+
+  if (granularity === "year" && series === "all" && Object.keys(suburb.rent_trend).length > 0) {
+    return {
+      granularity,
+      series,
+      source: "rent_trend",
+      points: Object.entries(suburb.rent_trend)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([period, median]) => ({ period, median, bonds: null })),
+    };
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Seasonality
+// ---------------------------------------------------------------------------
+
+/**
+ * Average % difference between each quarter (or month) and its year's mean,
+ * e.g. { Q1: 2.4, Q2: -0.8, ... }. Only years with every period present are
+ * used, so a partial latest year can't skew it; null with fewer than two.
+ */
+export function seasonalProfile(points: RentPeriod[], granularity: Granularity): Record<string, number> | null {
+  if (granularity === "year") return null;
+  const perYear = granularity === "quarter" ? 4 : 12;
+
+  const byYear = new Map<string, RentPeriod[]>();
+  for (const p of points) {
+    const year = p.period.slice(0, 4);
+    if (!byYear.has(year)) byYear.set(year, []);
+    byYear.get(year)!.push(p);
+  }
+  const fullYears = [...byYear.values()].filter((ps) => ps.length === perYear);
+  if (fullYears.length < 2) return null;
+
+  const totals: Record<string, number> = {};
+  for (const ps of fullYears) {
+    const mean = ps.reduce((sum, p) => sum + p.median, 0) / perYear;
+    for (const p of ps) {
+      const slot = p.period.slice(5); // "Q1" or "01"
+      totals[slot] = (totals[slot] ?? 0) + (p.median / mean - 1) * 100;
+    }
+  }
+  const profile: Record<string, number> = {};
+  for (const slot of Object.keys(totals).sort()) {
+    profile[slot] = Math.round((totals[slot] / fullYears.length) * 10) / 10;
+  }
+  return profile;
+}
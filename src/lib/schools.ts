@@ -0,0 +1,166 @@
+import catchmentData from "@/data/school_catchments.json";
+import type { AmenityItem } from "@/lib/amenities";
+import { pointsWithin, type School } from "@/lib/amenity-points";
+import { geometryBbox, pointInGeometry } from "@/lib/geo";
+import { getSuburbByKey, type Suburb } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Schools near each suburb, split by level and sector, and the public school
+// intake zones (catchments) its centroid falls in. Schools come from
+// schools.json; intake zones from school_catchments.json, generated by
+// `npm run school-catchments` from the NSW Department of Education's
+// intake-zone GeoJSON. Until that's been run there are no zones, and
+// hasCatchmentData() says so.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Catholic and independent schools are both "private". */
+export type SchoolSector = "public" | "selective" | "private";
+
+export const SCHOOL_SECTORS: SchoolSector[] = ["public", "selective", "private"];
+
+export interface NearbySchool extends AmenityItem {
+  type: School["type"];
+  sector: SchoolSector;
+  level: School["level"];
+}
+
+export type SchoolsBySector = Record<SchoolSector, NearbySchool[]>;
+
+/** A zone's level; central schools take both primary and secondary intake. */
+export type CatchmentLevel = "primary" | "secondary" | "central";
+
+export interface CatchmentProperties {
+  school: string;
+  level: CatchmentLevel;
+}
+
+export interface CatchmentData extends GeoJSON.FeatureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon, CatchmentProperties> {
+  generated_at: string | null;
+  source: string | null; // file the zones were built from
+}
+
+export interface SuburbSchools {
+  radius_km: number;
+  // K-12 schools appear under both levels
+  primary: SchoolsBySector;
+  secondary: SchoolsBySector;
+  catchments: CatchmentProperties[]; // intake zones holding the centroid
+  catchment_data: boolean; // false until the zones have been generated
+}
+
+// ---------------------------------------------------------------------------
+// Nearby schools
+// ---------------------------------------------------------------------------
+
+/** Schools this far from a centroid are listed — the distance the old counts used. */
+export const SCHOOL_RADIUS_KM = 5;
+
+const SECTOR_BY_TYPE: Record<School["type"], SchoolSector> = {
+  public: "public",
+  selective: "selective",
+  catholic: "private",
+  private: "private",
+};
+
+function bySector(schools: NearbySchool[]): SchoolsBySector {
+  return {
+    public: schools.filter((s) => s.sector === "public"),
+    selective: schools.filter((s) => s.sector === "selective"),
+    private: schools.filter((s) => s.sector === "private"),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Intake zones
+// ---------------------------------------------------------------------------
+
+const catchments = catchmentData as CatchmentData;
+
+interface Zone {
+  properties: CatchmentProperties;
+  geometry: GeoJSON.Geometry;
+  bbox: GeoJSON.BBox;
+}
+
+// Bounding boxes let most zones be skipped without a polygon test
+let zones: Zone[] | null = null;
+
+function getZones(): Zone[] {
+  if (!zones) {
+    zones = [];
+    for (const f of catchments.features) {
+      const bbox = geometryBbox(f.geometry);
+      if (bbox) zones.push({ properties: f.properties, geometry: f.geometry, bbox });
+    }
+  }
+  return zones;
+}
+
+export function hasCatchmentData(): boolean {
+  return catchments.features.length > 0;
+}
+
+/** Every intake zone containing a point. */
+export function catchmentsAt(lat: number, lng: number): CatchmentProperties[] {
+  return getZones()
+    .filter(({ bbox: [minLng, minLat, maxLng, maxLat] }) => lng >= minLng && lng <= maxLng && lat >= minLat && lat <= maxLat)
+    .filter((z) => pointInGeometry(lat, lng, z.geometry))
+    .map((z) => z.properties);
+}
+
+// ---------------------------------------------------------------------------
+// Per suburb
+// ---------------------------------------------------------------------------
+
+// Computed on first request per suburb; the datasets don't change at runtime
+const cache = new Map<string, SuburbSchools>();
+
+function computeSchools(suburb: Suburb): SuburbSchools {
+  let nearby: NearbySchool[] = [];
+  let zonesHere: CatchmentProperties[] = [];
+  if (suburb.lat != null && suburb.lng != null) {
+    nearby = pointsWithin("schools", suburb.lat, suburb.lng, SCHOOL_RADIUS_KM).map(({ item, distance_km }) => ({
+      name: item.name,
+      distance_km: Math.round(distance_km * 10) / 10,
+      lat: item.lat,
+      lng: item.lng,
+      type: item.type,
+      sector: SECTOR_BY_TYPE[item.type],
+      level: item.level,
+    }));
+    zonesHere = catchmentsAt(suburb.lat, suburb.lng);
+  }
+  return {
+    radius_km: SCHOOL_RADIUS_KM,
+    primary: bySector(nearby.filter((s) => s.level !== "secondary")),
+    secondary: bySector(nearby.filter((s) => s.level !== "primary")),
+    catchments: zonesHere,
+    catchment_data: hasCatchmentData(),
+  };
+}
+
+/** Schools and intake zones for a suburb; null for an unknown key. */
+export function getSchools(suburbKey: string): SuburbSchools | null {
+  const cached = cache.get(suburbKey);
+  if (cached) return cached;
+
+  const suburb = getSuburbByKey(suburbKey);
+  if (!suburb) return null;
+  const schools = computeSchools(suburb);
+  cache.set(suburbKey, schools);
+  return schools;
+}
+
+/**
+ * Public secondary schools whose intake zone holds the suburb's centroid —
+ * central schools included. Empty for an unknown key or one without a centroid.
+ */
+export function secondaryCatchments(suburbKey: string): string[] {
+  return (getSchools(suburbKey)?.catchments ?? [])
+    .filter((c) => c.level !== "primary")
+    .map((c) => c.school);
+}
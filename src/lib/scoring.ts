@@ -0,0 +1,226 @@
+import { hubDistanceField, HUB_IDS, isHubId, type HubDistances, type HubId } from "@/lib/hubs";
+
+// ---------------------------------------------------------------------------
+// Composite "best overall" scoring — shared by /api/recommend and the
+// results page so both rank suburbs identically.
+//
+// Kept free of data imports so it can be bundled into client components.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SortMode =
+  | "best_overall"
+  | "shortest_commute"
+  | "best_affordability"
+  | "lowest_rent"
+  | "lowest_true_cost"
+  | `nearest_${HubId}`;
+
+export const SORT_MODES: SortMode[] = [
+  "best_overall",
+  "shortest_commute",
+  "best_affordability",
+  "lowest_rent",
+  "lowest_true_cost",
+  ...HUB_IDS.map((hub) => `nearest_${hub}` as const),
+];
+
+export interface ScoreWeights {
+  affordability: number;
+  commute: number;
+  amenity: number;
+  healthcare: number;
+  supply: number;
+}
+
+export interface ScoreInput {
+  /** Rent as % of weekly income (income mode) or of the weekly budget (budget mode). */
+  rent_share_pct: number;
+  commute_minutes: number | null;
+  amenity_score: number;
+  /** 0–100 healthcare access (see lib/healthcare). */
+  healthcare_score: number;
+  total_bonds: number;
+}
+
+export interface ScoreBreakdown {
+  affordability: number;
+  commute: number | null;
+  amenity: number;
+  healthcare: number;
+  supply: number;
+}
+
+export interface OverallScore {
+  overall_score: number;
+  breakdown: ScoreBreakdown;
+}
+
+/** Fields needed to order suburbs under any sort mode. */
+export interface RankFields extends HubDistances {
+  overall_score: number;
+  rent_share_pct: number;
+  median_rent: number;
+  /** Rent + weekly commute cost; null when the commute cost is unknown */
+  true_weekly_cost: number | null;
+  commute_minutes: number | null;
+  distance_km: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Weights
+// ---------------------------------------------------------------------------
+
+/** 0.35 affordability, 0.3 commute, 0.1 amenities, 0.1 healthcare, 0.15 supply */
+export const DEFAULT_WEIGHTS: ScoreWeights = {
+  affordability: 0.35,
+  commute: 0.3,
+  amenity: 0.1,
+  healthcare: 0.1,
+  supply: 0.15,
+};
+
+/** Without a workplace there is no commute — lean on affordability + supply. */
+export const DEFAULT_WEIGHTS_NO_WORKPLACE: ScoreWeights = {
+  affordability: 0.45,
+  commute: 0,
+  amenity: 0.15,
+  healthcare: 0.1,
+  supply: 0.3,
+};
+
+/**
+ * Resolve the weights to score with. Caller-supplied weights are merged over
+ * the defaults and normalised to sum to 1; the commute weight is dropped when
+ * there is no workplace to commute to.
+ */
+export function resolveWeights(
+  custom: Partial<ScoreWeights> | null,
+  hasWorkplace: boolean,
+): ScoreWeights {
+  if (!custom || Object.keys(custom).length === 0) {
+    return hasWorkplace ? DEFAULT_WEIGHTS : DEFAULT_WEIGHTS_NO_WORKPLACE;
+  }
+
+  const base = hasWorkplace ? DEFAULT_WEIGHTS : DEFAULT_WEIGHTS_NO_WORKPLACE;
+  const merged: ScoreWeights = { ...base, ...custom };
+  if (!hasWorkplace) merged.commute = 0;
+
+  const total = merged.affordability + merged.commute + merged.amenity + merged.healthcare + merged.supply;
+  if (total <= 0) return base;
+
+  const norm = (w: number) => Math.round((w / total) * 1000) / 1000;
+  return {
+    affordability: norm(merged.affordability),
+    commute: norm(merged.commute),
+    amenity: norm(merged.amenity),
+    healthcare: norm(merged.healthcare),
+    supply: norm(merged.supply),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Component scores (each 0–100)
+// ---------------------------------------------------------------------------
+
+/**
+ * Rough door-to-door commute estimate from straight-line distance.
+ * Short trips are walk/bus dominated; longer ones average out on rail.
+ */
+export function estimateCommuteMinutes(distKm: number): number {
+  if (distKm < 3) return Math.max(5, Math.round(distKm * 12));
+  if (distKm < 10) return Math.round(15 + distKm * 2);
+  if (distKm < 30) return Math.round(20 + distKm * 1.8);
+  return Math.round(30 + distKm * 1.5);
+}
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+export function affordabilityComponent(rentSharePct: number): number {
+  return clampScore(100 - rentSharePct * 2);
+}
+
+export function commuteComponent(minutes: number | null): number {
+  if (minutes == null) return 0;
+  return clampScore(100 - minutes * 1.5);
+}
+
+export function supplyComponent(totalBonds: number): number {
+  return clampScore(totalBonds / 10);
+}
+
+// ---------------------------------------------------------------------------
+// Overall score
+// ---------------------------------------------------------------------------
+
+/** Weighted 0–100 score plus the per-component breakdown that produced it. */
+export function computeOverallScore(input: ScoreInput, weights: ScoreWeights): OverallScore {
+  const affordability = Math.round(affordabilityComponent(input.rent_share_pct));
+  const commute = weights.commute > 0 ? Math.round(commuteComponent(input.commute_minutes)) : null;
+  const amenity = Math.round(clampScore(input.amenity_score));
+  const healthcare = Math.round(clampScore(input.healthcare_score));
+  const supply = Math.round(supplyComponent(input.total_bonds));
+
+  const overall =
+    affordabilityComponent(input.rent_share_pct) * weights.affordability +
+    commuteComponent(input.commute_minutes) * weights.commute +
+    clampScore(input.amenity_score) * weights.amenity +
+    clampScore(input.healthcare_score) * weights.healthcare +
+    supplyComponent(input.total_bonds) * weights.supply;
+
+  return {
+    overall_score: clampScore(Math.round(overall)),
+    breakdown: { affordability, commute, amenity, healthcare, supply },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Sorting
+// ---------------------------------------------------------------------------
+
+export function isSortMode(value: string | null): value is SortMode {
+  return value != null && (SORT_MODES as string[]).includes(value);
+}
+
+/** The hub a `nearest_<hub>` sort mode orders by, or null for other modes. */
+export function sortHub(mode: SortMode): HubId | null {
+  const hub = mode.startsWith("nearest_") ? mode.slice("nearest_".length) : "";
+  return isHubId(hub) ? hub : null;
+}
+
+/** Comparator for the given sort mode (ascending = best first). */
+export function compareForSort(mode: SortMode, a: RankFields, b: RankFields): number {
+  const hub = sortHub(mode);
+  if (hub) {
+    const field = hubDistanceField(hub);
+    return (a[field] ?? 999) - (b[field] ?? 999);
+  }
+
+  switch (mode) {
+    case "best_overall":
+      return b.overall_score - a.overall_score;
+    case "shortest_commute":
+      return (a.commute_minutes ?? 999) - (b.commute_minutes ?? 999);
+    case "best_affordability": {
+      // Rent share first; within ~3% of each other, prefer nearer suburbs
+      const shareDiff = a.rent_share_pct - b.rent_share_pct;
+      if (Math.abs(shareDiff) > 3) return shareDiff;
+      return (a.distance_km ?? 999) - (b.distance_km ?? 999);
+    }
+    case "lowest_rent":
+      return a.median_rent - b.median_rent;
+    case "lowest_true_cost":
+      // Unknown costs last
+      if (a.true_weekly_cost === null || b.true_weekly_cost === null) {
+        return Number(a.true_weekly_cost === null) - Number(b.true_weekly_cost === null);
+      }
+      return a.true_weekly_cost - b.true_weekly_cost;
+    default:
+      return 0;
+  }
+}
@@ -0,0 +1,152 @@
+// ---------------------------------------------------------------------------
+// Spatial index — a 3-d tree over points on the unit sphere, answering
+// k-nearest and within-radius queries without scanning every point.
+//
+// Points are placed at their (x, y, z) on the sphere, where straight-line
+// (chord) distance orders exactly as great-circle distance does, so pruning
+// on the split planes never drops a true neighbour. Distances come back as
+// great-circle km, matching haversineKm. Pure — safe in client bundles.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface Neighbour<T> {
+  item: T;
+  distance_km: number;
+}
+
+export interface SpatialIndex<T extends GeoPoint> {
+  size: number;
+  /** Up to `k` nearest points, nearest first. */
+  nearest(lat: number, lng: number, k?: number): Neighbour<T>[];
+  /** Every point within `radiusKm`, nearest first. */
+  within(lat: number, lng: number, radiusKm: number): Neighbour<T>[];
+}
+
+type Vec3 = [number, number, number];
+
+interface Candidate {
+  point: number;
+  d2: number; // squared chord
+}
+
+interface KdNode {
+  point: number; // index into the items
+  axis: 0 | 1 | 2;
+  left: KdNode | null;
+  right: KdNode | null;
+}
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+const EARTH_RADIUS_KM = 6371;
+
+function toVec3(lat: number, lng: number): Vec3 {
+  const phi = (lat * Math.PI) / 180;
+  const lambda = (lng * Math.PI) / 180;
+  return [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)];
+}
+
+function chord2(a: Vec3, b: Vec3): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+/** Squared chord (unit sphere) spanning a great-circle distance. */
+function kmToChord2(km: number): number {
+  const angle = Math.min(Math.PI, km / EARTH_RADIUS_KM);
+  return (2 * Math.sin(angle / 2)) ** 2;
+}
+
+function chord2ToKm(d2: number): number {
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(d2) / 2));
+}
+
+/** Nearer first; ties (e.g. co-located stations) keep input order, as a stable sort would. */
+function compareCandidates(a: Candidate, b: Candidate): number {
+  return a.d2 - b.d2 || a.point - b.point;
+}
+
+// ---------------------------------------------------------------------------
+// Build + query
+// ---------------------------------------------------------------------------
+
+function build(order: number[], coords: Vec3[], depth: number): KdNode | null {
+  if (order.length === 0) return null;
+  const axis = (depth % 3) as 0 | 1 | 2;
+  order.sort((a, b) => coords[a][axis] - coords[b][axis]);
+  const mid = order.length >> 1;
+  return {
+    point: order[mid],
+    axis,
+    left: build(order.slice(0, mid), coords, depth + 1),
+    right: build(order.slice(mid + 1), coords, depth + 1),
+  };
+}
+
+/**
+ * Index points with a lat/lng. Items without finite coordinates are left out.
+ * The tree is built once; rebuild it if the points change.
+ */
+export function createSpatialIndex<T extends GeoPoint>(points: T[]): SpatialIndex<T> {
+  const items = points.filter((p) => Number.isFinite(p.lat) && Number.isFinite(p.lng));
+  const coords = items.map((p) => toVec3(p.lat, p.lng));
+  const root = build(items.map((_, i) => i), coords, 0);
+
+  const toNeighbours = (found: Candidate[]): Neighbour<T>[] =>
+    found.sort(compareCandidates).map(({ point, d2 }) => ({ item: items[point], distance_km: chord2ToKm(d2) }));
+
+  return {
+    size: items.length,
+
+    nearest(lat, lng, k = 1) {
+      if (k <= 0) return [];
+      const q = toVec3(lat, lng);
+      // Best k so far, nearest first; k is small, so insertion keeps it sorted
+      const best: Candidate[] = [];
+
+      const visit = (node: KdNode | null) => {
+        if (!node) return;
+        const candidate = { point: node.point, d2: chord2(q, coords[node.point]) };
+        if (best.length < k || compareCandidates(candidate, best[best.length - 1]) < 0) {
+          let i = best.length;
+          while (i > 0 && compareCandidates(best[i - 1], candidate) > 0) i--;
+          best.splice(i, 0, candidate);
+          if (best.length > k) best.pop();
+        }
+        const diff = q[node.axis] - coords[node.point][node.axis];
+        const [near, far] = diff < 0 ? [node.left, node.right] : [node.right, node.left];
+        visit(near);
+        // <= so an equally distant point earlier in the input can still win a tie
+        if (best.length < k || diff * diff <= best[best.length - 1].d2) visit(far);
+      };
+      visit(root);
+      return toNeighbours(best);
+    },
+
+    within(lat, lng, radiusKm) {
+      const q = toVec3(lat, lng);
+      const r2 = kmToChord2(radiusKm);
+      const found: Candidate[] = [];
+
+      const visit = (node: KdNode | null) => {
+        if (!node) return;
+        const d2 = chord2(q, coords[node.point]);
+        if (d2 <= r2) found.push({ point: node.point, d2 });
+        const diff = q[node.axis] - coords[node.point][node.axis];
+        if (diff < 0 || diff * diff <= r2) visit(node.left);
+        if (diff >= 0 || diff * diff <= r2) visit(node.right);
+      };
+      visit(root);
+      return toNeighbours(found);
+    },
+  };
+}
@@ -0,0 +1,157 @@
+import type { DwellingKind, Suburb } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Suburb record schema — checked when sydney_suburbs.json loads and by
+// `npm run ingest` before a release is written.
+//
+// FIELDS is typed as a record over every key of Suburb, so adding a field to
+// the interface fails type-checking here until it's validated too.
+//
+// Kept free of data imports so ingest can validate a replacement dataset even
+// when the bundled one is broken.
+// ---------------------------------------------------------------------------
+
+type FieldKind =
+  | "postcode"
+  | "string"
+  | "nullable-string"
+  | "count"
+  | "rent"
+  | "nullable-rent"
+  | "nullable-number"
+  | "nullable-distance"
+  | "percent-map"
+  | "year-map"
+  | "dwelling-rents";
+
+const FIELDS: Record<keyof Suburb, FieldKind> = {
+  suburb_key: "string",
+  postcode: "postcode",
+  suburb_name: "nullable-string",
+  lat: "nullable-number",
+  lng: "nullable-number",
+  median_rent_overall: "rent",
+  avg_rent: "rent",
+  total_bonds: "count",
+  median_rent_1bed: "nullable-rent",
+  median_rent_2bed: "nullable-rent",
+  median_rent_3bed: "nullable-rent",
+  median_rent_4bed: "nullable-rent",
+  "median_rent_5+bed": "nullable-rent",
+  dwelling_types: "percent-map",
+  rent_trend: "year-map",
+  median_household_income_weekly: "nullable-rent",
+  rent_stress_pct_1bed: "nullable-number",
+  rent_stress_pct_2bed: "nullable-number",
+  rent_stress_pct_3bed: "nullable-number",
+  rent_stress_pct_4bed: "nullable-number",
+  "rent_stress_pct_5+bed": "nullable-number",
+  distance_to_cbd_km: "nullable-distance",
+  distance_to_parramatta_km: "nullable-distance",
+  distance_to_north_sydney_km: "nullable-distance",
+  distance_to_macquarie_park_km: "nullable-distance",
+  distance_to_chatswood_km: "nullable-distance",
+  dwelling_rents: "dwelling-rents",
+};
+
+/** Fields older releases lack; checked when present. */
+const OPTIONAL_FIELDS = new Set<string>(["dwelling_rents"]);
+
+const DWELLING_RENT_FIELDS: Record<string, FieldKind> = {
+  median_rent_overall: "rent",
+  total_bonds: "count",
+  median_rent_1bed: "nullable-rent",
+  median_rent_2bed: "nullable-rent",
+  median_rent_3bed: "nullable-rent",
+  median_rent_4bed: "nullable-rent",
+  "median_rent_5+bed": "nullable-rent",
+};
+
+const DWELLING_KINDS: Record<DwellingKind, true> = { house: true, flat: true, townhouse: true };
+
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+function checkField(kind: FieldKind, value: unknown): string | null {
+  switch (kind) {
+    case "postcode":
+      return typeof value === "string" && /^\d{4}$/.test(value) ? null : "must be a 4-digit string";
+    case "string":
+      return typeof value === "string" && value !== "" ? null : "must be a non-empty string";
+    case "nullable-string":
+      return value === null || (typeof value === "string" && value !== "") ? null : "must be a non-empty string or null";
+    case "count":
+      return Number.isInteger(value) && (value as number) > 0 ? null : "must be a positive integer";
+    case "rent":
+      return isNumber(value) && value > 0 ? null : "must be a positive number";
+    case "nullable-rent":
+      return value === null || (isNumber(value) && value > 0) ? null : "must be a positive number or null";
+    case "nullable-number":
+      return value === null || isNumber(value) ? null : "must be a number or null";
+    case "nullable-distance":
+      return value === null || (isNumber(value) && value >= 0) ? null : "must be a non-negative number or null";
+    case "percent-map": {
+      if (!value || typeof value !== "object") return "must be an object";
+      const pcts = Object.values(value);
+      if (!pcts.every((p) => isNumber(p) && p >= 0 && p <= 100)) return "values must be percentages";
+      const total = pcts.reduce((sum: number, p) => sum + (p as number), 0);
+      return Math.abs(total - 100) <= 0.5 ? null : `percentages sum to ${total.toFixed(1)}, not 100`;
+    }
+    case "year-map": {
+      if (!value || typeof value !== "object") return "must be an object";
+      const entries = Object.entries(value);
+      if (entries.length === 0) return "must have at least one year";
+      return entries.every(([year, rent]) => /^\d{4}$/.test(year) && isNumber(rent) && rent > 0)
+        ? null
+        : "must map 4-digit years to positive rents";
+    }
+    case "dwelling-rents": {
+      if (!value || typeof value !== "object") return "must be an object";
+      for (const [kind, rents] of Object.entries(value)) {
+        if (!(kind in DWELLING_KINDS)) return `${kind} is not a dwelling kind`;
+        if (!rents || typeof rents !== "object") return `${kind} must be an object`;
+        for (const [field, fieldKind] of Object.entries(DWELLING_RENT_FIELDS)) {
+          const problem = checkField(fieldKind, (rents as Record<string, unknown>)[field]);
+          if (problem) return `${kind}.${field} ${problem}`;
+        }
+      }
+      return null;
+    }
+  }
+}
+
+/** Problems with one record, as "field: message" strings. */
+export function validateSuburb(record: unknown): string[] {
+  if (!record || typeof record !== "object") return ["record is not an object"];
+  const obj = record as Record<string, unknown>;
+  const errors: string[] = [];
+
+  for (const [field, kind] of Object.entries(FIELDS) as [keyof Suburb, FieldKind][]) {
+    if (!(field in obj)) {
+      if (OPTIONAL_FIELDS.has(field)) continue;
+      errors.push(`${field}: missing`);
+      continue;
+    }
+    const problem = checkField(kind, obj[field]);
+    if (problem) errors.push(`${field}: ${problem}`);
+  }
+  for (const field of Object.keys(obj)) {
+    if (!(field in FIELDS)) errors.push(`${field}: not a Suburb field`);
+  }
+
+  if ((obj.lat === null) !== (obj.lng === null)) errors.push("lat/lng: must both be set or both null");
+  return errors;
+}
+
+/** Problems across the whole dataset, prefixed with the offending key. */
+export function validateDataset(data: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+  const keys = Object.keys(data);
+  if (keys.length === 0) errors.push("dataset is empty");
+
+  for (const key of keys) {
+    const record = data[key] as Record<string, unknown>;
+    for (const problem of validateSuburb(record)) errors.push(`${key}: ${problem}`);
+    if (record?.suburb_key !== key) errors.push(`${key}: suburb_key does not match its key`);
+  }
+  return errors;
+}
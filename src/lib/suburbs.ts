@@ -1,4 +1,5 @@
 import suburbData from "@/data/sydney_suburbs.json";
+import { validateDataset } from "@/lib/suburb-schema";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -26,6 +27,33 @@ export interface Suburb {
   rent_stress_pct_3bed: number | null;
   rent_stress_pct_4bed: number | null;
   "rent_stress_pct_5+bed": number | null;
+  // Straight-line km to each employment hub (see hubs.ts); null without a centroid
+  distance_to_cbd_km: number | null;
+  distance_to_parramatta_km: number | null;
+  distance_to_north_sydney_km: number | null;
+  distance_to_macquarie_park_km: number | null;
+  distance_to_chatswood_km: number | null;
+  /** Per-dwelling-type medians; absent in releases built before they were added */
+  dwelling_rents?: Partial<Record<DwellingKind, DwellingRents>>;
+}
+
+/** Dwelling types a search can be narrowed to (bond data's F / H / T codes). */
+export type DwellingKind = "house" | "flat" | "townhouse";
+
+export const DWELLING_KINDS: DwellingKind[] = ["house", "flat", "townhouse"];
+
+/** Where a dwelling-filtered rent came from: the type's own median, or the suburb-wide one. */
+export type DwellingRentBasis = "dwelling" | "all_dwellings";
+
+/** Medians for one dwelling type, pooled across years like the suburb-wide ones. */
+export interface DwellingRents {
+  median_rent_overall: number;
+  total_bonds: number;
+  median_rent_1bed: number | null;
+  median_rent_2bed: number | null;
+  median_rent_3bed: number | null;
+  median_rent_4bed: number | null;
+  "median_rent_5+bed": number | null;
 }
 
 export type RentStressRating = "comfortable" | "manageable" | "stressed" | "severe";
@@ -39,7 +67,21 @@ export interface RentStressResult {
 // Data access
 // ---------------------------------------------------------------------------
 
-const suburbs = suburbData as Record<string, Suburb>;
+/**
+ * The bundled dataset, checked against the Suburb schema on first import so a
+ * bad release fails loudly at startup instead of as NaNs deep in a route.
+ */
+function loadSuburbs(data: unknown): Record<string, Suburb> {
+  const errors = validateDataset(data as Record<string, unknown>);
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 20).map((e) => `\n  - ${e}`).join("");
+    const more = errors.length > 20 ? `\n  …and ${errors.length - 20} more` : "";
+    throw new Error(`sydney_suburbs.json failed validation (${errors.length} problems):${shown}${more}`);
+  }
+  return data as Record<string, Suburb>;
+}
+
+const suburbs = loadSuburbs(suburbData);
 
 export function getAllSuburbs(): Suburb[] {
   return Object.values(suburbs);
@@ -85,6 +127,20 @@ export function searchSuburbs(query: string): Suburb[] {
   return [...exact, ...startsWith, ...contains, ...postcodeMatch];
 }
 
+/**
+ * Resolve free text (suburb name or postcode) to a single suburb.
+ * Name search first — exact > startsWith > contains > postcode — then a
+ * direct postcode lookup for bare 4-digit input.
+ */
+export function resolveSuburbQuery(query: string): Suburb | null {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+  const matches = searchSuburbs(trimmed);
+  if (matches.length > 0) return matches[0];
+  if (/^\d{4}$/.test(trimmed)) return getSuburbByPostcode(trimmed) ?? null;
+  return null;
+}
+
 // ---------------------------------------------------------------------------
 // Affordability helpers
 // ---------------------------------------------------------------------------
@@ -118,6 +174,46 @@ export function medianRentKey(
   return `median_rent_${label}bed` as keyof Suburb;
 }
 
+export function isDwellingKind(value: string): value is DwellingKind {
+  return (DWELLING_KINDS as string[]).includes(value);
+}
+
+/** `dwelling_types` label for a dwelling kind — "house" → "House". */
+const DWELLING_TYPE_LABELS: Record<DwellingKind, string> = {
+  house: "House",
+  flat: "Flat",
+  townhouse: "Townhouse",
+};
+
+/**
+ * Below this share of a suburb's bonds a dwelling type is treated as not on
+ * offer there — a median from a handful of leases isn't a market.
+ */
+export const MIN_DWELLING_SHARE_PCT = 5;
+
+/**
+ * Median rent for one dwelling type, optionally for a bedroom count. Uses the
+ * type's own median where the dataset has one; otherwise falls back to the
+ * suburb-wide median for that bedroom count and flags it `estimated`. Null
+ * when the type makes up too little of the suburb's rentals, or no fallback
+ * exists.
+ */
+export function dwellingMedianRent(
+  suburb: Suburb,
+  kind: DwellingKind,
+  bedrooms: number | null,
+): { rent: number; estimated: boolean } | null {
+  const share = suburb.dwelling_types[DWELLING_TYPE_LABELS[kind]] ?? 0;
+  if (share < MIN_DWELLING_SHARE_PCT) return null;
+
+  const key = bedrooms ? medianRentKey(bedrooms) : "median_rent_overall";
+  const exact = suburb.dwelling_rents?.[kind]?.[key as keyof DwellingRents] ?? null;
+  if (exact !== null) return { rent: exact, estimated: false };
+
+  const fallback = suburb[key] as number | null;
+  return fallback === null ? null : { rent: fallback, estimated: true };
+}
+
 /** Compute the Sydney-wide median for a given rent field across all postcodes. */
 export function sydneyMedianRent(field: keyof Suburb = "median_rent_overall"): number {
   const values = getAllSuburbs()
@@ -0,0 +1,159 @@
+// ---------------------------------------------------------------------------
+// Australian resident income tax — gross ↔ take-home conversion
+//
+// Rates: ATO resident brackets for 2026–27 (16% bracket cut to 15% from
+// 1 July 2026), low income tax offset, 2% Medicare levy with the low-income
+// shade-in, and HELP compulsory repayments on the 2025–26 marginal system.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type IncomeType = "gross" | "takehome";
+
+export interface TaxOptions {
+  /** Apply HECS/HELP compulsory repayments. */
+  hasHelpDebt?: boolean;
+}
+
+export interface TaxBreakdown {
+  gross_annual: number;
+  income_tax: number;
+  low_income_offset: number;
+  medicare_levy: number;
+  help_repayment: number;
+  net_annual: number;
+  gross_weekly: number;
+  net_weekly: number;
+}
+
+export interface IncomeBasis {
+  income_type: IncomeType;
+  gross_weekly: number;
+  net_weekly: number;
+  tax: TaxBreakdown;
+}
+
+// ---------------------------------------------------------------------------
+// Rates
+// ---------------------------------------------------------------------------
+
+const BRACKETS: { over: number; base: number; rate: number }[] = [
+  { over: 190_000, base: 51_370, rate: 0.45 },
+  { over: 135_000, base: 31_020, rate: 0.37 },
+  { over: 45_000, base: 4_020, rate: 0.3 },
+  { over: 18_200, base: 0, rate: 0.15 },
+];
+
+const MEDICARE_RATE = 0.02;
+const MEDICARE_LOW_THRESHOLD = 27_222;
+const MEDICARE_SHADE_IN_RATE = 0.1;
+
+const HELP_THRESHOLD = 67_000;
+const HELP_UPPER_THRESHOLD = 125_000;
+const HELP_LOWER_RATE = 0.15;
+const HELP_UPPER_BASE = 8_700;
+const HELP_UPPER_RATE = 0.17;
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// Components
+// ---------------------------------------------------------------------------
+
+export function incomeTax(gross: number): number {
+  for (const b of BRACKETS) {
+    if (gross > b.over) return b.base + (gross - b.over) * b.rate;
+  }
+  return 0;
+}
+
+/** Low income tax offset: $700, phasing out between $37,500 and $66,667. */
+export function lowIncomeTaxOffset(gross: number): number {
+  if (gross <= 37_500) return 700;
+  if (gross <= 45_000) return 700 - (gross - 37_500) * 0.05;
+  if (gross <= 66_667) return Math.max(0, 325 - (gross - 45_000) * 0.015);
+  return 0;
+}
+
+/** Medicare levy (singles): nil below the threshold, then shaded in at 10c/$. */
+export function medicareLevy(gross: number): number {
+  if (gross <= MEDICARE_LOW_THRESHOLD) return 0;
+  return Math.min(gross * MEDICARE_RATE, (gross - MEDICARE_LOW_THRESHOLD) * MEDICARE_SHADE_IN_RATE);
+}
+
+/** HELP compulsory repayment — marginal rates on income above the threshold. */
+export function helpRepayment(gross: number): number {
+  if (gross <= HELP_THRESHOLD) return 0;
+  if (gross <= HELP_UPPER_THRESHOLD) return (gross - HELP_THRESHOLD) * HELP_LOWER_RATE;
+  return HELP_UPPER_BASE + (gross - HELP_UPPER_THRESHOLD) * HELP_UPPER_RATE;
+}
+
+// ---------------------------------------------------------------------------
+// Conversion
+// ---------------------------------------------------------------------------
+
+/** Convert gross annual income to take-home pay. */
+export function grossToNet(grossAnnual: number, opts: TaxOptions = {}): TaxBreakdown {
+  const gross = Math.max(0, grossAnnual);
+  const tax = incomeTax(gross);
+  const offset = Math.min(tax, lowIncomeTaxOffset(gross));
+  const medicare = medicareLevy(gross);
+  const help = opts.hasHelpDebt ? helpRepayment(gross) : 0;
+  const net = gross - (tax - offset) - medicare - help;
+
+  return {
+    gross_annual: round2(gross),
+    income_tax: round2(tax),
+    low_income_offset: round2(offset),
+    medicare_levy: round2(medicare),
+    help_repayment: round2(help),
+    net_annual: round2(net),
+    gross_weekly: Math.round(gross / 52),
+    net_weekly: Math.round(net / 52),
+  };
+}
+
+/**
+ * Convert take-home annual pay back to gross. Net is monotonic in gross, so
+ * a bisection over [net, 3 × net] converges to the cent.
+ */
+export function netToGross(netAnnual: number, opts: TaxOptions = {}): TaxBreakdown {
+  if (netAnnual <= 0) return grossToNet(0, opts);
+
+  let lo = netAnnual;
+  let hi = netAnnual * 3;
+  for (let i = 0; i < 60 && hi - lo > 0.01; i++) {
+    const mid = (lo + hi) / 2;
+    if (grossToNet(mid, opts).net_annual < netAnnual) lo = mid;
+    else hi = mid;
+  }
+  return grossToNet(hi, opts);
+}
+
+/** Resolve a weekly income entered as gross or take-home to both bases. */
+export function resolveIncome(
+  weeklyIncome: number,
+  incomeType: IncomeType,
+  opts: TaxOptions = {},
+): IncomeBasis {
+  const tax =
+    incomeType === "gross"
+      ? grossToNet(weeklyIncome * 52, opts)
+      : netToGross(weeklyIncome * 52, opts);
+
+  return {
+    income_type: incomeType,
+    // Keep the figure the user typed exact; derive the other side
+    gross_weekly: incomeType === "gross" ? weeklyIncome : tax.gross_weekly,
+    net_weekly: incomeType === "takehome" ? weeklyIncome : tax.net_weekly,
+    tax,
+  };
+}
+
+export function isIncomeType(value: string | null): value is IncomeType {
+  return value === "gross" || value === "takehome";
+}
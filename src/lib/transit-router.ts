@@ -0,0 +1,104 @@
+import { haversineKm } from "@/lib/commute";
+import type { GtfsFeed } from "@/lib/gtfs";
+
+// ---------------------------------------------------------------------------
+// Offline public transport router — a reverse connection scan over a GTFS
+// service day (see gtfs.ts), answering "how long does it take to reach this
+// station by a given time?" from every stop in one pass.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Minimum time to change between trips at a station. */
+export const MIN_CHANGE_SEC = 180;
+
+/** A train_stations.json entry further than this from every GTFS stop is left unmatched. */
+export const STATION_MATCH_KM = 0.4;
+
+export interface ArriveByResult {
+  /** Latest departure from each stop that still arrives in time; -Infinity if none. */
+  depart: Float64Array;
+  /** Arrival time of that journey; NaN where depart is -Infinity. */
+  arrive: Float64Array;
+}
+
+// ---------------------------------------------------------------------------
+// Routing
+// ---------------------------------------------------------------------------
+
+/**
+ * Latest departure from every stop that reaches a target stop by `arriveBy`
+ * (seconds after midnight). One scan over the connections in reverse time
+ * order: a connection is usable if its trip is already known to get there,
+ * or it arrives at a stop with enough time to change onto a later journey.
+ */
+export function latestDepartures(feed: GtfsFeed, target: number, arriveBy: number): ArriveByResult {
+  const depart = new Float64Array(feed.stops.length).fill(-Infinity);
+  const arrive = new Float64Array(feed.stops.length).fill(NaN);
+  depart[target] = arriveBy;
+  arrive[target] = arriveBy;
+
+  // Arrival time at the target for a trip we can stay on
+  const tripArrival = new Map<number, number>();
+
+  for (let i = feed.connections.length - 1; i >= 0; i--) {
+    const c = feed.connections[i];
+    let reaches = tripArrival.get(c.trip);
+    if (reaches === undefined) {
+      if (c.to === target && c.arr <= arriveBy) reaches = c.arr;
+      else if (c.arr + MIN_CHANGE_SEC <= depart[c.to]) reaches = arrive[c.to];
+      else continue;
+      tripArrival.set(c.trip, reaches);
+    }
+    if (c.dep > depart[c.from] || (c.dep === depart[c.from] && reaches < arrive[c.from])) {
+      depart[c.from] = c.dep;
+      arrive[c.from] = reaches;
+    }
+  }
+  return { depart, arrive };
+}
+
+/** Nearest GTFS stop to each station within STATION_MATCH_KM, or -1. */
+export function matchStations(feed: GtfsFeed, stations: { lat: number; lng: number }[]): number[] {
+  return stations.map((station) => {
+    let best = -1;
+    let bestKm = STATION_MATCH_KM;
+    feed.stops.forEach((stop, i) => {
+      if (!Number.isFinite(stop.lat) || !Number.isFinite(stop.lng)) return;
+      const km = haversineKm(station.lat, station.lng, stop.lat, stop.lng);
+      if (km <= bestKm) {
+        best = i;
+        bestKm = km;
+      }
+    });
+    return best;
+  });
+}
+
+/**
+ * Station-to-station travel minutes for a journey arriving by `arriveBy`:
+ * minutes[from][to], counted from boarding to alighting (so waits for
+ * connections are included but not the wait at the origin). Null where no
+ * journey exists or a station has no matching stop.
+ */
+export function stationMatrix(
+  feed: GtfsFeed,
+  stations: { lat: number; lng: number }[],
+  arriveBy: number,
+): (number | null)[][] {
+  const stopFor = matchStations(feed, stations);
+  const minutes: (number | null)[][] = stations.map(() => stations.map(() => null));
+
+  stopFor.forEach((target, to) => {
+    if (target === -1) return;
+    const { depart, arrive } = latestDepartures(feed, target, arriveBy);
+    stopFor.forEach((stop, from) => {
+      if (stop === -1) return;
+      if (stop === target) minutes[from][to] = 0;
+      else if (depart[stop] > -Infinity) minutes[from][to] = Math.round((arrive[stop] - depart[stop]) / 60);
+    });
+  });
+  return minutes;
+}
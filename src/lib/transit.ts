@@ -0,0 +1,115 @@
+import matrixData from "@/data/transit_matrix.json";
+import { estimateWalkingMinutes, getAllStations, haversineKm } from "@/lib/commute";
+import type { Suburb } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Weekday-peak public transport times between suburbs, from the station
+// matrix `npm run transit-matrix` builds out of a GTFS feed. A suburb reaches
+// the network by walking to any station within ACCESS_RADIUS_KM of its
+// centroid, so every lookup is local — no TfNSW calls.
+//
+// Server-only: the matrix is too large for client bundles.
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TransitMatrix {
+  generated_at: string | null;
+  feed: { file: string; sha1: string } | null;
+  service_date: string | null; // YYYYMMDD the timetable was taken from
+  arrive_by: string; // "09:00"
+  /** train_stations.json names, in matrix order */
+  stations: string[];
+  /** minutes[from][to], boarding to alighting; null where there's no journey */
+  minutes: (number | null)[][];
+}
+
+export interface TransitTime {
+  minutes: number;
+  /** null when walking the whole way beats the network */
+  from_station: string | null;
+  to_station: string | null;
+}
+
+interface AccessPoint {
+  index: number;
+  walk_min: number;
+}
+
+// ---------------------------------------------------------------------------
+// Access and egress
+// ---------------------------------------------------------------------------
+
+const matrix = matrixData as TransitMatrix;
+
+/** Walk to (or from) any station this close to a suburb centroid. */
+export const ACCESS_RADIUS_KM = 2;
+
+/** Floor on any door-to-door time, matching estimateCommuteTime. */
+const MIN_TRIP_MIN = 5;
+
+export function hasTransitMatrix(): boolean {
+  return matrix.stations.length > 0;
+}
+
+// Stations in matrix order with their coordinates, resolved once
+let matrixStations: { index: number; lat: number; lng: number }[] | null = null;
+const accessCache = new Map<string, AccessPoint[]>();
+
+function accessPoints(suburb: Suburb): AccessPoint[] {
+  if (suburb.lat == null || suburb.lng == null) return [];
+  const cached = accessCache.get(suburb.suburb_key);
+  if (cached) return cached;
+
+  if (!matrixStations) {
+    const byName = new Map(getAllStations().map((s) => [s.name, s]));
+    matrixStations = matrix.stations.flatMap((name, index) => {
+      const s = byName.get(name);
+      return s ? [{ index, lat: s.lat, lng: s.lng }] : [];
+    });
+  }
+
+  const points: AccessPoint[] = [];
+  for (const s of matrixStations) {
+    const km = haversineKm(suburb.lat, suburb.lng, s.lat, s.lng);
+    if (km <= ACCESS_RADIUS_KM) points.push({ index: s.index, walk_min: estimateWalkingMinutes(km) });
+  }
+  accessCache.set(suburb.suburb_key, points);
+  return points;
+}
+
+// ---------------------------------------------------------------------------
+// Lookup
+// ---------------------------------------------------------------------------
+
+/**
+ * Door-to-door weekday-peak transit time between two suburb centroids:
+ * walk to a station, ride, walk from the station — the best combination
+ * over every station within reach of each end. Null when the matrix hasn't
+ * been generated or no journey exists.
+ */
+export function transitTime(from: Suburb, to: Suburb): TransitTime | null {
+  if (!hasTransitMatrix()) return null;
+
+  let best: TransitTime | null = null;
+  if (from.lat != null && from.lng != null && to.lat != null && to.lng != null) {
+    const km = haversineKm(from.lat, from.lng, to.lat, to.lng);
+    if (km <= ACCESS_RADIUS_KM) best = { minutes: estimateWalkingMinutes(km), from_station: null, to_station: null };
+  }
+
+  const egress = accessPoints(to);
+  for (const a of accessPoints(from)) {
+    const row = matrix.minutes[a.index];
+    for (const e of egress) {
+      const ride = row?.[e.index];
+      if (ride == null) continue;
+      const total = a.walk_min + ride + e.walk_min;
+      if (!best || total < best.minutes) {
+        best = { minutes: total, from_station: matrix.stations[a.index], to_station: matrix.stations[e.index] };
+      }
+    }
+  }
+  return best && { ...best, minutes: Math.max(MIN_TRIP_MIN, best.minutes) };
+}
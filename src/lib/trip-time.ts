@@ -0,0 +1,108 @@
+// ---------------------------------------------------------------------------
+// When a commute leg runs — a Sydney-local date and a departure or arrival
+// time, as /api/commute takes them and the TfNSW Trip Planner expects them
+// (itdDate YYYYMMDD, itdTime HHMM, depArrMacro dep|arr).
+// ---------------------------------------------------------------------------
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface TripTime {
+  date: string; // YYYYMMDD, Sydney local
+  mode: "dep" | "arr";
+  time: string; // HHMM, Sydney local
+}
+
+export const SYDNEY_TZ = "Australia/Sydney";
+
+/** The commute /api/commute has always quoted: next weekday, leaving at 8am. */
+export const DEFAULT_DEPART_AT = "0800";
+
+const DAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Today's Sydney calendar date, as midnight UTC so day arithmetic is DST-free. */
+function sydneyToday(): Date {
+  const ymd = new Intl.DateTimeFormat("en-CA", {
+    timeZone: SYDNEY_TZ,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date());
+  return new Date(`${ymd}T00:00:00Z`);
+}
+
+function formatDate(d: Date): string {
+  return d.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/** "8:05", "08:05" or "0805" → "0805"; null if not a 24-hour time. */
+export function parseClock(value: string): string | null {
+  const m = value.trim().match(/^(\d{1,2}):?(\d{2})$/);
+  if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) return null;
+  return `${m[1].padStart(2, "0")}${m[2]}`;
+}
+
+/**
+ * Resolve a `day` param to a YYYYMMDD date:
+ * - null/empty → the next weekday (today if it is one)
+ * - "mon" … "sun" or a full day name → the next such day, today included
+ * - "YYYY-MM-DD" → that date, if it isn't in the past
+ * Returns null for anything else.
+ */
+export function resolveDay(value: string | null): string | null {
+  const today = sydneyToday();
+  const v = value?.trim().toLowerCase() ?? "";
+
+  let target: number;
+  if (v === "") {
+    const dow = today.getUTCDay();
+    target = dow === 0 || dow === 6 ? 1 : dow;
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(v)) {
+    const d = new Date(`${v}T00:00:00Z`);
+    if (isNaN(d.getTime()) || d.toISOString().slice(0, 10) !== v || d < today) return null;
+    return formatDate(d);
+  } else {
+    target = DAY_NAMES.findIndex((name) => v === name || v === name.slice(0, 3));
+    if (target === -1) return null;
+  }
+
+  today.setUTCDate(today.getUTCDate() + ((target - today.getUTCDay() + 7) % 7));
+  return formatDate(today);
+}
+
+export function defaultTripTime(): TripTime {
+  return { date: resolveDay(null)!, mode: "dep", time: DEFAULT_DEPART_AT };
+}
+
+/** The instant a Sydney-local date and HHMM refer to (AEST or AEDT as it falls). */
+export function sydneyInstant(date: string, time: string): Date {
+  const asUtc = Date.UTC(
+    Number(date.slice(0, 4)),
+    Number(date.slice(4, 6)) - 1,
+    Number(date.slice(6, 8)),
+    Number(time.slice(0, 2)),
+    Number(time.slice(2, 4)),
+  );
+  // "GMT+11:00" → 660
+  const offset = new Intl.DateTimeFormat("en-AU", { timeZone: SYDNEY_TZ, timeZoneName: "longOffset" })
+    .formatToParts(new Date(asUtc))
+    .find((p) => p.type === "timeZoneName")?.value ?? "GMT+10:00";
+  const m = offset.match(/GMT([+-])(\d{2}):(\d{2})/);
+  const offsetMin = m ? (m[1] === "-" ? -1 : 1) * (Number(m[2]) * 60 + Number(m[3])) : 600;
+  return new Date(asUtc - offsetMin * 60_000);
+}
+
+/** "7:45 am" in Sydney time. */
+export function formatSydneyTime(d: Date): string {
+  return d.toLocaleTimeString("en-AU", {
+    timeZone: SYDNEY_TZ,
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+  });
+}
@@ -0,0 +1,356 @@
+import { AMENITY_CATEGORIES, WALK_ASPECTS } from "@/lib/amenity-profiles";
+import { getDb } from "@/lib/db";
+import { getSuburbByKey } from "@/lib/suburbs";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** A stored `/api/recommend` query — param name → value. */
+export type SearchParams = Record<string, string>;
+
+export interface SavedSearch {
+  id: number;
+  name: string;
+  params: SearchParams;
+  created_at: string;
+  updated_at: string;
+  last_run_at: string | null;
+  alert_email: string | null;
+}
+
+export interface ShortlistItem {
+  suburb_key: string;
+  suburb_name: string | null;
+  note: string;
+  added_at: string;
+}
+
+export interface Shortlist {
+  id: number;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  items: ShortlistItem[];
+}
+
+export interface HistoryEntry {
+  suburb_key: string;
+  suburb_name: string | null;
+  viewed_at: string;
+}
+
+interface SavedSearchRow {
+  id: number;
+  name: string;
+  params: string;
+  created_at: string;
+  updated_at: string;
+  last_run_at: string | null;
+  alert_email: string | null;
+}
+
+interface ShortlistRow {
+  id: number;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Every param `/api/recommend` understands — anything else is dropped on save. */
+export const RECOMMEND_PARAMS = [
+  "mode",
+  "income",
+  "budget",
+  "income_type",
+  "help",
+  "bedrooms",
+  "dwelling",
+  "max_cbd_km",
+  "max_parramatta_km",
+  "max_north_sydney_km",
+  "max_macquarie_park_km",
+  "max_chatswood_km",
+  "max_cycle_min",
+  "max_commute_min",
+  "secondary_catchment",
+  "max_supermarket_m",
+  "max_pharmacy_m",
+  "max_park_m",
+  "max_gym_m",
+  "max_library_m",
+  "cost_mode",
+  "concession",
+  "office_days",
+  "sharing",
+  "share_bedroom",
+  "workplace",
+  "workplaces",
+  "commute_objective",
+  "sort",
+  "w_affordability",
+  "w_commute",
+  "w_amenity",
+  "w_healthcare",
+  "w_supply",
+  "amenity_profile",
+  ...[...AMENITY_CATEGORIES, ...WALK_ASPECTS].map((k) => `aw_${k}`),
+];
+
+export const MAX_NAME_LENGTH = 80;
+export const MAX_NOTE_LENGTH = 1000;
+export const HISTORY_LIMIT = 50;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Keep the known recommend params from a request body. Values must be
+ * strings or numbers; an income or budget is required to re-run the search.
+ */
+export function sanitizeSearchParams(raw: unknown): { params: SearchParams } | { error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { error: "params must be an object of /api/recommend query params" };
+  }
+  const params: SearchParams = {};
+  for (const key of RECOMMEND_PARAMS) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (value == null || value === "") continue;
+    if (typeof value !== "string" && typeof value !== "number") {
+      return { error: `params.${key} must be a string or number` };
+    }
+    params[key] = String(value);
+  }
+  if (!params.income && !params.budget) {
+    return { error: "params must include income or budget" };
+  }
+  return { params };
+}
+
+/** Trimmed, single-line, non-empty name within the length limit, or null. */
+export function cleanName(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const name = raw.replace(/\s+/g, " ").trim();
+  if (!name || name.length > MAX_NAME_LENGTH) return null;
+  return name;
+}
+
+/** Trimmed, lower-cased email address, or null if it doesn't look like one. */
+export function cleanEmail(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const email = raw.trim().toLowerCase();
+  if (email.length > 254 || !EMAIL_RE.test(email)) return null;
+  return email;
+}
+
+/** Positive integer row ID from a route segment, or null. */
+export function parseRowId(raw: string): number | null {
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+// ---------------------------------------------------------------------------
+// Devices
+// ---------------------------------------------------------------------------
+
+/** Register a device on first sight and bump its last-seen time. */
+export function touchDevice(deviceId: string): void {
+  const ts = now();
+  getDb()
+    .prepare(
+      `INSERT INTO devices (id, created_at, last_seen_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET last_seen_at = excluded.last_seen_at`,
+    )
+    .run(deviceId, ts, ts);
+}
+
+// ---------------------------------------------------------------------------
+// Saved searches
+// ---------------------------------------------------------------------------
+
+function toSavedSearch(row: SavedSearchRow): SavedSearch {
+  return { ...row, params: JSON.parse(row.params) as SearchParams };
+}
+
+export function listSavedSearches(deviceId: string): SavedSearch[] {
+  const rows = getDb()
+    .prepare("SELECT id, name, params, created_at, updated_at, last_run_at, alert_email FROM saved_searches WHERE device_id = ? ORDER BY updated_at DESC")
+    .all(deviceId) as SavedSearchRow[];
+  return rows.map(toSavedSearch);
+}
+
+export function getSavedSearch(deviceId: string, id: number): SavedSearch | null {
+  const row = getDb()
+    .prepare("SELECT id, name, params, created_at, updated_at, last_run_at, alert_email FROM saved_searches WHERE device_id = ? AND id = ?")
+    .get(deviceId, id) as SavedSearchRow | undefined;
+  return row ? toSavedSearch(row) : null;
+}
+
+export function createSavedSearch(
+  deviceId: string,
+  name: string,
+  params: SearchParams,
+  alertEmail: string | null = null,
+): SavedSearch {
+  const ts = now();
+  const result = getDb()
+    .prepare("INSERT INTO saved_searches (device_id, name, params, created_at, updated_at, alert_email) VALUES (?, ?, ?, ?, ?, ?)")
+    .run(deviceId, name, JSON.stringify(params), ts, ts, alertEmail);
+  return getSavedSearch(deviceId, Number(result.lastInsertRowid))!;
+}
+
+export function updateSavedSearch(
+  deviceId: string,
+  id: number,
+  changes: { name?: string; params?: SearchParams; alert_email?: string | null },
+): SavedSearch | null {
+  const existing = getSavedSearch(deviceId, id);
+  if (!existing) return null;
+  getDb()
+    .prepare("UPDATE saved_searches SET name = ?, params = ?, alert_email = ?, updated_at = ? WHERE device_id = ? AND id = ?")
+    .run(
+      changes.name ?? existing.name,
+      JSON.stringify(changes.params ?? existing.params),
+      changes.alert_email !== undefined ? changes.alert_email : existing.alert_email,
+      now(),
+      deviceId,
+      id,
+    );
+  return getSavedSearch(deviceId, id);
+}
+
+/** Record that a saved search was re-run. */
+export function markSavedSearchRun(deviceId: string, id: number): SavedSearch | null {
+  const result = getDb()
+    .prepare("UPDATE saved_searches SET last_run_at = ? WHERE device_id = ? AND id = ?")
+    .run(now(), deviceId, id);
+  return result.changes > 0 ? getSavedSearch(deviceId, id) : null;
+}
+
+export function deleteSavedSearch(deviceId: string, id: number): boolean {
+  return getDb()
+    .prepare("DELETE FROM saved_searches WHERE device_id = ? AND id = ?")
+    .run(deviceId, id).changes > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Shortlists
+// ---------------------------------------------------------------------------
+
+function shortlistItems(shortlistId: number): ShortlistItem[] {
+  const rows = getDb()
+    .prepare("SELECT suburb_key, note, added_at FROM shortlist_items WHERE shortlist_id = ? ORDER BY added_at")
+    .all(shortlistId) as Omit<ShortlistItem, "suburb_name">[];
+  return rows.map((r) => ({ ...r, suburb_name: getSuburbByKey(r.suburb_key)?.suburb_name ?? null }));
+}
+
+export function listShortlists(deviceId: string): Shortlist[] {
+  const rows = getDb()
+    .prepare("SELECT id, name, created_at, updated_at FROM shortlists WHERE device_id = ? ORDER BY updated_at DESC")
+    .all(deviceId) as ShortlistRow[];
+  return rows.map((r) => ({ ...r, items: shortlistItems(r.id) }));
+}
+
+export function getShortlist(deviceId: string, id: number): Shortlist | null {
+  const row = getDb()
+    .prepare("SELECT id, name, created_at, updated_at FROM shortlists WHERE device_id = ? AND id = ?")
+    .get(deviceId, id) as ShortlistRow | undefined;
+  return row ? { ...row, items: shortlistItems(row.id) } : null;
+}
+
+export function createShortlist(deviceId: string, name: string, suburbKeys: string[] = []): Shortlist {
+  const db = getDb();
+  const ts = now();
+  const id = db.transaction(() => {
+    const result = db
+      .prepare("INSERT INTO shortlists (device_id, name, created_at, updated_at) VALUES (?, ?, ?, ?)")
+      .run(deviceId, name, ts, ts);
+    const shortlistId = Number(result.lastInsertRowid);
+    const insert = db.prepare("INSERT OR IGNORE INTO shortlist_items (shortlist_id, suburb_key, added_at) VALUES (?, ?, ?)");
+    for (const key of suburbKeys) insert.run(shortlistId, key, ts);
+    return shortlistId;
+  })();
+  return getShortlist(deviceId, id)!;
+}
+
+export function renameShortlist(deviceId: string, id: number, name: string): Shortlist | null {
+  const result = getDb()
+    .prepare("UPDATE shortlists SET name = ?, updated_at = ? WHERE device_id = ? AND id = ?")
+    .run(name, now(), deviceId, id);
+  return result.changes > 0 ? getShortlist(deviceId, id) : null;
+}
+
+export function deleteShortlist(deviceId: string, id: number): boolean {
+  return getDb()
+    .prepare("DELETE FROM shortlists WHERE device_id = ? AND id = ?")
+    .run(deviceId, id).changes > 0;
+}
+
+/** Add a suburb to a shortlist, or update its note if already there. */
+export function upsertShortlistItem(
+  deviceId: string,
+  shortlistId: number,
+  suburbKey: string,
+  note: string | undefined,
+): Shortlist | null {
+  if (!getShortlist(deviceId, shortlistId)) return null;
+  const db = getDb();
+  const ts = now();
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO shortlist_items (shortlist_id, suburb_key, note, added_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(shortlist_id, suburb_key) DO UPDATE SET note = COALESCE(?, note)`,
+    ).run(shortlistId, suburbKey, note ?? "", ts, note ?? null);
+    db.prepare("UPDATE shortlists SET updated_at = ? WHERE id = ?").run(ts, shortlistId);
+  })();
+  return getShortlist(deviceId, shortlistId);
+}
+
+export function removeShortlistItem(deviceId: string, shortlistId: number, suburbKey: string): Shortlist | null {
+  if (!getShortlist(deviceId, shortlistId)) return null;
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare("DELETE FROM shortlist_items WHERE shortlist_id = ? AND suburb_key = ?").run(shortlistId, suburbKey);
+    db.prepare("UPDATE shortlists SET updated_at = ? WHERE id = ?").run(now(), shortlistId);
+  })();
+  return getShortlist(deviceId, shortlistId);
+}
+
+// ---------------------------------------------------------------------------
+// View history
+// ---------------------------------------------------------------------------
+
+/** Log a suburb view. Only the most recent HISTORY_LIMIT views are kept. */
+export function recordView(deviceId: string, suburbKey: string): void {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare("INSERT INTO view_history (device_id, suburb_key, viewed_at) VALUES (?, ?, ?)")
+      .run(deviceId, suburbKey, now());
+    db.prepare(
+      `DELETE FROM view_history WHERE device_id = ? AND id NOT IN (
+         SELECT id FROM view_history WHERE device_id = ? ORDER BY viewed_at DESC, id DESC LIMIT ?
+       )`,
+    ).run(deviceId, deviceId, HISTORY_LIMIT);
+  })();
+}
+
+/** Most recent view per suburb, newest first. */
+export function listHistory(deviceId: string, limit = HISTORY_LIMIT): HistoryEntry[] {
+  const rows = getDb()
+    .prepare(
+      `SELECT suburb_key, MAX(viewed_at) AS viewed_at FROM view_history
+       WHERE device_id = ? GROUP BY suburb_key ORDER BY viewed_at DESC LIMIT ?`,
+    )
+    .all(deviceId, limit) as { suburb_key: string; viewed_at: string }[];
+  return rows.map((r) => ({ ...r, suburb_name: getSuburbByKey(r.suburb_key)?.suburb_name ?? null }));
+}
+
+export function clearHistory(deviceId: string): void {
+  getDb().prepare("DELETE FROM view_history WHERE device_id = ?").run(deviceId);
+}